@@ -0,0 +1,60 @@
+import crypto from 'crypto';
+import bs58 from 'bs58';
+import nacl from 'tweetnacl';
+
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Message the wallet signs to prove ownership of `userId` for one challenge
+ */
+export function challengeMessage(userId, nonce) {
+  return `Chatrix relay login\n\nWallet: ${userId}\nNonce: ${nonce}`;
+}
+
+/**
+ * Wallet-signature challenge authentication with resumable session tokens
+ */
+export function createAuthenticator() {
+  // token -> { userId, deviceId, expiresAt }
+  const sessions = new Map();
+
+  return {
+    issueChallenge() {
+      return bs58.encode(crypto.randomBytes(32));
+    },
+
+    verifySignature(userId, nonce, signature) {
+      try {
+        return nacl.sign.detached.verify(
+          new TextEncoder().encode(challengeMessage(userId, nonce)),
+          bs58.decode(signature),
+          bs58.decode(userId)
+        );
+      } catch {
+        return false;
+      }
+    },
+
+    issueToken(userId, deviceId) {
+      const token = bs58.encode(crypto.randomBytes(32));
+      sessions.set(token, { userId, deviceId, expiresAt: Date.now() + SESSION_TTL_MS });
+      return token;
+    },
+
+    verifyToken(userId, deviceId, token) {
+      const session = sessions.get(token);
+      if (!session) return false;
+      if (session.expiresAt < Date.now()) {
+        sessions.delete(token);
+        return false;
+      }
+      return session.userId === userId && session.deviceId === deviceId;
+    },
+
+    revokeDevice(userId, deviceId) {
+      for (const [token, session] of sessions) {
+        if (session.userId === userId && session.deviceId === deviceId) sessions.delete(token);
+      }
+    },
+  };
+}
@@ -0,0 +1,115 @@
+import fs from 'fs';
+import fsp from 'fs/promises';
+import path from 'path';
+
+/**
+ * Blob storage interface. A blob is `{ owner, chunkCount, createdAt, expiresAt }`
+ * plus its chunks, stored by index. Every method may return a promise.
+ *
+ *   meta(blobId)                -> blob record or null
+ *   create(blobId, record)
+ *   putChunk(blobId, index, bytes)
+ *   getChunk(blobId, index)     -> Buffer or null
+ *   chunkSizes(blobId)          -> { [index]: byteLength }
+ *   remove(blobId)
+ *   blobIds()
+ */
+
+/**
+ * Volatile storage; every blob is lost when the relay restarts
+ */
+export function createMemoryBlobStorage() {
+  const blobs = new Map();
+
+  return {
+    meta(blobId) {
+      return blobs.get(blobId)?.record ?? null;
+    },
+
+    create(blobId, record) {
+      blobs.set(blobId, { record, chunks: new Map() });
+    },
+
+    putChunk(blobId, index, bytes) {
+      blobs.get(blobId)?.chunks.set(index, bytes);
+    },
+
+    getChunk(blobId, index) {
+      return blobs.get(blobId)?.chunks.get(index) ?? null;
+    },
+
+    chunkSizes(blobId) {
+      const chunks = blobs.get(blobId)?.chunks ?? new Map();
+      return Object.fromEntries([...chunks].map(([index, bytes]) => [index, bytes.length]));
+    },
+
+    remove(blobId) {
+      blobs.delete(blobId);
+    },
+
+    blobIds() {
+      return [...blobs.keys()];
+    },
+  };
+}
+
+/**
+ * One directory per blob, holding `meta.json` and a file per chunk
+ */
+export function createDiskBlobStorage(dir) {
+  fs.mkdirSync(dir, { recursive: true });
+  const blobDir = (blobId) => path.join(dir, blobId);
+  const chunkFile = (blobId, index) => path.join(blobDir(blobId), `${index}.bin`);
+
+  return {
+    async meta(blobId) {
+      try {
+        return JSON.parse(await fsp.readFile(path.join(blobDir(blobId), 'meta.json'), 'utf8'));
+      } catch {
+        return null;
+      }
+    },
+
+    async create(blobId, record) {
+      await fsp.mkdir(blobDir(blobId), { recursive: true });
+      await fsp.writeFile(path.join(blobDir(blobId), 'meta.json'), JSON.stringify(record));
+    },
+
+    async putChunk(blobId, index, bytes) {
+      // Write then rename, so a crash never leaves a truncated chunk behind
+      const tmp = `${chunkFile(blobId, index)}.tmp`;
+      await fsp.writeFile(tmp, bytes);
+      await fsp.rename(tmp, chunkFile(blobId, index));
+    },
+
+    async getChunk(blobId, index) {
+      try {
+        return await fsp.readFile(chunkFile(blobId, index));
+      } catch {
+        return null;
+      }
+    },
+
+    async chunkSizes(blobId) {
+      const sizes = {};
+      let names = [];
+      try {
+        names = await fsp.readdir(blobDir(blobId));
+      } catch {
+        return sizes;
+      }
+      for (const name of names.filter(n => n.endsWith('.bin'))) {
+        sizes[Number(name.slice(0, -4))] = (await fsp.stat(path.join(blobDir(blobId), name))).size;
+      }
+      return sizes;
+    },
+
+    async remove(blobId) {
+      await fsp.rm(blobDir(blobId), { recursive: true, force: true });
+    },
+
+    async blobIds() {
+      return fsp.readdir(dir);
+    },
+  };
+}
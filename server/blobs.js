@@ -0,0 +1,84 @@
+import crypto from 'crypto';
+import bs58 from 'bs58';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Client-generated ids are unguessable, which is what keeps blobs private to whoever holds the message
+const BLOB_ID_PATTERN = /^[A-Za-z0-9_-]{16,64}$/;
+
+// Same encoding as the client's AdvancedCrypto.hashData
+const chunkHash = (bytes) => bs58.encode(crypto.createHash('sha512').update(bytes).digest());
+
+/**
+ * Encrypted file store. Clients upload ciphertext in numbered chunks and share
+ * the blob id and key inside their encrypted messages; the relay never sees
+ * either the key or the file name.
+ */
+export function createBlobStore(storage, {
+  ttlMs = 30 * DAY_MS,
+  maxChunkBytes = 512 * 1024,
+  maxBlobBytes = 64 * 1024 * 1024,
+} = {}) {
+  const maxChunks = Math.ceil(maxBlobBytes / maxChunkBytes);
+  const usedBytes = async (blobId) =>
+    Object.values(await storage.chunkSizes(blobId)).reduce((total, size) => total + size, 0);
+
+  return {
+    /**
+     * Store chunk `index` of `chunkCount`. The first chunk written creates the blob
+     * for `owner`; only the owner may add to it. Rewriting a chunk is harmless.
+     * `hash` is the sender's hash of the chunk, so damage in transit is caught here.
+     */
+    async putChunk(owner, { blobId, index, chunkCount, data, hash } = {}) {
+      const bytes = Buffer.isBuffer(data) ? data : data instanceof Uint8Array ? Buffer.from(data) : null;
+      const valid = typeof blobId === 'string' && BLOB_ID_PATTERN.test(blobId) &&
+        Number.isInteger(chunkCount) && chunkCount > 0 && chunkCount <= maxChunks &&
+        Number.isInteger(index) && index >= 0 && index < chunkCount &&
+        bytes && bytes.length > 0 && bytes.length <= maxChunkBytes;
+      if (!valid) return { ok: false, error: 'invalid_chunk' };
+      if (hash !== chunkHash(bytes)) return { ok: false, error: 'hash_mismatch' };
+
+      const now = Date.now();
+      let blob = await storage.meta(blobId);
+      if (blob && blob.expiresAt <= now) {
+        await storage.remove(blobId);
+        blob = null;
+      }
+      if (!blob) {
+        blob = { owner, chunkCount, createdAt: now, expiresAt: now + ttlMs };
+        await storage.create(blobId, blob);
+      }
+      if (blob.owner !== owner || blob.chunkCount !== chunkCount) return { ok: false, error: 'not_owner' };
+
+      const sizes = await storage.chunkSizes(blobId);
+      const used = await usedBytes(blobId) - (sizes[index] ?? 0);
+      if (used + bytes.length > maxBlobBytes) return { ok: false, error: 'blob_too_large' };
+
+      await storage.putChunk(blobId, index, bytes);
+      return { ok: true };
+    },
+
+    /**
+     * Chunk `index` of a blob and its hash, once it has been uploaded
+     */
+    async getChunk({ blobId, index } = {}) {
+      if (typeof blobId !== 'string' || !BLOB_ID_PATTERN.test(blobId) || !Number.isInteger(index)) {
+        return { ok: false, error: 'invalid_chunk' };
+      }
+
+      const blob = await storage.meta(blobId);
+      if (!blob || blob.expiresAt <= Date.now()) return { ok: false, error: 'not_found' };
+
+      const data = await storage.getChunk(blobId, index);
+      return data ? { ok: true, data, hash: chunkHash(data), chunkCount: blob.chunkCount } : { ok: false, error: 'not_found' };
+    },
+
+    async purgeExpired() {
+      const now = Date.now();
+      for (const blobId of await storage.blobIds()) {
+        const blob = await storage.meta(blobId);
+        if (!blob || blob.expiresAt <= now) await storage.remove(blobId);
+      }
+    },
+  };
+}
@@ -0,0 +1,48 @@
+import crypto from 'crypto';
+import bs58 from 'bs58';
+import { describe, expect, it } from 'vitest';
+import { createBlobStore } from './blobs.js';
+import { createMemoryBlobStorage } from './blob-storage.js';
+
+const BLOB_ID = 'blob_0123456789abcdef';
+const hashOf = (bytes) => bs58.encode(crypto.createHash('sha512').update(bytes).digest());
+const chunk = (index, text, chunkCount = 2) => {
+  const data = Buffer.from(text);
+  return { blobId: BLOB_ID, index, chunkCount, data, hash: hashOf(data) };
+};
+
+describe('blob store', () => {
+  it('stores chunks and hands them back with their hash', async () => {
+    const blobs = createBlobStore(createMemoryBlobStorage());
+    expect(await blobs.putChunk('alice', chunk(0, 'first'))).toEqual({ ok: true });
+    expect(await blobs.putChunk('alice', chunk(1, 'second'))).toEqual({ ok: true });
+
+    const stored = await blobs.getChunk({ blobId: BLOB_ID, index: 1 });
+    expect(stored.ok).toBe(true);
+    expect(Buffer.from(stored.data).toString()).toBe('second');
+    expect(stored.hash).toBe(hashOf(Buffer.from('second')));
+  });
+
+  it('rejects a chunk that does not match its hash', async () => {
+    const blobs = createBlobStore(createMemoryBlobStorage());
+    const damaged = { ...chunk(0, 'first'), hash: hashOf(Buffer.from('other')) };
+    expect(await blobs.putChunk('alice', damaged)).toEqual({ ok: false, error: 'hash_mismatch' });
+    expect((await blobs.getChunk({ blobId: BLOB_ID, index: 0 })).ok).toBe(false);
+  });
+
+  it('only lets the owner add to a blob', async () => {
+    const blobs = createBlobStore(createMemoryBlobStorage());
+    await blobs.putChunk('alice', chunk(0, 'first'));
+    expect(await blobs.putChunk('eve', chunk(1, 'second'))).toEqual({ ok: false, error: 'not_owner' });
+  });
+
+  it('rejects malformed chunks and oversized blobs', async () => {
+    const blobs = createBlobStore(createMemoryBlobStorage(), { maxChunkBytes: 8, maxBlobBytes: 12 });
+    expect(await blobs.putChunk('alice', { ...chunk(0, 'first'), blobId: 'short' })).toEqual({ ok: false, error: 'invalid_chunk' });
+    expect(await blobs.putChunk('alice', chunk(2, 'first'))).toEqual({ ok: false, error: 'invalid_chunk' });
+    expect(await blobs.putChunk('alice', chunk(0, 'far too long'))).toEqual({ ok: false, error: 'invalid_chunk' });
+
+    expect(await blobs.putChunk('alice', chunk(0, 'eight by'))).toEqual({ ok: true });
+    expect(await blobs.putChunk('alice', chunk(1, 'six by'))).toEqual({ ok: false, error: 'blob_too_large' });
+  });
+});
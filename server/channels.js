@@ -0,0 +1,149 @@
+import { createMemoryRegistryStorage } from './registry-storage.js';
+
+const MAX_NAME_LENGTH = 64;
+const MAX_DESCRIPTION_LENGTH = 512;
+
+/**
+ * Broadcast channels, posted to by their authors and fanned out to subscribers.
+ * Public channels are discoverable by id or name and open to anyone; private
+ * ones are hidden, and only members their authors invited may subscribe.
+ */
+export function createChannelRegistry(storage = createMemoryRegistryStorage()) {
+  // channelId -> { channelId, name, description, createdBy, isPublic, authors: Set, subscribers: Set, members: Set }
+  const channels = new Map(storage.load().map(([channelId, record]) => [channelId, {
+    ...record,
+    isPublic: record.isPublic !== false,
+    authors: new Set(record.authors),
+    subscribers: new Set(record.subscribers),
+    members: new Set(record.members),
+  }]));
+
+  const save = (channel) => storage.save(channel.channelId, {
+    ...channel,
+    authors: [...channel.authors],
+    subscribers: [...channel.subscribers],
+    members: [...channel.members],
+  });
+
+  // Who may see and subscribe to a channel; everyone, for public ones
+  const canSee = (channel, userId) => channel.isPublic || channel.members.has(userId);
+
+  const info = (channel) => ({
+    channelId: channel.channelId,
+    name: channel.name,
+    description: channel.description,
+    createdBy: channel.createdBy,
+    isPublic: channel.isPublic,
+    authors: [...channel.authors],
+    subscriberCount: channel.subscribers.size,
+  });
+
+  return {
+    has(channelId) {
+      return channels.has(channelId);
+    },
+
+    create({ channelId, name, description = '', isPublic = true, members = [] } = {}, createdBy) {
+      if (typeof channelId !== 'string' || !channelId.startsWith('channel_') || channels.has(channelId)) return null;
+      if (typeof name !== 'string' || !name.trim() || name.length > MAX_NAME_LENGTH) return null;
+      if (typeof description !== 'string' || description.length > MAX_DESCRIPTION_LENGTH) return null;
+      if (typeof isPublic !== 'boolean' || !Array.isArray(members)) return null;
+
+      const channel = {
+        channelId,
+        name: name.trim(),
+        description,
+        createdBy,
+        isPublic,
+        authors: new Set([createdBy]),
+        subscribers: new Set([createdBy]),
+        members: new Set([createdBy, ...members.filter(member => typeof member === 'string')]),
+      };
+      channels.set(channelId, channel);
+      save(channel);
+      return info(channel);
+    },
+
+    /**
+     * What `userId` may know about a channel; private channels are unknown to outsiders
+     */
+    info(channelId, userId) {
+      const channel = channels.get(channelId);
+      return channel && canSee(channel, userId) ? info(channel) : null;
+    },
+
+    /**
+     * Public channels whose id matches exactly or whose name contains `query`, most subscribed first
+     */
+    search(query, limit = 20) {
+      if (typeof query !== 'string' || !query.trim()) return [];
+      const needle = query.trim().toLowerCase();
+      return [...channels.values()]
+        .filter(channel => channel.isPublic)
+        .filter(channel => channel.channelId === query.trim() || channel.name.toLowerCase().includes(needle))
+        .sort((a, b) => b.subscribers.size - a.subscribers.size)
+        .slice(0, limit)
+        .map(info);
+    },
+
+    subscribe(channelId, userId) {
+      const channel = channels.get(channelId);
+      if (!channel || !canSee(channel, userId)) return null;
+      channel.subscribers.add(userId);
+      save(channel);
+      return info(channel);
+    },
+
+    unsubscribe(channelId, userId) {
+      const channel = channels.get(channelId);
+      // The creator keeps the channel alive
+      if (!channel || userId === channel.createdBy) return null;
+      channel.subscribers.delete(userId);
+      channel.authors.delete(userId);
+      channel.members.delete(userId);
+      save(channel);
+      return info(channel);
+    },
+
+    /**
+     * Let `invitees` subscribe to a private channel; only its authors may
+     */
+    invite(channelId, actor, invitees) {
+      const channel = channels.get(channelId);
+      if (!channel || channel.isPublic || !channel.authors.has(actor) || !Array.isArray(invitees)) return null;
+
+      invitees.filter(invitee => typeof invitee === 'string').forEach(invitee => channel.members.add(invitee));
+      save(channel);
+      return info(channel);
+    },
+
+    /**
+     * Replace the author list; only the creator may, and always stays an author
+     */
+    setAuthors(channelId, actor, authors) {
+      const channel = channels.get(channelId);
+      if (!channel || actor !== channel.createdBy || !Array.isArray(authors)) return null;
+
+      channel.authors = new Set([channel.createdBy, ...authors.filter(author => typeof author === 'string')]);
+      // Authors follow what they post to
+      channel.authors.forEach(author => {
+        channel.members.add(author);
+        channel.subscribers.add(author);
+      });
+      save(channel);
+      return info(channel);
+    },
+
+    isSubscriber(channelId, userId) {
+      return !!channels.get(channelId)?.subscribers.has(userId);
+    },
+
+    canPost(channelId, userId) {
+      return !!channels.get(channelId)?.authors.has(userId);
+    },
+
+    subscribers(channelId) {
+      return [...(channels.get(channelId)?.subscribers || [])];
+    },
+  };
+}
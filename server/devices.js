@@ -0,0 +1,86 @@
+import bs58 from 'bs58';
+import nacl from 'tweetnacl';
+
+// Must match attestationMessage / revocationMessage in src/lib/key-agreement.ts
+function attestationMessage(record) {
+  return `Chatrix device key attestation v2:${record.userId}:${record.deviceId}:${record.deviceName}:${record.messagingKey}:${record.signingKey}:${record.createdAt}`;
+}
+
+function revocationMessage(revocation) {
+  return `Chatrix device revocation v1:${revocation.userId}:${revocation.deviceId}:${revocation.revokedAt}`;
+}
+
+function verifyWalletSignature(message, signature, userId) {
+  try {
+    return nacl.sign.detached.verify(
+      new TextEncoder().encode(message),
+      bs58.decode(signature),
+      bs58.decode(userId)
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wallet-attested device keys and revocations, published per wallet
+ */
+export function createDeviceRegistry() {
+  // userId -> { devices: Map<deviceId, record>, revocations: Map<deviceId, revocation> }
+  const wallets = new Map();
+
+  const walletEntry = (userId) => {
+    let entry = wallets.get(userId);
+    if (!entry) {
+      entry = { devices: new Map(), revocations: new Map() };
+      wallets.set(userId, entry);
+    }
+    return entry;
+  };
+
+  return {
+    isRevoked(userId, deviceId) {
+      return !!wallets.get(userId)?.revocations.has(deviceId);
+    },
+
+    /**
+     * Store a device record if its wallet attested it and it was not revoked
+     */
+    publish(record) {
+      if (!record || typeof record.deviceId !== 'string') return false;
+      if (!verifyWalletSignature(attestationMessage(record), record.attestation, record.userId)) return false;
+
+      const entry = walletEntry(record.userId);
+      if (entry.revocations.has(record.deviceId)) return false;
+
+      const existing = entry.devices.get(record.deviceId);
+      if (!existing || existing.createdAt <= record.createdAt) {
+        entry.devices.set(record.deviceId, record);
+      }
+      return true;
+    },
+
+    revoke(revocation) {
+      if (!revocation || typeof revocation.deviceId !== 'string') return false;
+      if (!verifyWalletSignature(revocationMessage(revocation), revocation.signature, revocation.userId)) return false;
+
+      const entry = walletEntry(revocation.userId);
+      entry.devices.delete(revocation.deviceId);
+      entry.revocations.set(revocation.deviceId, revocation);
+      return true;
+    },
+
+    list(userId) {
+      const entry = wallets.get(userId);
+      return {
+        userId,
+        devices: entry ? [...entry.devices.values()] : [],
+        revocations: entry ? [...entry.revocations.values()] : [],
+      };
+    },
+
+    deviceIds(userId) {
+      return [...(wallets.get(userId)?.devices.keys() || [])];
+    },
+  };
+}
@@ -0,0 +1,81 @@
+import { createMemoryRegistryStorage } from './registry-storage.js';
+
+/**
+ * Group membership as registered by group creators, used to fan out
+ * envelopes addressed to a group id. The relay only routes ciphertext;
+ * members hold the sender keys.
+ */
+export function createGroupRegistry(storage = createMemoryRegistryStorage()) {
+  // groupId -> { createdBy, members: Set<userId>, admins: Set<userId> }
+  const groups = new Map(storage.load().map(([groupId, record]) => [groupId, {
+    createdBy: record.createdBy,
+    members: new Set(record.members),
+    admins: new Set(record.admins),
+  }]));
+
+  const save = (groupId) => {
+    const { createdBy, members, admins } = groups.get(groupId);
+    return storage.save(groupId, { createdBy, members: [...members], admins: [...admins] });
+  };
+
+  return {
+    has(groupId) {
+      return groups.has(groupId);
+    },
+
+    /**
+     * Register a new group. Group ids are random, so an existing id is never reused.
+     * A relay that lost its groups has them registered again by an admin, who
+     * brings along the creator and the other admins.
+     */
+    create(groupId, registrant, members, { createdBy = registrant, admins = [] } = {}) {
+      if (typeof groupId !== 'string' || groups.has(groupId) || !Array.isArray(members) || !Array.isArray(admins)) return false;
+      if (typeof createdBy !== 'string') return false;
+
+      const memberSet = new Set(members.filter(member => typeof member === 'string'));
+      memberSet.add(createdBy);
+      const adminSet = new Set([createdBy, ...admins.filter(admin => memberSet.has(admin))]);
+      if (!adminSet.has(registrant)) return false;
+
+      groups.set(groupId, { createdBy, members: memberSet, admins: adminSet });
+      save(groupId);
+      return true;
+    },
+
+    isMember(groupId, userId) {
+      return !!groups.get(groupId)?.members.has(userId);
+    },
+
+    /**
+     * Mirror a membership or admin change, with the same rules members apply
+     * to the signed group event: admins add, remove and promote; anyone may
+     * leave; the creator stays a member and an admin. All or nothing.
+     */
+    update(groupId, actor, { add = [], remove = [], promote = [], demote = [] } = {}) {
+      const group = groups.get(groupId);
+      const lists = [add, remove, promote, demote];
+      if (!group || !group.members.has(actor) || !lists.every(list => Array.isArray(list))) return false;
+      if (!lists.flat().every(member => typeof member === 'string')) return false;
+
+      const isAdmin = group.admins.has(actor);
+      if (!isAdmin && (add.length > 0 || promote.length > 0 || demote.length > 0)) return false;
+      if (!isAdmin && remove.some(member => member !== actor)) return false;
+      if (remove.includes(group.createdBy) || demote.includes(group.createdBy)) return false;
+      if (promote.some(member => !group.members.has(member) && !add.includes(member))) return false;
+
+      add.forEach(member => group.members.add(member));
+      promote.forEach(member => group.admins.add(member));
+      demote.forEach(member => group.admins.delete(member));
+      remove.forEach(member => {
+        group.members.delete(member);
+        group.admins.delete(member);
+      });
+      save(groupId);
+      return true;
+    },
+
+    members(groupId) {
+      return [...(groups.get(groupId)?.members || [])];
+    },
+  };
+}
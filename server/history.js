@@ -0,0 +1,72 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Conversation key shared by both participants, mirroring the client's direct chat ids
+ */
+export function conversationKey(a, b) {
+  const [first, second] = [a, b].sort();
+  return `direct_${first}_${second}`;
+}
+
+function encodeCursor(entry) {
+  return `${entry.storedAt}:${entry.id}`;
+}
+
+function isAfterCursor(entry, cursor) {
+  const separator = cursor.indexOf(':');
+  const storedAt = Number(cursor.slice(0, separator));
+  const id = cursor.slice(separator + 1);
+  return entry.storedAt > storedAt || (entry.storedAt === storedAt && entry.id > id);
+}
+
+/**
+ * Best-effort log of relayed ciphertext per conversation (see conversationKey,
+ * or a group id), used by clients to page in envelopes they missed. Unlike the
+ * mailbox it evicts the oldest entries when full. Uses the same storage
+ * interface as the mailbox.
+ */
+export function createHistory(storage, {
+  ttlMs = 30 * DAY_MS,
+  maxEntries = 5000,
+} = {}) {
+  return {
+    async record(key, envelope) {
+      const now = Date.now();
+      const entries = await storage.list(key);
+
+      const stale = entries
+        .filter((entry, index) => entry.expiresAt <= now || index < entries.length - maxEntries + 1)
+        .map(entry => entry.id);
+      if (stale.length > 0) await storage.remove(key, stale);
+
+      await storage.append(key, {
+        id: envelope.id,
+        envelope,
+        size: 0,
+        storedAt: now,
+        expiresAt: now + ttlMs,
+      });
+    },
+
+    /**
+     * One page of a conversation's envelopes that pass `visible` (i.e. the
+     * requesting device can decrypt them), stored at or after `since`. Pass
+     * the returned cursor back to continue.
+     */
+    async query(key, visible, { since = 0, cursor = null, limit = 100 } = {}) {
+      const now = Date.now();
+      const entries = (await storage.list(key))
+        .filter(entry => entry.expiresAt > now && entry.storedAt >= since)
+        .filter(entry => visible(entry.envelope))
+        .filter(entry => !cursor || isAfterCursor(entry, cursor))
+        .sort((a, b) => a.storedAt - b.storedAt || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+
+      const page = entries.slice(0, Math.max(1, Math.min(limit, 500)));
+      return {
+        envelopes: page.map(entry => entry.envelope),
+        cursor: entries.length > page.length ? encodeCursor(page[page.length - 1]) : null,
+        serverTime: now,
+      };
+    },
+  };
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { conversationKey, createHistory } from './history.js';
+import { createMemoryStorage } from './mailbox-storage.js';
+
+const envelope = (id, to = 'bob') => ({ id, type: 'message', from: 'alice', to });
+const everything = () => true;
+
+describe('history', () => {
+  it('gives both participants the same conversation key', () => {
+    expect(conversationKey('alice', 'bob')).toBe(conversationKey('bob', 'alice'));
+  });
+
+  it('pages through a conversation with a cursor', async () => {
+    const history = createHistory(createMemoryStorage());
+    for (const id of ['a', 'b', 'c', 'd', 'e']) await history.record('chat', envelope(id));
+
+    const ids = [];
+    let cursor = null;
+    do {
+      const page = await history.query('chat', everything, { cursor, limit: 2 });
+      expect(page.envelopes.length).toBeLessThanOrEqual(2);
+      ids.push(...page.envelopes.map(e => e.id));
+      cursor = page.cursor;
+    } while (cursor);
+    expect(ids).toEqual(['a', 'b', 'c', 'd', 'e']);
+  });
+
+  it('only returns what the requester may see', async () => {
+    const history = createHistory(createMemoryStorage());
+    await history.record('chat', envelope('a', 'bob'));
+    await history.record('chat', envelope('b', 'carol'));
+
+    const page = await history.query('chat', e => e.to === 'bob');
+    expect(page.envelopes.map(e => e.id)).toEqual(['a']);
+    expect(page.cursor).toBeNull();
+  });
+
+  it('evicts the oldest entries when full', async () => {
+    const history = createHistory(createMemoryStorage(), { maxEntries: 2 });
+    for (const id of ['a', 'b', 'c']) await history.record('chat', envelope(id));
+
+    const page = await history.query('chat', everything);
+    expect(page.envelopes.map(e => e.id)).toEqual(['b', 'c']);
+  });
+});
@@ -2,6 +2,16 @@ import express from 'express';
 import http from 'http';
 import cors from 'cors';
 import { Server } from 'socket.io';
+import { createAuthenticator } from './auth.js';
+import { createBlobStore } from './blobs.js';
+import { createDiskBlobStorage, createMemoryBlobStorage } from './blob-storage.js';
+import { createChannelRegistry } from './channels.js';
+import { createDeviceRegistry } from './devices.js';
+import { createGroupRegistry } from './groups.js';
+import { conversationKey, createHistory } from './history.js';
+import { createMailbox } from './mailbox.js';
+import { createFileStorage, createMemoryStorage } from './mailbox-storage.js';
+import { createFileRegistryStorage, createMemoryRegistryStorage } from './registry-storage.js';
 
 const app = express();
 app.use(cors());
@@ -11,19 +21,299 @@ const io = new Server(server, {
   cors: { origin: '*', methods: ['GET', 'POST'] },
 });
 
+const auth = createAuthenticator();
+
+// Offline delivery: MAILBOX_FILE persists mail across restarts, otherwise it lives in memory
+const mailbox = createMailbox(
+  process.env.MAILBOX_FILE ? createFileStorage(process.env.MAILBOX_FILE) : createMemoryStorage()
+);
+setInterval(() => mailbox.purgeExpired(), 60 * 60 * 1000).unref();
+
+// Relayed chat ciphertext kept for history sync (HISTORY_FILE to persist)
+const history = createHistory(
+  process.env.HISTORY_FILE ? createFileStorage(process.env.HISTORY_FILE) : createMemoryStorage()
+);
+
+// Encrypted attachments, uploaded in chunks (BLOB_DIR to keep them on disk)
+const blobs = createBlobStore(
+  process.env.BLOB_DIR ? createDiskBlobStorage(process.env.BLOB_DIR) : createMemoryBlobStorage()
+);
+setInterval(() => blobs.purgeExpired(), 60 * 60 * 1000).unref();
+
+// Ephemeral envelopes (typing, presence) are only worth delivering live
+const MAILBOX_TYPES = new Set(['message', 'session_init', 'sender_key', 'delivery_receipt', 'read_receipt', 'played_receipt']);
+
+// Wallet-attested device keys: published by each device, looked up by peers
+const devices = createDeviceRegistry();
+
+// Group members, for fanning out envelopes addressed to a group id (GROUPS_FILE to persist)
+const groups = createGroupRegistry(
+  process.env.GROUPS_FILE ? createFileRegistryStorage(process.env.GROUPS_FILE) : createMemoryRegistryStorage()
+);
+
+// Public channels, for discovery and fanning out posts to subscribers (CHANNELS_FILE to persist)
+const channels = createChannelRegistry(
+  process.env.CHANNELS_FILE ? createFileRegistryStorage(process.env.CHANNELS_FILE) : createMemoryRegistryStorage()
+);
+
+// Channel ids carry this prefix, so they are never mistaken for a wallet
+const isChannelId = (id) => typeof id === 'string' && id.startsWith('channel_');
+
+/**
+ * Tell a channel's subscribers about a change, e.g. its subscriber count
+ */
+function broadcastChannelInfo(channel) {
+  if (channel) io.to(channels.subscribers(channel.channelId)).emit('channel_info', channel);
+}
+
+const deviceRoom = (userId, deviceId) => `${userId}/${deviceId}`;
+
+/**
+ * Mailboxes an envelope lands in: the addressed device, or every known device of the wallet
+ */
+function mailboxesFor(to, toDevice) {
+  if (toDevice) return [deviceRoom(to, toDevice)];
+  const known = devices.deviceIds(to);
+  return known.length > 0 ? known.map(deviceId => deviceRoom(to, deviceId)) : [to];
+}
+
+/**
+ * Mailboxes of every member device of a group except the sending one
+ */
+function groupMailboxesFor(groupId, senderRoom) {
+  return groups.members(groupId)
+    .flatMap(member => mailboxesFor(member))
+    .filter(box => box !== senderRoom);
+}
+
 io.on('connection', (socket) => {
   let userId = null;
+  let deviceId = null;
+  let nonce = auth.issueChallenge();
+
+  socket.emit('auth_challenge', { nonce });
+
+  socket.on('register', async ({ userId: uid, deviceId: did, token, signature } = {}) => {
+    if (userId || typeof uid !== 'string' || typeof did !== 'string') return;
+
+    if (devices.isRevoked(uid, did)) {
+      socket.emit('auth_error', { reason: 'device_revoked' });
+      socket.disconnect(true);
+      return;
+    }
+
+    if (token) {
+      if (!auth.verifyToken(uid, did, token)) {
+        // Stale session: fall back to a fresh wallet signature
+        nonce = auth.issueChallenge();
+        socket.emit('auth_challenge', { nonce, reason: 'token_expired' });
+        return;
+      }
+    } else if (!signature || !auth.verifySignature(uid, nonce, signature)) {
+      socket.emit('auth_error', { reason: 'invalid_signature' });
+      socket.disconnect(true);
+      return;
+    }
 
-  socket.on('register', ({ userId: uid }) => {
     userId = uid;
+    deviceId = did;
     socket.join(uid);
+    socket.join(deviceRoom(uid, did));
+    socket.emit('auth_ok', { token: token || auth.issueToken(uid, did) });
+
+    // Deliver whatever arrived while we were away; entries stay until acknowledged.
+    // Mail addressed to the wallet before this device was known sits in the wallet
+    // box, shared by all of the wallet's devices.
+    const backlog = [
+      ...await mailbox.pending(deviceRoom(uid, did)),
+      ...await mailbox.pending(uid, did),
+    ];
+    backlog.forEach(envelope => socket.emit('message', envelope));
+  });
+
+  socket.on('mailbox_ack', ({ ids } = {}) => {
+    if (!userId) return;
+    mailbox.acknowledge(deviceRoom(userId, deviceId), ids);
+    // The wallet box is emptied only once each of the wallet's devices has read it
+    const readers = [...new Set([deviceId, ...devices.deviceIds(userId)])];
+    mailbox.acknowledgeShared(userId, ids, deviceId, readers);
+  });
+
+  socket.on('publish_key', (record) => {
+    // Devices publish only their own keys, attested by the wallet they belong to
+    if (!userId || record?.userId !== userId || record?.deviceId !== deviceId) return;
+    devices.publish(record);
+  });
+
+  socket.on('request_key', ({ userId: target } = {}, ack) => {
+    if (!userId || typeof ack !== 'function' || typeof target !== 'string') return;
+    ack(devices.list(target));
+  });
+
+  socket.on('revoke_device', (revocation, ack) => {
+    const reply = typeof ack === 'function' ? ack : () => {};
+    if (!userId || revocation?.userId !== userId || !devices.revoke(revocation)) {
+      reply({ ok: false });
+      return;
+    }
+
+    // Cut the revoked device off right away
+    auth.revokeDevice(userId, revocation.deviceId);
+    const room = deviceRoom(userId, revocation.deviceId);
+    io.to(room).emit('auth_error', { reason: 'device_revoked' });
+    io.in(room).disconnectSockets(true);
+    reply({ ok: true });
+  });
+
+  socket.on('group_create', ({ groupId, members, createdBy, admins } = {}, ack) => {
+    const reply = typeof ack === 'function' ? ack : () => {};
+    reply({ ok: !!userId && groups.create(groupId, userId, members, { createdBy, admins }) });
+  });
+
+  socket.on('group_update', ({ groupId, add, remove, promote, demote } = {}, ack) => {
+    const reply = typeof ack === 'function' ? ack : () => {};
+    reply({ ok: !!userId && groups.update(groupId, userId, { add, remove, promote, demote }) });
+  });
+
+  socket.on('channel_create', (details, ack) => {
+    const reply = typeof ack === 'function' ? ack : () => {};
+    const channel = userId ? channels.create(details, userId) : null;
+    reply(channel ? { ok: true, channel } : { ok: false });
   });
 
-  socket.on('message', (payload) => {
-    // Relay to recipient room
-    const { to } = payload;
-    io.to(to).emit('message', payload);
-    // Optionally echo back delivery receipt
+  socket.on('channel_search', ({ query } = {}, ack) => {
+    if (!userId || typeof ack !== 'function') return;
+    ack({ channels: channels.search(query) });
+  });
+
+  socket.on('channel_info', ({ channelIds } = {}, ack) => {
+    if (!userId || typeof ack !== 'function' || !Array.isArray(channelIds)) return;
+    ack({ channels: channelIds.map(id => channels.info(id, userId)).filter(Boolean) });
+  });
+
+  socket.on('channel_join', ({ channelId } = {}, ack) => {
+    const reply = typeof ack === 'function' ? ack : () => {};
+    const channel = userId ? channels.subscribe(channelId, userId) : null;
+    reply(channel ? { ok: true, channel } : { ok: false });
+    broadcastChannelInfo(channel);
+  });
+
+  socket.on('channel_invite', ({ channelId, members } = {}, ack) => {
+    const reply = typeof ack === 'function' ? ack : () => {};
+    const channel = userId ? channels.invite(channelId, userId, members) : null;
+    reply(channel ? { ok: true, channel } : { ok: false });
+  });
+
+  socket.on('channel_leave', ({ channelId } = {}, ack) => {
+    const reply = typeof ack === 'function' ? ack : () => {};
+    const channel = userId ? channels.unsubscribe(channelId, userId) : null;
+    reply({ ok: !!channel });
+    broadcastChannelInfo(channel);
+  });
+
+  socket.on('channel_authors', ({ channelId, authors } = {}, ack) => {
+    const reply = typeof ack === 'function' ? ack : () => {};
+    const channel = userId ? channels.setAuthors(channelId, userId, authors) : null;
+    reply(channel ? { ok: true, channel } : { ok: false });
+    broadcastChannelInfo(channel);
+  });
+
+  socket.on('blob_put', async (chunk, ack) => {
+    const reply = typeof ack === 'function' ? ack : () => {};
+    reply(userId ? await blobs.putChunk(userId, chunk) : { ok: false, error: 'unauthorized' });
+  });
+
+  socket.on('blob_get', async (request, ack) => {
+    if (!userId || typeof ack !== 'function') return;
+    ack(await blobs.getChunk(request));
+  });
+
+  socket.on('sync_history', async ({ with: peerId, since, cursor, limit } = {}, ack) => {
+    if (!userId || typeof ack !== 'function') return;
+    const denied = typeof peerId !== 'string' ||
+      (groups.has(peerId) && !groups.isMember(peerId, userId)) ||
+      (isChannelId(peerId) && !channels.isSubscriber(peerId, userId));
+    if (denied) {
+      ack({ envelopes: [], cursor: null, serverTime: Date.now() });
+      return;
+    }
+
+    // Group and channel history is shared by all members; direct history only holds what was addressed to this device
+    const query = groups.has(peerId) || channels.has(peerId)
+      ? [peerId, envelope => envelope.fromDevice !== deviceId || envelope.from !== userId]
+      : [conversationKey(userId, peerId), envelope => envelope.to === userId && (!envelope.toDevice || envelope.toDevice === deviceId)];
+    ack(await history.query(...query, {
+      since: Number(since) || 0,
+      cursor: typeof cursor === 'string' ? cursor : null,
+      limit: Number(limit) || 100,
+    }));
+  });
+
+  socket.on('message', async (payload, ack) => {
+    const reply = typeof ack === 'function' ? ack : () => {};
+
+    // Only authenticated sockets may relay, and only as themselves
+    if (!userId || payload?.from !== userId || payload.fromDevice !== deviceId || typeof payload.to !== 'string') {
+      reply({ ok: false, error: 'unauthorized' });
+      return;
+    }
+
+    const { to, toDevice } = payload;
+    const senderRoom = deviceRoom(userId, deviceId);
+
+    if (isChannelId(to)) {
+      if (!channels.has(to)) {
+        reply({ ok: false, error: 'unknown_channel' });
+        return;
+      }
+      // Channels carry posts only; subscribers catch up from history instead of a mailbox
+      if (payload.type !== 'message' || !channels.canPost(to, userId)) {
+        reply({ ok: false, error: 'not_an_author' });
+        return;
+      }
+      await history.record(to, payload);
+      io.to(channels.subscribers(to)).except(senderRoom).emit('message', payload);
+      reply({ ok: true });
+      return;
+    }
+
+    const isGroup = groups.has(to);
+    if (isGroup && !groups.isMember(to, userId)) {
+      reply({ ok: false, error: 'not_a_member' });
+      return;
+    }
+
+    // Mailboxes that turned the envelope away, e.g. because they are full
+    const refused = [];
+    if (MAILBOX_TYPES.has(payload.type)) {
+      // Hold it until the recipient acknowledges, even if they are online now.
+      // One full mailbox must not hold up everyone else's copy.
+      const boxes = isGroup ? groupMailboxesFor(to, senderRoom) : mailboxesFor(to, toDevice);
+      for (const box of boxes) {
+        const stored = await mailbox.deposit(box, payload);
+        if (!stored.ok) refused.push({ mailbox: box, error: stored.error });
+      }
+      // Nobody holds a copy: the sender keeps it and retries
+      if (boxes.length > 0 && refused.length === boxes.length) {
+        reply({ ok: false, error: refused[0].error, refused });
+        return;
+      }
+    }
+
+    if (payload.type === 'message') {
+      await history.record(isGroup ? to : conversationKey(userId, to), payload);
+    }
+
+    if (isGroup) {
+      // Fan out to every member device, our other devices included
+      io.to(groups.members(to)).except(senderRoom).emit('message', payload);
+    } else {
+      // Relay to the addressed device, or to every device of the recipient
+      io.to(toDevice ? deviceRoom(to, toDevice) : to).emit('message', payload);
+    }
+    // Acknowledge so the sender can clear it from its outbox; recipients whose
+    // mailbox refused it catch up from history
+    reply(refused.length > 0 ? { ok: true, refused } : { ok: true });
   });
 
   socket.on('disconnect', () => {
@@ -37,5 +327,3 @@ const PORT = process.env.PORT || 3001;
 server.listen(PORT, () => {
   console.log(`Realtime server listening on http://localhost:${PORT}`);
 });
-
-
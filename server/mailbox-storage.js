@@ -0,0 +1,110 @@
+import fs from 'fs';
+import fsp from 'fs/promises';
+import path from 'path';
+
+/**
+ * Mailbox storage interface. Entries are `{ id, envelope, size, storedAt, expiresAt, readBy? }`
+ * and every method may return a promise, so database-backed stores can plug in.
+ *
+ *   list(recipient)                  -> entries, oldest first
+ *   append(recipient, entry)
+ *   remove(recipient, ids)
+ *   markRead(recipient, ids, reader) -> adds reader to the entries' readBy
+ *   recipients()                     -> recipients that currently hold entries
+ */
+
+/**
+ * Volatile storage; everything is lost when the relay restarts
+ */
+export function createMemoryStorage() {
+  const boxes = new Map();
+
+  return {
+    list(recipient) {
+      return [...(boxes.get(recipient) || [])];
+    },
+
+    append(recipient, entry) {
+      const box = boxes.get(recipient) || [];
+      box.push(entry);
+      boxes.set(recipient, box);
+    },
+
+    remove(recipient, ids) {
+      const box = boxes.get(recipient);
+      if (!box) return;
+      const drop = new Set(ids);
+      const kept = box.filter(entry => !drop.has(entry.id));
+      if (kept.length > 0) boxes.set(recipient, kept);
+      else boxes.delete(recipient);
+    },
+
+    markRead(recipient, ids, reader) {
+      const read = new Set(ids);
+      (boxes.get(recipient) || [])
+        .filter(entry => read.has(entry.id) && !entry.readBy?.includes(reader))
+        .forEach(entry => { entry.readBy = [...(entry.readBy || []), reader]; });
+    },
+
+    recipients() {
+      return [...boxes.keys()];
+    },
+  };
+}
+
+/**
+ * JSON file storage for local testing. Writes are serialized and replace the
+ * file atomically, so a crash never leaves a half-written mailbox behind.
+ */
+export function createFileStorage(filePath) {
+  const memory = createMemoryStorage();
+  let writes = Promise.resolve();
+
+  if (fs.existsSync(filePath)) {
+    try {
+      const stored = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      Object.entries(stored).forEach(([recipient, entries]) => {
+        entries.forEach(entry => memory.append(recipient, entry));
+      });
+    } catch (error) {
+      console.error(`Ignoring unreadable mailbox file ${filePath}:`, error);
+    }
+  }
+
+  const flush = () => {
+    const snapshot = {};
+    memory.recipients().forEach(recipient => {
+      snapshot[recipient] = memory.list(recipient);
+    });
+
+    writes = writes
+      .then(async () => {
+        await fsp.mkdir(path.dirname(filePath), { recursive: true });
+        const tmp = `${filePath}.tmp`;
+        await fsp.writeFile(tmp, JSON.stringify(snapshot));
+        await fsp.rename(tmp, filePath);
+      })
+      .catch(error => console.error('Failed to write mailbox file:', error));
+    return writes;
+  };
+
+  return {
+    list: memory.list,
+    recipients: memory.recipients,
+
+    append(recipient, entry) {
+      memory.append(recipient, entry);
+      return flush();
+    },
+
+    remove(recipient, ids) {
+      memory.remove(recipient, ids);
+      return flush();
+    },
+
+    markRead(recipient, ids, reader) {
+      memory.markRead(recipient, ids, reader);
+      return flush();
+    },
+  };
+}
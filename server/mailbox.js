@@ -0,0 +1,82 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Store-and-forward mailbox holding signed ciphertext envelopes per recipient
+ * until the recipient acknowledges them. The relay never sees plaintext.
+ */
+export function createMailbox(storage, {
+  ttlMs = 7 * DAY_MS,
+  maxEntries = 1000,
+  maxBytes = 5 * 1024 * 1024,
+} = {}) {
+  const live = (entries, now = Date.now()) => entries.filter(entry => entry.expiresAt > now);
+
+  return {
+    /**
+     * Hold an envelope for `recipient`. Fails instead of evicting older mail
+     * when the recipient's caps are reached, so the sender can see it.
+     */
+    async deposit(recipient, envelope) {
+      const entries = live(await storage.list(recipient));
+      if (entries.some(entry => entry.id === envelope.id)) return { ok: true };
+
+      const size = Buffer.byteLength(JSON.stringify(envelope));
+      const used = entries.reduce((total, entry) => total + entry.size, 0);
+      if (entries.length >= maxEntries || used + size > maxBytes) {
+        return { ok: false, error: 'mailbox_full' };
+      }
+
+      const now = Date.now();
+      await storage.append(recipient, {
+        id: envelope.id,
+        envelope,
+        size,
+        storedAt: now,
+        expiresAt: now + ttlMs,
+      });
+      return { ok: true };
+    },
+
+    /**
+     * Envelopes still waiting for `recipient`, oldest first. For a box shared
+     * by several readers, those `reader` has already acknowledged are left out.
+     */
+    async pending(recipient, reader) {
+      return live(await storage.list(recipient))
+        .filter(entry => !reader || !entry.readBy?.includes(reader))
+        .map(entry => entry.envelope);
+    },
+
+    async acknowledge(recipient, ids) {
+      if (!Array.isArray(ids) || ids.length === 0) return;
+      await storage.remove(recipient, ids);
+    },
+
+    /**
+     * Acknowledge on behalf of one reader of a shared box. Entries are dropped
+     * once every one of `readers` has acknowledged them, or when they expire.
+     */
+    async acknowledgeShared(recipient, ids, reader, readers) {
+      if (!Array.isArray(ids) || ids.length === 0) return;
+      const ours = new Set(ids);
+      const entries = (await storage.list(recipient)).filter(entry => ours.has(entry.id));
+      if (entries.length === 0) return;
+
+      await storage.markRead(recipient, entries.map(entry => entry.id), reader);
+      const done = entries
+        .filter(entry => readers.every(other => other === reader || entry.readBy?.includes(other)))
+        .map(entry => entry.id);
+      if (done.length > 0) await storage.remove(recipient, done);
+    },
+
+    async purgeExpired() {
+      const now = Date.now();
+      for (const recipient of await storage.recipients()) {
+        const expired = (await storage.list(recipient))
+          .filter(entry => entry.expiresAt <= now)
+          .map(entry => entry.id);
+        if (expired.length > 0) await storage.remove(recipient, expired);
+      }
+    },
+  };
+}
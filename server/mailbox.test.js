@@ -0,0 +1,57 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createMailbox } from './mailbox.js';
+import { createMemoryStorage } from './mailbox-storage.js';
+
+const envelope = (id, text = 'ciphertext') => ({ id, type: 'message', data: { text } });
+
+describe('mailbox', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('holds envelopes until they are acknowledged', async () => {
+    const mailbox = createMailbox(createMemoryStorage());
+    await mailbox.deposit('bob', envelope('a'));
+    await mailbox.deposit('bob', envelope('b'));
+    await mailbox.deposit('bob', envelope('a'));
+
+    expect((await mailbox.pending('bob')).map(e => e.id)).toEqual(['a', 'b']);
+    await mailbox.acknowledge('bob', ['a']);
+    expect((await mailbox.pending('bob')).map(e => e.id)).toEqual(['b']);
+  });
+
+  it('refuses new mail past its caps instead of dropping old mail', async () => {
+    const byCount = createMailbox(createMemoryStorage(), { maxEntries: 2 });
+    expect(await byCount.deposit('bob', envelope('a'))).toEqual({ ok: true });
+    expect(await byCount.deposit('bob', envelope('b'))).toEqual({ ok: true });
+    expect(await byCount.deposit('bob', envelope('c'))).toEqual({ ok: false, error: 'mailbox_full' });
+
+    const bySize = createMailbox(createMemoryStorage(), { maxBytes: 100 });
+    expect(await bySize.deposit('bob', envelope('a', 'x'.repeat(200)))).toEqual({ ok: false, error: 'mailbox_full' });
+    expect((await byCount.pending('bob')).map(e => e.id)).toEqual(['a', 'b']);
+  });
+
+  it('lets envelopes expire', async () => {
+    vi.useFakeTimers();
+    const storage = createMemoryStorage();
+    const mailbox = createMailbox(storage, { ttlMs: 1000 });
+    await mailbox.deposit('bob', envelope('a'));
+
+    vi.advanceTimersByTime(1001);
+    expect(await mailbox.pending('bob')).toEqual([]);
+    await mailbox.purgeExpired();
+    expect(storage.recipients()).toEqual([]);
+  });
+
+  it('keeps shared mail until every reader has acknowledged it', async () => {
+    const mailbox = createMailbox(createMemoryStorage());
+    await mailbox.deposit('wallet', envelope('a'));
+
+    await mailbox.acknowledgeShared('wallet', ['a'], 'phone', ['phone', 'laptop']);
+    expect(await mailbox.pending('wallet', 'phone')).toEqual([]);
+    expect((await mailbox.pending('wallet', 'laptop')).map(e => e.id)).toEqual(['a']);
+
+    await mailbox.acknowledgeShared('wallet', ['a'], 'laptop', ['phone', 'laptop']);
+    expect(await mailbox.pending('wallet')).toEqual([]);
+  });
+});
@@ -0,0 +1,75 @@
+import fs from 'fs';
+import fsp from 'fs/promises';
+import path from 'path';
+
+/**
+ * Registry storage interface, for groups and channels. Records are plain JSON
+ * objects keyed by id. Registries answer from memory and write each change
+ * through, so `load` runs once at startup and must return synchronously;
+ * `save` and `remove` may return promises.
+ *
+ *   load()           -> [[id, record], ...]
+ *   save(id, record)
+ *   remove(id)
+ */
+
+/**
+ * Volatile storage; every record is lost when the relay restarts
+ */
+export function createMemoryRegistryStorage() {
+  return {
+    load() {
+      return [];
+    },
+
+    save() {},
+
+    remove() {},
+  };
+}
+
+/**
+ * JSON file storage, written the same way as the mailbox file: serialized and
+ * replaced atomically
+ */
+export function createFileRegistryStorage(filePath) {
+  const records = new Map();
+  let writes = Promise.resolve();
+
+  if (fs.existsSync(filePath)) {
+    try {
+      Object.entries(JSON.parse(fs.readFileSync(filePath, 'utf8'))).forEach(([id, record]) => records.set(id, record));
+    } catch (error) {
+      console.error(`Ignoring unreadable registry file ${filePath}:`, error);
+    }
+  }
+
+  const flush = () => {
+    const snapshot = JSON.stringify(Object.fromEntries(records));
+    writes = writes
+      .then(async () => {
+        await fsp.mkdir(path.dirname(filePath), { recursive: true });
+        const tmp = `${filePath}.tmp`;
+        await fsp.writeFile(tmp, snapshot);
+        await fsp.rename(tmp, filePath);
+      })
+      .catch(error => console.error('Failed to write registry file:', error));
+    return writes;
+  };
+
+  return {
+    load() {
+      return [...records];
+    },
+
+    save(id, record) {
+      records.set(id, record);
+      return flush();
+    },
+
+    remove(id) {
+      records.delete(id);
+      return flush();
+    },
+  };
+}
@@ -1,23 +1,32 @@
 import React, { useState, useEffect } from 'react';
 import { useWallet, useConnection } from '@solana/wallet-adapter-react';
 import { WalletMultiButton } from '@solana/wallet-adapter-react-ui';
-import { motion } from 'framer-motion';
+import { motion, AnimatePresence } from 'framer-motion';
 import { WalletContextProvider } from './components/WalletContextProvider';
 import { ThemeToggle, useTheme } from './components/ThemeProvider';
+import { useToast } from './components/ui/Toast';
 import { ProfileSetup } from './components/ProfileSetup';
+import { DeviceManager } from './components/DeviceManager';
 import { AdvancedChatInterface } from './components/chat/AdvancedChatInterface';
 import { EnhancedPeerList } from './components/chat/EnhancedPeerList';
 import { ChatSidebar } from './components/chat/ChatSidebar';
-// Removed GroupChatManager and UsernameNFTManager UI
+import { GroupChatManager } from './components/chat/GroupChatManager';
+import { GroupInfoPanel } from './components/chat/GroupInfoPanel';
+import { ChannelDirectory } from './components/chat/ChannelDirectory';
+import { ChannelInfoPanel } from './components/chat/ChannelInfoPanel';
+import { StarredMessages } from './components/chat/StarredMessages';
+// Removed UsernameNFTManager UI
 import { useChatStore } from './store/chat-store';
 import { getLocalProfile } from './lib/profile';
 // Removed SNS manager usage from UI
-import { MessageCircle, Zap } from 'lucide-react';
+import { MessageCircle, Zap, MonitorSmartphone, Users, Hash, Star } from 'lucide-react';
+import { canPostIn, usesSenderKeys } from './lib/group-admin';
 import type { Peer, Chat } from './types/message';
 
 function MessengerApp() {
-  const { publicKey } = useWallet();
+  const { publicKey, signMessage } = useWallet();
   const { connection } = useConnection();
+  const { error: showError, success } = useToast();
 
   // Chat store state
   const {
@@ -31,11 +40,29 @@ function MessengerApp() {
     initializeRealtime,
     addChat,
     addPeer,
+    createGroup,
+    createChannel,
   } = useChatStore();
 
   // Local state
-  // Removed group chat and username NFT manager UI state
+  // Removed username NFT manager UI state
   const [isInitialized, setIsInitialized] = useState(false);
+  const [showDevices, setShowDevices] = useState(false);
+  const [showGroupManager, setShowGroupManager] = useState(false);
+  const [groupInfoId, setGroupInfoId] = useState<string | null>(null);
+  const [showChannelDirectory, setShowChannelDirectory] = useState(false);
+  const [channelInfoId, setChannelInfoId] = useState<string | null>(null);
+  const [showStarred, setShowStarred] = useState(false);
+  const [focusMessageId, setFocusMessageId] = useState<string | null>(null);
+
+  // Unlock messaging keys with the wallet and connect to the relay
+  const startMessaging = async () => {
+    if (!signMessage) {
+      showError('Wallet not supported', 'Your wallet must support message signing to unlock encrypted chat.');
+      return;
+    }
+    await initializeRealtime(signMessage);
+  };
 
   // Initialize app when wallet connects
   useEffect(() => {
@@ -46,16 +73,14 @@ function MessengerApp() {
           const userProfile = await getLocalProfile();
           if (userProfile) {
             setCurrentUser(userProfile);
+            setIsInitialized(true);
 
             // Initialize real-time services
-            initializeRealtime();
-
-            // Initialization continues
-
-            setIsInitialized(true);
+            await startMessaging();
           }
         } catch (error) {
           console.error('Failed to initialize app:', error);
+          showError('Could not unlock messaging', 'The wallet signature is required to derive your encryption keys.');
         }
       }
     };
@@ -116,7 +141,25 @@ function MessengerApp() {
     return chatId;
   };
 
-  // Group chat creation removed
+  const createGroupChat = async (
+    name: string,
+    members: string[],
+    options: { channel: boolean; isPublic: boolean; description: string }
+  ) => {
+    const label = options.channel ? 'channel' : 'group';
+    try {
+      // Public channels live on the relay; groups and private channels are member lists with sender keys
+      const chatId = options.isPublic
+        ? await createChannel(name, options.description)
+        : await createGroup(name, members, { channel: options.channel, description: options.description });
+      setActiveChat(chatId);
+      setShowGroupManager(false);
+      success(options.channel ? 'Channel created' : 'Group created', name);
+    } catch (error) {
+      console.error(`Failed to create ${label}:`, error);
+      showError(`Could not create ${label}`, error instanceof Error ? error.message : undefined);
+    }
+  };
 
   // Get active chat details
   const getActiveChatDetails = () => {
@@ -136,6 +179,30 @@ function MessengerApp() {
         type: 'direct' as const,
       };
     }
+
+    if (chat.type === 'group') {
+      // Group envelopes are addressed to the group id and fanned out by the relay
+      const members = chat.participants.filter(p => p !== publicKey!.toString());
+      return {
+        id: chat.id,
+        name: chat.name || `Group of ${chat.participants.length}`,
+        recipientId: chat.id,
+        isOnline: members.some(member => peers.find(p => p.publicKey === member)?.isOnline),
+        type: 'group' as const,
+      };
+    }
+
+    if (chat.type === 'channel') {
+      return {
+        id: chat.id,
+        name: chat.name || 'Channel',
+        recipientId: chat.id,
+        isOnline: false,
+        type: 'channel' as const,
+        readOnly: !canPostIn(chat, publicKey!.toString()),
+        usesSenderKeys: usesSenderKeys(chat),
+      };
+    }
   };
 
   const activeChatDetails = getActiveChatDetails();
@@ -217,8 +284,8 @@ function MessengerApp() {
               const profile = await getLocalProfile();
               if (profile) {
                 setCurrentUser(profile);
-                initializeRealtime();
                 setIsInitialized(true);
+                await startMessaging();
               }
             } catch (e) {
               console.error('Failed to complete profile setup:', e);
@@ -256,14 +323,24 @@ function MessengerApp() {
             <div className="flex items-center space-x-2">
               <div className={`w-2 h-2 rounded-full ${
                 connectionStatus === 'connected' ? 'bg-success' :
-                connectionStatus === 'reconnecting' ? 'bg-warning animate-pulse' :
+                connectionStatus === 'reconnecting' || connectionStatus === 'authenticating' ? 'bg-warning animate-pulse' :
                 'bg-error'
               }`} />
               <span className="text-xs text-text-muted">
                 {connectionStatus === 'connected' ? 'Connected' :
                  connectionStatus === 'reconnecting' ? 'Reconnecting...' :
+                 connectionStatus === 'authenticating' ? 'Verifying wallet...' :
+                 connectionStatus === 'unauthorized' ? 'Wallet verification failed' :
                  'Disconnected'}
               </span>
+              {connectionStatus === 'unauthorized' && (
+                <button
+                  onClick={() => startMessaging().catch((e) => console.error('Failed to reconnect:', e))}
+                  className="text-xs text-primary hover:underline"
+                >
+                  Retry
+                </button>
+              )}
             </div>
           </div>
 
@@ -284,7 +361,35 @@ function MessengerApp() {
             </div>
 
             {/* Action Buttons */}
-            
+            <button
+              onClick={() => setShowGroupManager(true)}
+              className="p-2 hover:bg-card-highlight rounded-lg transition-colors"
+              title="New group"
+            >
+              <Users className="w-5 h-5 text-text-muted" />
+            </button>
+            <button
+              onClick={() => setShowChannelDirectory(true)}
+              className="p-2 hover:bg-card-highlight rounded-lg transition-colors"
+              title="Find channels"
+            >
+              <Hash className="w-5 h-5 text-text-muted" />
+            </button>
+            <button
+              onClick={() => setShowStarred(true)}
+              className="p-2 hover:bg-card-highlight rounded-lg transition-colors"
+              title="Starred messages"
+            >
+              <Star className="w-5 h-5 text-text-muted" />
+            </button>
+            <button
+              onClick={() => setShowDevices(true)}
+              className="p-2 hover:bg-card-highlight rounded-lg transition-colors"
+              title="Manage devices"
+            >
+              <MonitorSmartphone className="w-5 h-5 text-text-muted" />
+            </button>
+
 
             <ThemeToggle />
             <WalletMultiButton className="!bg-gradient-tertiary hover:opacity-90 transition-all !rounded-lg !text-sm" />
@@ -315,6 +420,14 @@ function MessengerApp() {
               recipientId={activeChatDetails.recipientId}
               recipientName={activeChatDetails.name}
               isOnline={activeChatDetails.isOnline}
+              readOnly={activeChatDetails.type === 'channel' && activeChatDetails.readOnly}
+              focusMessageId={focusMessageId}
+              onFocused={() => setFocusMessageId(null)}
+              onShowInfo={activeChatDetails.type === 'direct'
+                ? undefined
+                : activeChatDetails.type === 'channel' && !activeChatDetails.usesSenderKeys
+                  ? () => setChannelInfoId(activeChatDetails.id)
+                  : () => setGroupInfoId(activeChatDetails.id)}
             />
           ) : (
             <motion.div
@@ -358,7 +471,38 @@ function MessengerApp() {
         </motion.div>
       </main>
 
-      {/* Group chat and username NFT modals removed */}
+      {/* Username NFT modal removed */}
+      <AnimatePresence>
+        {showDevices && <DeviceManager onClose={() => setShowDevices(false)} />}
+        {showGroupManager && (
+          <GroupChatManager
+            onClose={() => setShowGroupManager(false)}
+            onCreateGroup={createGroupChat}
+            availablePeers={peers}
+          />
+        )}
+        {groupInfoId && <GroupInfoPanel chatId={groupInfoId} onClose={() => setGroupInfoId(null)} />}
+        {channelInfoId && <ChannelInfoPanel chatId={channelInfoId} onClose={() => setChannelInfoId(null)} />}
+        {showStarred && (
+          <StarredMessages
+            onClose={() => setShowStarred(false)}
+            onOpen={(chatId, messageId) => {
+              setActiveChat(chatId);
+              setFocusMessageId(messageId);
+              setShowStarred(false);
+            }}
+          />
+        )}
+        {showChannelDirectory && (
+          <ChannelDirectory
+            onClose={() => setShowChannelDirectory(false)}
+            onJoined={(channelId) => {
+              setActiveChat(channelId);
+              setShowChannelDirectory(false);
+            }}
+          />
+        )}
+      </AnimatePresence>
     </div>
   );
 }
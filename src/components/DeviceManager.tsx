@@ -0,0 +1,132 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, Monitor, Trash2, Loader2 } from 'lucide-react';
+import { useWallet } from '@solana/wallet-adapter-react';
+import { useChatStore } from '../store/chat-store';
+import { useToast } from './ui/Toast';
+import type { MessagingKeyRecord } from '../lib/key-agreement';
+
+interface Props {
+  onClose: () => void;
+}
+
+export const DeviceManager: React.FC<Props> = ({ onClose }) => {
+  const { signMessage } = useWallet();
+  const { deviceId, listDevices, revokeDevice } = useChatStore();
+  const { success, error: showError } = useToast();
+  const [devices, setDevices] = useState<MessagingKeyRecord[] | null>(null);
+  const [revoking, setRevoking] = useState<string | null>(null);
+
+  useEffect(() => {
+    listDevices()
+      .then(setDevices)
+      .catch((err) => {
+        console.error('Failed to load devices:', err);
+        setDevices([]);
+      });
+  }, [listDevices]);
+
+  const handleRevoke = async (device: MessagingKeyRecord) => {
+    if (!signMessage) return;
+    if (!confirm(`Revoke "${device.deviceName}"? It will no longer receive or send messages as you.`)) return;
+
+    setRevoking(device.deviceId);
+    try {
+      await revokeDevice(device.deviceId, signMessage);
+      setDevices((current) => current?.filter(d => d.deviceId !== device.deviceId) ?? null);
+      success('Device revoked', device.deviceName);
+    } catch (err) {
+      console.error('Failed to revoke device:', err);
+      showError('Could not revoke device', err instanceof Error ? err.message : undefined);
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  // Current device first, then most recently registered
+  const sorted = [...(devices ?? [])].sort((a, b) =>
+    a.deviceId === deviceId ? -1 : b.deviceId === deviceId ? 1 : b.createdAt - a.createdAt
+  );
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        onClick={(e) => e.stopPropagation()}
+        className="bg-foreground rounded-2xl shadow-2xl w-full max-w-md overflow-hidden"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-border">
+          <h3 className="text-lg font-semibold text-text">Your Devices</h3>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-card-highlight rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-text-muted" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-3">
+          <p className="text-text-muted text-sm">
+            Every device holds its own encryption keys, signed off by your wallet.
+            Revoke any device you no longer use or recognise.
+          </p>
+
+          {devices === null ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-6 h-6 text-text-muted animate-spin" />
+            </div>
+          ) : sorted.length === 0 ? (
+            <p className="text-sm text-text-muted text-center py-8">
+              No devices found. Connect to the relay to load your devices.
+            </p>
+          ) : (
+            sorted.map((device) => {
+              const isCurrent = device.deviceId === deviceId;
+              return (
+                <div
+                  key={device.deviceId}
+                  className="flex items-center space-x-3 p-3 rounded-xl bg-card-highlight"
+                >
+                  <div className="w-10 h-10 bg-gradient-primary rounded-full flex items-center justify-center flex-shrink-0">
+                    <Monitor className="w-5 h-5 text-white" />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-text truncate">
+                      {device.deviceName}
+                      {isCurrent && <span className="ml-2 text-xs text-primary">This device</span>}
+                    </p>
+                    <p className="text-xs text-text-muted">
+                      Added {new Date(device.createdAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                  {!isCurrent && (
+                    <button
+                      onClick={() => handleRevoke(device)}
+                      disabled={revoking !== null || !signMessage}
+                      className="p-2 text-error hover:bg-error/10 rounded-lg transition-colors disabled:opacity-50"
+                      title="Revoke device"
+                    >
+                      {revoking === device.deviceId
+                        ? <Loader2 className="w-4 h-4 animate-spin" />
+                        : <Trash2 className="w-4 h-4" />}
+                    </button>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
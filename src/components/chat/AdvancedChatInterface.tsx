@@ -1,4 +1,4 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import { motion, AnimatePresence, useScroll, useTransform } from 'framer-motion';
 import { 
   Send, 
@@ -15,23 +15,49 @@ import {
   Shield,
   Lock,
   Zap,
-  X
+  Edit3,
+  X,
+  Paperclip,
+  Loader2,
+  Pause,
+  WifiOff,
+  Images,
+  AlertCircle
 } from 'lucide-react';
 import { useVirtualizer } from '@tanstack/react-virtual';
 import { useHotkeys } from 'react-hotkeys-hook';
-import { useChatStore } from '../../store/chat-store';
+import { useChatStore, useTypingInChat } from '../../store/chat-store';
 import { useToast } from '../ui/Toast';
 import { AdvancedMessageBubble } from './AdvancedMessageBubble';
 import { EmojiPicker } from './EmojiPicker';
-// Removed VoiceRecorder and FileUploadZone UI imports
+import { VoiceRecorder } from './VoiceRecorder';
+import { FileUploadZone } from './FileUploadZone';
 import { TypingIndicator } from './TypingIndicator';
+import { ThreadPanel } from './ThreadPanel';
+import { MediaGallery } from './MediaGallery';
+import { ForwardDialog } from './ForwardDialog';
+import { PinnedBar } from './PinnedBar';
+import { SelectionToolbar } from './SelectionToolbar';
+import { TransferControls } from './TransferControls';
+import { isTransferCancelled } from '../../lib/file-transfer';
+import { authorizeMessageDeletion, authorizePinChange } from '../../lib/message-edits';
+import type { ImageQuality } from '../../lib/image-processing';
 import type { Message } from '../../types/message';
 
+// Outbound typing events are refreshed at most this often while typing
+const TYPING_THROTTLE_MS = 3000;
+// ...and stopped after this much inactivity
+const TYPING_IDLE_MS = 4000;
+
 interface Props {
   chatId: string;
   recipientId: string;
   recipientName: string;
   isOnline?: boolean;
+  onShowInfo?: () => void; // Opens the chat's info panel (groups and channels)
+  readOnly?: boolean; // Channel where we are a subscriber, not an author
+  focusMessageId?: string | null; // Scrolled to and highlighted once it is loaded
+  onFocused?: () => void;
 }
 
 export const AdvancedChatInterface: React.FC<Props> = ({
@@ -39,8 +65,12 @@ export const AdvancedChatInterface: React.FC<Props> = ({
   recipientId,
   recipientName,
   isOnline = false,
+  onShowInfo,
+  readOnly = false,
+  focusMessageId,
+  onFocused,
 }) => {
-  const { success, error } = useToast();
+  const { error } = useToast();
   const messagesContainerRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
   
@@ -52,20 +82,64 @@ export const AdvancedChatInterface: React.FC<Props> = ({
     replyingTo,
     connectionStatus,
     sendEncryptedMessage,
+    sendFile,
+    sendVoiceMessage,
+    fileUploads,
     saveDraft,
     loadDraft,
     toggleMessageSelection,
+    selectMessages,
     setReplyingTo,
     clearSelectedMessages,
+    markMessageRead,
+    markVoicePlayed,
+    retryMessage,
+    editMessage,
+    deleteMessage,
+    toggleReaction,
+    toggleStar,
+    setMessagePinned,
+    chats,
+    peers,
+    sendTyping,
   } = useChatStore();
+  const typists = useTypingInChat(chatId).filter(t => t.userId !== currentUser?.publicKey);
 
   // Local state
   const [message, setMessage] = useState('');
   const [showEmojiPicker, setShowEmojiPicker] = useState(false);
-  const [isTyping, setIsTyping] = useState(false);
-  const [lastTypingTime, setLastTypingTime] = useState(0);
+  const [editingMessage, setEditingMessage] = useState<Message | null>(null);
+  const [reactingTo, setReactingTo] = useState<string | null>(null); // Message the emoji picker reacts to
+  const [threadRootId, setThreadRootId] = useState<string | null>(null);
+  const [showGallery, setShowGallery] = useState(false);
+  const [showFileUpload, setShowFileUpload] = useState(false);
+  const [isRecording, setIsRecording] = useState(false);
+  const [hasVoiceDraft, setHasVoiceDraft] = useState(false);
+  const [forwarding, setForwarding] = useState<string[] | null>(null); // Messages the forward dialog is for
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  const draftBeforeEditRef = useRef('');
+  const highlightTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const selectionAnchorRef = useRef<string | null>(null); // Where a shift-click range starts
+  const lastTypingSentRef = useRef(0);
+  const typingIdleTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   const chatMessages = messages[chatId] || [];
+  const chat = chats.find(c => c.id === chatId);
+
+  const messagesById = useMemo(() => new Map(chatMessages.map(m => [m.id, m])), [chatMessages]);
+  const activeUploads = Object.values(fileUploads).filter(
+    upload => upload.chatId === chatId && upload.uploadProgress !== undefined && upload.transferState !== 'done'
+  );
+  const selected = useMemo(
+    () => chatMessages.filter(m => selectedMessages.has(m.id)),
+    [chatMessages, selectedMessages]
+  );
+  const pinnedIds = useMemo(() => new Set(chat?.pinnedMessages?.map(p => p.messageId)), [chat?.pinnedMessages]);
+  const threadReplyCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    chatMessages.forEach(m => m.threadId && counts.set(m.threadId, (counts.get(m.threadId) ?? 0) + 1));
+    return counts;
+  }, [chatMessages]);
 
   // Scroll animations
   const { scrollY } = useScroll({ container: messagesContainerRef });
@@ -80,6 +154,51 @@ export const AdvancedChatInterface: React.FC<Props> = ({
     overscan: 5,
   });
 
+  // Threads belong to one chat
+  useEffect(() => setThreadRootId(null), [chatId]);
+
+  useEffect(() => () => {
+    if (highlightTimerRef.current) clearTimeout(highlightTimerRef.current);
+  }, []);
+
+  // Scroll a message into view and flash it
+  const jumpToMessage = (messageId: string) => {
+    const index = chatMessages.findIndex(m => m.id === messageId);
+    if (index === -1) return;
+
+    virtualizer.scrollToIndex(index, { align: 'center' });
+    setHighlightedId(messageId);
+    if (highlightTimerRef.current) clearTimeout(highlightTimerRef.current);
+    highlightTimerRef.current = setTimeout(() => setHighlightedId(null), 2000);
+  };
+
+  useEffect(() => {
+    if (!focusMessageId || !messagesById.has(focusMessageId)) return;
+    jumpToMessage(focusMessageId);
+    onFocused?.();
+  }, [focusMessageId, messagesById]);
+
+  // A selection belongs to the chat it was made in
+  useEffect(() => {
+    clearSelectedMessages();
+    selectionAnchorRef.current = null;
+  }, [chatId, clearSelectedMessages]);
+
+  const handleSelect = (messageId: string, range: boolean) => {
+    const anchor = range ? chatMessages.findIndex(m => m.id === selectionAnchorRef.current) : -1;
+    const target = chatMessages.findIndex(m => m.id === messageId);
+    if (anchor !== -1 && target !== -1) {
+      // Group changes and tombstones have nothing to act on
+      const span = chatMessages
+        .slice(Math.min(anchor, target), Math.max(anchor, target) + 1)
+        .filter(m => m.messageType !== 'system' && !m.deleted);
+      selectMessages(span.map(m => m.id));
+    } else {
+      toggleMessageSelection(messageId);
+    }
+    selectionAnchorRef.current = messageId;
+  };
+
   // Load draft on mount
   useEffect(() => {
     const draft = loadDraft(chatId);
@@ -88,13 +207,14 @@ export const AdvancedChatInterface: React.FC<Props> = ({
     }
   }, [chatId, loadDraft]);
 
-  // Save draft when message changes
+  // Save draft when message changes (the input holds the edited text while editing)
   useEffect(() => {
+    if (editingMessage) return;
     const timeoutId = setTimeout(() => {
       saveDraft(chatId, message);
     }, 500);
     return () => clearTimeout(timeoutId);
-  }, [message, chatId, saveDraft]);
+  }, [message, chatId, saveDraft, editingMessage]);
 
   // Auto-resize textarea
   useEffect(() => {
@@ -110,41 +230,125 @@ export const AdvancedChatInterface: React.FC<Props> = ({
     clearSelectedMessages();
     setReplyingTo(null);
     setShowEmojiPicker(false);
+    if (editingMessage) stopEditing();
   });
 
+  const startEditing = (target: Message) => {
+    if (!editingMessage) draftBeforeEditRef.current = message;
+    setReplyingTo(null);
+    setEditingMessage(target);
+    setMessage(target.content);
+    inputRef.current?.focus();
+  };
+
+  const stopEditing = () => {
+    setEditingMessage(null);
+    setMessage(draftBeforeEditRef.current);
+  };
+
+  const handleDelete = async (target: Message, forEveryone: boolean) => {
+    if (editingMessage?.id === target.id) stopEditing();
+    try {
+      await deleteMessage(chatId, target.id, forEveryone);
+    } catch (err) {
+      error('Failed to delete message', err instanceof Error ? err.message : undefined);
+    }
+  };
+
+  const handleReact = async (messageId: string, emoji: string) => {
+    try {
+      await toggleReaction(chatId, messageId, emoji);
+    } catch (err) {
+      error('Failed to send reaction', err instanceof Error ? err.message : undefined);
+    }
+  };
+
+  const handlePin = async (messageId: string, pinned: boolean) => {
+    try {
+      await setMessagePinned(chatId, messageId, pinned);
+    } catch (err) {
+      error(pinned ? 'Failed to pin message' : 'Failed to unpin message', err instanceof Error ? err.message : undefined);
+    }
+  };
+
+  const handleFilesSelected = async (files: File[], imageQuality: ImageQuality) => {
+    const replyTo = replyingTo?.id;
+    setReplyingTo(null);
+    // Side by side, so pausing one file doesn't hold up the rest
+    await Promise.all(files.map(async (file) => {
+      try {
+        await sendFile(chatId, file, recipientId, '', { replyTo, imageQuality });
+      } catch (err) {
+        if (!isTransferCancelled(err)) {
+          error(`Failed to send ${file.name}`, err instanceof Error ? err.message : undefined);
+        }
+      }
+    }));
+  };
+
+  const handleVoiceRecorded = async (audio: Blob, duration: number, waveform: number[]) => {
+    const replyTo = replyingTo?.id;
+    setReplyingTo(null);
+    try {
+      await sendVoiceMessage(chatId, audio, duration, waveform, recipientId, { replyTo });
+    } catch (err) {
+      if (!isTransferCancelled(err)) {
+        error('Failed to send voice message', err instanceof Error ? err.message : undefined);
+      }
+    }
+  };
+
   const handleSendMessage = async () => {
     if (!message.trim() || !currentUser) return;
 
+    if (editingMessage) {
+      try {
+        await editMessage(chatId, editingMessage.id, message.trim());
+        stopEditing();
+      } catch (err) {
+        error('Failed to edit message', err instanceof Error ? err.message : undefined);
+      }
+      return;
+    }
+
     try {
-      await sendEncryptedMessage(chatId, message.trim(), recipientId);
+      stopTyping();
+      await sendEncryptedMessage(chatId, message.trim(), recipientId, { replyTo: replyingTo?.id });
       setMessage('');
       saveDraft(chatId, '');
       setReplyingTo(null);
-      success('Message sent!', 'Your encrypted message has been delivered.');
     } catch (err) {
       error('Failed to send message', 'Please check your connection and try again.');
     }
   };
 
+  const stopTyping = useCallback(() => {
+    if (typingIdleTimerRef.current) {
+      clearTimeout(typingIdleTimerRef.current);
+      typingIdleTimerRef.current = null;
+    }
+    if (lastTypingSentRef.current) {
+      lastTypingSentRef.current = 0;
+      sendTyping(chatId, recipientId, false);
+    }
+  }, [chatId, recipientId, sendTyping]);
+
+  // Tell the recipient we stopped when switching chats or unmounting
+  useEffect(() => stopTyping, [stopTyping]);
+
   const handleTyping = () => {
     const now = Date.now();
-    setLastTypingTime(now);
-    
-    if (!isTyping) {
-      setIsTyping(true);
-      // Send typing indicator
+    if (now - lastTypingSentRef.current > TYPING_THROTTLE_MS) {
+      lastTypingSentRef.current = now;
+      sendTyping(chatId, recipientId, true);
     }
 
-    // Stop typing after 3 seconds of inactivity
-    setTimeout(() => {
-      if (Date.now() - lastTypingTime >= 2900) {
-        setIsTyping(false);
-      }
-    }, 3000);
+    if (typingIdleTimerRef.current) {
+      clearTimeout(typingIdleTimerRef.current);
+    }
+    typingIdleTimerRef.current = setTimeout(stopTyping, TYPING_IDLE_MS);
   };
 
-  // File upload UI removed
-
   const handleEmojiSelect = (emoji: string) => {
     const textarea = inputRef.current;
     if (textarea) {
@@ -162,8 +366,6 @@ export const AdvancedChatInterface: React.FC<Props> = ({
     setShowEmojiPicker(false);
   };
 
-  // Voice recording UI removed
-
   return (
     <div className="flex flex-col h-full bg-background relative overflow-hidden">
       {/* Animated Background */}
@@ -208,6 +410,15 @@ export const AdvancedChatInterface: React.FC<Props> = ({
           </div>
 
           <div className="flex items-center space-x-2">
+            <motion.button
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              onClick={() => setShowGallery(!showGallery)}
+              className="p-2 hover:bg-card-highlight rounded-lg transition-colors"
+              title="Shared media"
+            >
+              <Images className="w-5 h-5 text-text-muted" />
+            </motion.button>
             <motion.button
               whileHover={{ scale: 1.05 }}
               whileTap={{ scale: 0.95 }}
@@ -218,6 +429,8 @@ export const AdvancedChatInterface: React.FC<Props> = ({
             <motion.button
               whileHover={{ scale: 1.05 }}
               whileTap={{ scale: 0.95 }}
+              onClick={onShowInfo}
+              disabled={!onShowInfo}
               className="p-2 hover:bg-card-highlight rounded-lg transition-colors"
             >
               <MoreVertical className="w-5 h-5 text-text-muted" />
@@ -226,6 +439,29 @@ export const AdvancedChatInterface: React.FC<Props> = ({
         </div>
       </motion.header>
 
+      {/* Selection */}
+      <AnimatePresence>
+        {selected.length > 0 && (
+          <SelectionToolbar
+            chatId={chatId}
+            chatTitle={recipientName}
+            selected={selected}
+            onForward={setForwarding}
+            onClear={clearSelectedMessages}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Pinned messages */}
+      {chat?.pinnedMessages && (
+        <PinnedBar
+          pins={chat.pinnedMessages}
+          messagesById={messagesById}
+          onJump={jumpToMessage}
+          onUnpin={!readOnly ? (messageId) => handlePin(messageId, false) : undefined}
+        />
+      )}
+
       {/* Messages Area */}
       <div
         ref={messagesContainerRef}
@@ -257,8 +493,27 @@ export const AdvancedChatInterface: React.FC<Props> = ({
                   message={message}
                   isOwn={message.sender === currentUser?.publicKey}
                   isSelected={selectedMessages.has(message.id)}
-                  onSelect={() => toggleMessageSelection(message.id)}
+                  onSelect={(range) => handleSelect(message.id, range)}
+                  selectionMode={selectedMessages.size > 0}
                   onReply={() => setReplyingTo(message)}
+                  onVisible={() => markMessageRead(chatId, message.id)}
+                  onPlayed={() => markVoicePlayed(chatId, message.id)}
+                  onRetry={() => retryMessage(chatId, message.id)}
+                  onEdit={() => startEditing(message)}
+                  onDelete={(forEveryone) => handleDelete(message, forEveryone)}
+                  onForward={() => setForwarding([message.id])}
+                  onStar={() => toggleStar(chatId, message.id)}
+                  onPin={() => handlePin(message.id, !pinnedIds.has(message.id))}
+                  isPinned={pinnedIds.has(message.id)}
+                  canPin={!!chat && !!currentUser && !authorizePinChange(chat, message, currentUser.publicKey)}
+                  onReact={(emoji) => handleReact(message.id, emoji)}
+                  onPickReaction={() => setReactingTo(message.id)}
+                  replyParent={message.replyTo ? messagesById.get(message.replyTo) : undefined}
+                  onJumpToParent={() => message.replyTo && jumpToMessage(message.replyTo)}
+                  threadReplyCount={threadReplyCounts.get(message.id)}
+                  onOpenThread={() => setThreadRootId(message.id)}
+                  isHighlighted={highlightedId === message.id}
+                  canDeleteForEveryone={!!chat && !!currentUser && !authorizeMessageDeletion(chat, message, currentUser.publicKey)}
                 />
               </div>
             );
@@ -267,12 +522,45 @@ export const AdvancedChatInterface: React.FC<Props> = ({
 
         {/* Typing Indicator */}
         <AnimatePresence>
-          {isTyping && (
-            <TypingIndicator username={recipientName} />
+          {typists.length > 0 && (
+            <TypingIndicator
+              usernames={typists.map(t => {
+                const peer = peers.find(p => p.publicKey === t.userId);
+                return peer?.nickname || peer?.username || t.username || `${t.userId.slice(0, 4)}...${t.userId.slice(-4)}`;
+              })}
+            />
           )}
         </AnimatePresence>
       </div>
 
+      {/* Edit Bar */}
+      <AnimatePresence>
+        {editingMessage && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 20 }}
+            className="px-4 py-2 bg-card-highlight border-t border-border"
+          >
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-2">
+                <Edit3 className="w-4 h-4 text-primary" />
+                <span className="text-sm text-text-muted">Editing message</span>
+              </div>
+              <button
+                onClick={stopEditing}
+                className="p-1 hover:bg-card-highlight rounded"
+              >
+                <X className="w-4 h-4 text-text-muted" />
+              </button>
+            </div>
+            <p className="text-sm text-text truncate mt-1">
+              {editingMessage.content}
+            </p>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
       {/* Reply Bar */}
       <AnimatePresence>
         {replyingTo && (
@@ -304,51 +592,108 @@ export const AdvancedChatInterface: React.FC<Props> = ({
       </AnimatePresence>
 
       {/* Input Area */}
+      {readOnly ? (
+        <div className="p-4 bg-foreground border-t border-border text-center text-sm text-text-muted">
+          Only authors can post in this channel
+        </div>
+      ) : (
       <div className="p-4 bg-foreground border-t border-border">
-        <div className="flex items-end space-x-2">
-          {/* File upload UI removed */}
-          {/* Message Input */}
-          <div className="flex-1 relative">
-            <textarea
-              ref={inputRef}
-              value={message}
-              onChange={(e) => {
-                setMessage(e.target.value);
-                handleTyping();
-              }}
-              onKeyDown={(e) => {
-                if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
-                  e.preventDefault();
-                  handleSendMessage();
-                }
-              }}
-              placeholder="Type a message..."
-              className="w-full px-4 py-3 bg-card-highlight border border-border rounded-2xl resize-none focus:outline-none focus:ring-2 focus:ring-primary/50 transition-all"
-              rows={1}
-              style={{ minHeight: '48px', maxHeight: '120px' }}
-            />
-            
-            {/* Emoji Button */}
-            <button
-              onClick={() => setShowEmojiPicker(!showEmojiPicker)}
-              className="absolute right-3 top-1/2 -translate-y-1/2 p-1 hover:bg-card-highlight rounded transition-colors"
-            >
-              <Smile className="w-5 h-5 text-text-muted" />
-            </button>
+        {/* Uploads in progress */}
+        {activeUploads.length > 0 && (
+          <div className="mb-2 space-y-1">
+            {activeUploads.map(upload => (
+              <div key={upload.id} className="flex items-center space-x-2 text-xs text-text-muted">
+                {upload.transferState === 'waiting' ? (
+                  <WifiOff className="w-3 h-3 flex-shrink-0" />
+                ) : upload.transferState === 'paused' ? (
+                  <Pause className="w-3 h-3 flex-shrink-0" />
+                ) : upload.transferState === 'failed' ? (
+                  <AlertCircle className="w-3 h-3 flex-shrink-0 text-error" />
+                ) : (
+                  <Loader2 className="w-3 h-3 animate-spin flex-shrink-0" />
+                )}
+                <span className="truncate">{upload.name}</span>
+                <div className="flex-1 h-1 bg-card-highlight rounded-full overflow-hidden">
+                  <div className="h-full bg-primary transition-all" style={{ width: `${upload.uploadProgress}%` }} />
+                </div>
+                <span>
+                  {upload.transferState === 'waiting'
+                    ? 'Waiting for connection'
+                    : upload.transferState === 'failed' ? 'Failed' : `${upload.uploadProgress}%`}
+                </span>
+                <TransferControls transfer={upload} />
+              </div>
+            ))}
           </div>
+        )}
+        <div className="flex items-end space-x-2">
+          {!(isRecording || hasVoiceDraft) && (
+            <>
+              {/* Attach files */}
+              <button
+                onClick={() => setShowFileUpload(true)}
+                disabled={!!editingMessage}
+                className="p-3 hover:bg-card-highlight rounded-full transition-colors disabled:opacity-50"
+                title="Attach files"
+              >
+                <Paperclip className="w-5 h-5 text-text-muted" />
+              </button>
+              {/* Message Input */}
+              <div className="flex-1 relative">
+                <textarea
+                  ref={inputRef}
+                  value={message}
+                  onChange={(e) => {
+                    setMessage(e.target.value);
+                    if (!editingMessage) handleTyping();
+                  }}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+                      e.preventDefault();
+                      handleSendMessage();
+                    }
+                  }}
+                  placeholder="Type a message..."
+                  className="w-full px-4 py-3 bg-card-highlight border border-border rounded-2xl resize-none focus:outline-none focus:ring-2 focus:ring-primary/50 transition-all"
+                  rows={1}
+                  style={{ minHeight: '48px', maxHeight: '120px' }}
+                />
 
-          {/* Send Button */}
-          <motion.button
-            whileHover={{ scale: message.trim() ? 1.05 : 1 }}
-            whileTap={{ scale: message.trim() ? 0.95 : 1 }}
-            onClick={handleSendMessage}
-            disabled={!message.trim()}
-            className={`p-3 rounded-full transition-all ${message.trim() ? 'bg-gradient-primary shadow-lg hover:shadow-xl' : 'bg-card-highlight cursor-not-allowed opacity-50'}`}
-          >
-            <Send className={`w-5 h-5 ${message.trim() ? 'text-white' : 'text-text-muted'}`} />
-          </motion.button>
+                {/* Emoji Button */}
+                <button
+                  onClick={() => setShowEmojiPicker(!showEmojiPicker)}
+                  className="absolute right-3 top-1/2 -translate-y-1/2 p-1 hover:bg-card-highlight rounded transition-colors"
+                >
+                  <Smile className="w-5 h-5 text-text-muted" />
+                </button>
+              </div>
+            </>
+          )}
+
+          {/* Send Button, or the voice recorder while there is nothing typed */}
+          {message.trim() || editingMessage ? (
+            <motion.button
+              whileHover={{ scale: message.trim() ? 1.05 : 1 }}
+              whileTap={{ scale: message.trim() ? 0.95 : 1 }}
+              onClick={handleSendMessage}
+              disabled={!message.trim()}
+              className={`p-3 rounded-full transition-all ${message.trim() ? 'bg-gradient-primary shadow-lg hover:shadow-xl' : 'bg-card-highlight cursor-not-allowed opacity-50'}`}
+            >
+              <Send className={`w-5 h-5 ${message.trim() ? 'text-white' : 'text-text-muted'}`} />
+            </motion.button>
+          ) : (
+            <div className={isRecording || hasVoiceDraft ? 'flex-1' : ''}>
+              <VoiceRecorder
+                onRecordingComplete={handleVoiceRecorded}
+                isRecording={isRecording}
+                onRecordingStateChange={setIsRecording}
+                onDraftChange={setHasVoiceDraft}
+              />
+            </div>
+          )}
         </div>
       </div>
+      )}
 
       {/* Emoji Picker */}
       <AnimatePresence>
@@ -358,9 +703,63 @@ export const AdvancedChatInterface: React.FC<Props> = ({
             onClose={() => setShowEmojiPicker(false)}
           />
         )}
+        {reactingTo && (
+          <EmojiPicker
+            onEmojiSelect={(emoji) => {
+              handleReact(reactingTo, emoji);
+              setReactingTo(null);
+            }}
+            onClose={() => setReactingTo(null)}
+          />
+        )}
       </AnimatePresence>
 
-      {/* File upload zone removed */}
+      {/* Thread */}
+      <AnimatePresence>
+        {threadRootId && (
+          <ThreadPanel
+            chatId={chatId}
+            rootId={threadRootId}
+            recipientId={recipientId}
+            readOnly={readOnly}
+            onClose={() => setThreadRootId(null)}
+            onJumpTo={jumpToMessage}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Shared media */}
+      <AnimatePresence>
+        {showGallery && (
+          <MediaGallery
+            chatId={chatId}
+            onClose={() => setShowGallery(false)}
+            onJumpTo={jumpToMessage}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Forward */}
+      <AnimatePresence>
+        {forwarding && (
+          <ForwardDialog
+            chatId={chatId}
+            messageIds={forwarding}
+            onClose={() => setForwarding(null)}
+            onForwarded={clearSelectedMessages}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* File upload */}
+      <AnimatePresence>
+        {showFileUpload && (
+          <FileUploadZone
+            onFilesSelected={handleFilesSelected}
+            onClose={() => setShowFileUpload(false)}
+          />
+        )}
+      </AnimatePresence>
     </div>
   );
 };
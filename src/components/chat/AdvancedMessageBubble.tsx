@@ -1,5 +1,6 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { useInView } from 'react-intersection-observer';
 import {
   Check,
   CheckCheck,
@@ -10,27 +11,55 @@ import {
   Trash2,
   Edit3,
   MoreHorizontal,
-  Download,
   Eye,
   Heart,
   Smile,
   Lock,
   Shield,
+  ShieldAlert,
   X,
-  FileText
+  Ban,
+  MessageSquare,
+  Star,
+  Pin
 } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 import { useToast } from '../ui/Toast';
+import { useChatStore } from '../../store/chat-store';
+import { saveFile } from '../../lib/file-transfer';
 import { MessageReactions } from './MessageReactions';
 import { MessageContextMenu } from './MessageContextMenu';
+import { AttachmentView } from './AttachmentView';
+import { VoiceMessage } from './VoiceMessage';
 import type { Message } from '../../types/message';
 
+const QUICK_REACTIONS = ['👍', '❤️', '😂', '😮', '😢', '🙏'];
+
 interface Props {
   message: Message;
   isOwn: boolean;
   isSelected: boolean;
-  onSelect: () => void;
+  onSelect: (range: boolean) => void; // `range` extends the selection from the last selected message
+  selectionMode?: boolean; // While anything is selected, a click selects instead of acting
   onReply: () => void;
+  onVisible?: () => void;
+  onPlayed?: () => void; // First playback of a voice clip
+  onRetry?: () => void;
+  onEdit?: () => void;
+  onDelete?: (forEveryone: boolean) => void;
+  onForward?: () => void;
+  onStar?: () => void;
+  onPin?: () => void; // Pins or unpins, depending on isPinned
+  isPinned?: boolean;
+  canPin?: boolean;
+  canDeleteForEveryone?: boolean;
+  onReact?: (emoji: string) => void;
+  onPickReaction?: () => void; // Opens the full emoji picker for this message
+  replyParent?: Message; // The message this one replies to, if it is loaded
+  onJumpToParent?: () => void;
+  threadReplyCount?: number; // Replies in the thread this message starts
+  onOpenThread?: () => void;
+  isHighlighted?: boolean;
   showAvatar?: boolean;
   showTimestamp?: boolean;
 }
@@ -40,15 +69,90 @@ export const AdvancedMessageBubble: React.FC<Props> = ({
   isOwn,
   isSelected,
   onSelect,
+  selectionMode = false,
   onReply,
+  onVisible,
+  onPlayed,
+  onRetry,
+  onEdit,
+  onDelete,
+  onForward,
+  onStar,
+  onPin,
+  isPinned = false,
+  canPin = false,
+  canDeleteForEveryone = false,
+  onReact,
+  onPickReaction,
+  replyParent,
+  onJumpToParent,
+  threadReplyCount = 0,
+  onOpenThread,
+  isHighlighted = false,
   showAvatar = true,
   showTimestamp = true,
 }) => {
-  const { success } = useToast();
+  const { success, error: showError } = useToast();
+  const downloadAttachment = useChatStore(state => state.downloadAttachment);
   const [showContextMenu, setShowContextMenu] = useState(false);
-  const [showReactions, setShowReactions] = useState(false);
+  const [showEditHistory, setShowEditHistory] = useState(false);
+  const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [isHovered, setIsHovered] = useState(false);
-  const messageRef = useRef<HTMLDivElement>(null);
+  const messageRef = useRef<HTMLDivElement | null>(null);
+
+  // Report received messages once they are actually on screen (drives read receipts)
+  const { ref: inViewRef, inView } = useInView({
+    threshold: 0.6,
+    triggerOnce: true,
+    skip: isOwn || !onVisible || message.status === 'read',
+  });
+
+  useEffect(() => {
+    if (!inView || !onVisible) return;
+    if (document.visibilityState === 'visible') {
+      onVisible();
+      return;
+    }
+
+    // Scrolled into view in a background tab: wait until the user looks
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') onVisible();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, [inView, onVisible]);
+
+  // Group changes render as a centered notice rather than a bubble
+  if (message.messageType === 'system') {
+    return (
+      <div className="flex justify-center py-2">
+        <span className="px-3 py-1 text-xs text-text-muted bg-card-highlight rounded-full">
+          {message.content}
+        </span>
+      </div>
+    );
+  }
+
+  // Tombstoned messages keep their place in the conversation, without content or actions
+  if (message.deleted) {
+    return (
+      <div className={`flex ${isOwn ? 'justify-end' : 'justify-start'}`}>
+        <div className="flex items-center space-x-2 px-4 py-3 rounded-2xl border border-dashed border-border text-sm italic text-text-muted">
+          <Ban className="w-4 h-4" />
+          <span>{isOwn ? 'You deleted this message' : 'This message was deleted'}</span>
+        </div>
+      </div>
+    );
+  }
+
+  const downloadFile = async () => {
+    try {
+      const url = message.attachment ? await downloadAttachment(message.attachment) : message.fileUrl;
+      if (url) saveFile(url, message.fileName || 'file');
+    } catch (err) {
+      showError('Could not download file', err instanceof Error ? err.message : undefined);
+    }
+  };
 
   const copyToClipboard = async () => {
     try {
@@ -127,7 +231,10 @@ export const AdvancedMessageBubble: React.FC<Props> = ({
 
   return (
     <motion.div
-      ref={messageRef}
+      ref={(node: HTMLDivElement | null) => {
+        messageRef.current = node;
+        inViewRef(node);
+      }}
       variants={bubbleVariants}
       initial="initial"
       animate="animate"
@@ -140,7 +247,15 @@ export const AdvancedMessageBubble: React.FC<Props> = ({
       <motion.div
         variants={selectionVariants}
         animate={isSelected ? 'selected' : 'unselected'}
-        className={`max-w-[70%] relative ${isSelected ? 'ring-2 ring-primary/50 rounded-lg' : ''}`}
+        onClick={(e) => {
+          // Shift-click selects a range; ctrl/cmd-click starts a selection
+          if (!selectionMode && !e.shiftKey && !e.metaKey && !e.ctrlKey) return;
+          e.preventDefault();
+          onSelect(e.shiftKey);
+        }}
+        className={`max-w-[70%] relative rounded-lg transition-shadow duration-500 ${
+          isSelected ? 'ring-2 ring-primary/50' : isHighlighted ? 'ring-2 ring-warning/70' : ''
+        }`}
       >
         {/* Avatar for received messages */}
         {!isOwn && showAvatar && (
@@ -168,15 +283,29 @@ export const AdvancedMessageBubble: React.FC<Props> = ({
             </div>
           )}
 
-          {/* Reply indicator */}
+          {/* Quoted parent */}
           {message.replyTo && (
-            <div className={`mb-2 p-2 rounded-lg border-l-2 ${
-              isOwn
-                ? 'bg-white/10 border-white/30'
-                : 'bg-card-highlight border-primary/30'
-            }`}>
-              <p className="text-xs opacity-75">Replying to message</p>
-            </div>
+            <button
+              onClick={onJumpToParent}
+              disabled={!replyParent}
+              className={`w-full text-left mb-2 p-2 rounded-lg border-l-2 disabled:cursor-default ${
+                isOwn
+                  ? 'bg-white/10 border-white/30'
+                  : 'bg-card-highlight border-primary/30'
+              }`}
+              title={replyParent ? 'Go to message' : undefined}
+            >
+              {replyParent ? (
+                <>
+                  <p className="text-xs font-medium opacity-90">{replyParent.senderUsername || 'Unknown'}</p>
+                  <p className="text-xs opacity-75 truncate">
+                    {replyParent.deleted ? 'This message was deleted' : replyParent.content}
+                  </p>
+                </>
+              ) : (
+                <p className="text-xs italic opacity-75">Original message not available</p>
+              )}
+            </button>
           )}
 
           {/* Message content */}
@@ -188,6 +317,36 @@ export const AdvancedMessageBubble: React.FC<Props> = ({
               </p>
             )}
 
+            {/* Sender authentication warning */}
+            {!isOwn && message.senderVerified === false && (
+              <div
+                className="flex items-center space-x-1 text-xs text-warning"
+                title="This message's signature could not be checked against the sender's wallet"
+              >
+                <ShieldAlert className="w-3 h-3" />
+                <span>Unverified sender</span>
+              </div>
+            )}
+
+            {/* Forwarding provenance */}
+            {message.forwardedFrom && (
+              <div
+                className={`flex items-center space-x-1 text-xs ${isOwn ? 'text-white/80' : 'text-text-muted'}`}
+                title={message.forwardedFrom.verified
+                  ? "Signed by the original sender's device"
+                  : "The original sender's signature could not be checked"}
+              >
+                <Forward className="w-3 h-3" />
+                <span className="italic truncate">
+                  Forwarded from {message.forwardedFrom.senderUsername
+                    || `${message.forwardedFrom.sender.slice(0, 4)}...${message.forwardedFrom.sender.slice(-4)}`}
+                </span>
+                {message.forwardedFrom.verified
+                  ? <Shield className="w-3 h-3 flex-shrink-0" />
+                  : <ShieldAlert className="w-3 h-3 flex-shrink-0 text-warning" />}
+              </div>
+            )}
+
             {/* Text content */}
             {message.content && (
               <p className="break-words whitespace-pre-wrap leading-relaxed">
@@ -196,48 +355,17 @@ export const AdvancedMessageBubble: React.FC<Props> = ({
             )}
 
             {/* File attachment */}
-            {message.fileUrl && (
-              <div className="mt-2">
-                {message.messageType === 'image' ? (
-                  <div className="relative rounded-lg overflow-hidden">
-                    <img
-                      src={message.fileUrl}
-                      alt={message.fileName}
-                      className="max-w-full h-auto rounded-lg cursor-pointer hover:opacity-90 transition-opacity"
-                      onClick={() => {/* Open image modal */}}
-                    />
-                    <div className="absolute top-2 right-2">
-                      <button className="p-1 bg-black/50 rounded-full hover:bg-black/70 transition-colors">
-                        <Download className="w-4 h-4 text-white" />
-                      </button>
-                    </div>
-                  </div>
-                ) : (
-                  <div className={`flex items-center space-x-3 p-3 rounded-lg ${
-                    isOwn ? 'bg-white/10' : 'bg-card-highlight'
-                  }`}>
-                    <div className="w-10 h-10 bg-primary/20 rounded-lg flex items-center justify-center">
-                      <FileText className="w-5 h-5 text-primary" />
-                    </div>
-                    <div className="flex-1 min-w-0">
-                      <p className="text-sm font-medium truncate">{message.fileName}</p>
-                      <p className="text-xs opacity-75">
-                        {message.fileSize ? `${(message.fileSize / 1024).toFixed(1)} KB` : 'Unknown size'}
-                      </p>
-                    </div>
-                    <button className="p-2 hover:bg-white/10 rounded-lg transition-colors">
-                      <Download className="w-4 h-4" />
-                    </button>
-                  </div>
-                )}
-              </div>
+            {message.messageType === 'voice' && message.attachment ? (
+              <VoiceMessage message={message} isOwn={isOwn} onPlayed={onPlayed} />
+            ) : (message.attachment || message.fileUrl) && (
+              <AttachmentView message={message} isOwn={isOwn} />
             )}
 
             {/* Message reactions */}
             {message.reactions && message.reactions.length > 0 && (
               <MessageReactions
                 reactions={message.reactions}
-                onReactionClick={(emoji) => {/* Handle reaction */}}
+                onReactionClick={(emoji) => onReact?.(emoji)}
               />
             )}
           </div>
@@ -250,8 +378,26 @@ export const AdvancedMessageBubble: React.FC<Props> = ({
               {showTimestamp && (
                 <span>{formatTime(message.timestamp)}</span>
               )}
+              {isPinned && <Pin className="w-3 h-3" aria-label="Pinned" />}
+              {message.starred && <Star className="w-3 h-3 fill-current" aria-label="Starred" />}
+              {threadReplyCount > 0 && (
+                <button
+                  onClick={onOpenThread}
+                  className="flex items-center space-x-1 font-medium hover:underline"
+                  title="Open thread"
+                >
+                  <MessageSquare className="w-3 h-3" />
+                  <span>{threadReplyCount} {threadReplyCount === 1 ? 'reply' : 'replies'}</span>
+                </button>
+              )}
               {message.edited && (
-                <span className="italic">(edited)</span>
+                <button
+                  onClick={() => setShowEditHistory(true)}
+                  className="italic hover:underline"
+                  title="View edit history"
+                >
+                  (edited)
+                </button>
               )}
             </div>
 
@@ -263,6 +409,31 @@ export const AdvancedMessageBubble: React.FC<Props> = ({
           </div>
         </div>
 
+        {/* Quick reactions */}
+        <AnimatePresence>
+          {isHovered && onReact && (
+            <motion.div
+              initial={{ opacity: 0, y: 4 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: 4 }}
+              className={`absolute bottom-full pb-1 z-10 ${isOwn ? 'right-0' : 'left-0'}`}
+            >
+              <div className="flex items-center bg-foreground border border-border rounded-full shadow-lg px-1 py-0.5">
+                {QUICK_REACTIONS.map(emoji => (
+                  <button
+                    key={emoji}
+                    onClick={() => onReact(emoji)}
+                    className="p-1.5 text-base leading-none hover:scale-125 transition-transform"
+                    title={`React with ${emoji}`}
+                  >
+                    {emoji}
+                  </button>
+                ))}
+              </div>
+            </motion.div>
+          )}
+        </AnimatePresence>
+
         {/* Hover actions */}
         <AnimatePresence>
           {isHovered && (
@@ -275,7 +446,7 @@ export const AdvancedMessageBubble: React.FC<Props> = ({
               } flex items-center space-x-1 bg-foreground border border-border rounded-lg shadow-lg p-1`}
             >
               <button
-                onClick={() => setShowReactions(true)}
+                onClick={onPickReaction}
                 className="p-2 hover:bg-card-highlight rounded-lg transition-colors"
                 title="Add reaction"
               >
@@ -327,14 +498,142 @@ export const AdvancedMessageBubble: React.FC<Props> = ({
           <MessageContextMenu
             message={message}
             isOwn={isOwn}
+            isPinned={isPinned}
+            canPin={canPin}
+            isSelected={isSelected}
             onClose={() => setShowContextMenu(false)}
             onAction={(action) => {
               setShowContextMenu(false);
               // Handle context menu actions
+              switch (action) {
+                case 'retry':
+                  onRetry?.();
+                  break;
+                case 'reply':
+                  onReply();
+                  break;
+                case 'edit':
+                  onEdit?.();
+                  break;
+                case 'download':
+                  downloadFile();
+                  break;
+                case 'select':
+                  onSelect(false);
+                  break;
+                case 'forward':
+                  onForward?.();
+                  break;
+                case 'star':
+                  onStar?.();
+                  break;
+                case 'pin':
+                  onPin?.();
+                  break;
+                case 'delete':
+                  setShowDeleteDialog(true);
+                  break;
+              }
             }}
           />
         )}
       </AnimatePresence>
+
+      {/* Delete dialog */}
+      <AnimatePresence>
+        {showDeleteDialog && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-50"
+            onClick={() => setShowDeleteDialog(false)}
+          >
+            <div className="absolute inset-0 bg-black/20" />
+
+            <motion.div
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 bg-foreground border border-border rounded-xl shadow-2xl py-2 w-64"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <p className="px-4 py-2 text-sm font-medium text-text">Delete message?</p>
+              {canDeleteForEveryone && (
+                <button
+                  onClick={() => {
+                    setShowDeleteDialog(false);
+                    onDelete?.(true);
+                  }}
+                  className="w-full px-4 py-3 text-left text-sm text-error hover:bg-error/10 transition-colors"
+                >
+                  Delete for everyone
+                </button>
+              )}
+              <button
+                onClick={() => {
+                  setShowDeleteDialog(false);
+                  onDelete?.(false);
+                }}
+                className="w-full px-4 py-3 text-left text-sm text-error hover:bg-error/10 transition-colors"
+              >
+                Delete for me
+              </button>
+              <button
+                onClick={() => setShowDeleteDialog(false)}
+                className="w-full px-4 py-3 text-left text-sm text-text hover:bg-card-highlight transition-colors"
+              >
+                Cancel
+              </button>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Edit history */}
+      <AnimatePresence>
+        {showEditHistory && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-50"
+            onClick={() => setShowEditHistory(false)}
+          >
+            <div className="absolute inset-0 bg-black/20" />
+
+            <motion.div
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 bg-foreground border border-border rounded-xl shadow-2xl w-80 max-h-96 flex flex-col"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+                <span className="text-sm font-medium text-text">Edit history</span>
+                <button
+                  onClick={() => setShowEditHistory(false)}
+                  className="p-1 hover:bg-card-highlight rounded"
+                >
+                  <X className="w-4 h-4 text-text-muted" />
+                </button>
+              </div>
+              <div className="overflow-y-auto p-2 space-y-1">
+                {[
+                  ...(message.revisions ?? []),
+                  { content: message.content, at: message.editedAt ?? message.timestamp },
+                ].reverse().map((revision, index) => (
+                  <div key={revision.at} className="px-2 py-2 rounded-lg hover:bg-card-highlight">
+                    <p className="text-sm text-text break-words whitespace-pre-wrap">{revision.content}</p>
+                    <p className="text-xs text-text-muted mt-1">
+                      {index === 0 ? 'Current · ' : ''}
+                      {formatDistanceToNow(new Date(revision.at), { addSuffix: true })}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
     </motion.div>
   );
 };
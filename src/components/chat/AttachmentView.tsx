@@ -0,0 +1,149 @@
+import React, { useEffect } from 'react';
+import { Download, FileText, Loader2, AlertCircle, WifiOff, Image as ImageIcon } from 'lucide-react';
+import { useChatStore } from '../../store/chat-store';
+import { useToast } from '../ui/Toast';
+import { isTransferCancelled, saveFile } from '../../lib/file-transfer';
+import { AUTO_DOWNLOAD_BYTES } from '../../lib/media-gallery';
+import { TransferControls } from './TransferControls';
+import type { Message } from '../../types/message';
+
+interface Props {
+  message: Message;
+  isOwn: boolean;
+}
+
+/**
+ * A message's file: decrypted on demand, with transfer progress
+ */
+export const AttachmentView: React.FC<Props> = ({ message, isOwn }) => {
+  const { fileUploads, downloadAttachment } = useChatStore();
+  const { error: showError } = useToast();
+
+  const attachment = message.attachment;
+  const transfer = attachment ? fileUploads[attachment.blobId] : undefined;
+  const url = transfer?.url || message.fileUrl;
+  const isImage = message.messageType === 'image';
+  const progress = transfer?.downloadProgress ?? transfer?.uploadProgress;
+  const failed = transfer?.transferState === 'failed';
+  const busy = !!transfer && !failed && transfer.transferState !== 'cancelled' && !transfer.url;
+  const sizeLabel = message.fileSize ? `${(message.fileSize / 1024).toFixed(1)} KB` : 'Unknown size';
+
+  useEffect(() => {
+    if (!attachment || transfer || !isImage || attachment.size > AUTO_DOWNLOAD_BYTES) return;
+    downloadAttachment(attachment).catch(() => {});
+  }, [attachment, transfer, isImage, downloadAttachment]);
+
+  const fetchFile = async (): Promise<string | undefined> => {
+    if (url) return url;
+    if (!attachment) return undefined;
+    try {
+      return await downloadAttachment(attachment);
+    } catch (err) {
+      if (!isTransferCancelled(err)) {
+        showError('Could not download file', err instanceof Error ? err.message : undefined);
+      }
+      return undefined;
+    }
+  };
+
+  const handleSave = async () => {
+    const fileUrl = await fetchFile();
+    if (fileUrl) saveFile(fileUrl, message.fileName || 'file');
+  };
+
+  const status = busy ? (
+    <span className="flex items-center space-x-1 text-xs opacity-75">
+      {transfer.transferState === 'waiting' ? (
+        <WifiOff className="w-3 h-3" />
+      ) : transfer.transferState !== 'paused' && (
+        <Loader2 className="w-3 h-3 animate-spin" />
+      )}
+      <span>{transfer.transferState === 'paused' ? `Paused at ${progress ?? 0}%` : `${progress ?? 0}%`}</span>
+      <TransferControls transfer={transfer} />
+    </span>
+  ) : failed ? (
+    <span className="flex items-center space-x-1 text-xs text-error">
+      <AlertCircle className="w-3 h-3" />
+      <span>Failed</span>
+    </span>
+  ) : null;
+
+  // Sized up front, so nothing jumps when the picture arrives
+  const { width, height, placeholder } = attachment ?? {};
+
+  if (isImage && !url && placeholder) {
+    return (
+      <div className="relative rounded-lg overflow-hidden mt-2">
+        <img
+          src={placeholder}
+          alt={message.fileName}
+          width={width ?? 256}
+          height={height}
+          className="max-w-full h-auto rounded-lg blur-md scale-110"
+        />
+        <div className="absolute inset-0 flex flex-col items-center justify-center space-y-2 text-white">
+          {status && <span className="px-2 py-1 bg-black/50 rounded-full">{status}</span>}
+          {!busy && (
+            <button
+              onClick={fetchFile}
+              className="flex items-center space-x-1 px-3 py-1.5 bg-black/50 hover:bg-black/70 rounded-full text-xs transition-colors"
+              title="Download"
+            >
+              <Download className="w-4 h-4" />
+              <span>{sizeLabel}</span>
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  if (isImage && url) {
+    return (
+      <div className="relative rounded-lg overflow-hidden mt-2">
+        <img
+          src={url}
+          alt={message.fileName}
+          width={width}
+          height={height}
+          className="max-w-full h-auto rounded-lg cursor-pointer hover:opacity-90 transition-opacity"
+        />
+        <div className="absolute top-2 right-2">
+          <button
+            onClick={handleSave}
+            className="p-1 bg-black/50 rounded-full hover:bg-black/70 transition-colors"
+            title="Save"
+          >
+            <Download className="w-4 h-4 text-white" />
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const IconComponent = isImage ? ImageIcon : FileText;
+  return (
+    <div className={`flex items-center space-x-3 p-3 rounded-lg mt-2 ${
+      isOwn ? 'bg-white/10' : 'bg-card-highlight'
+    }`}>
+      <div className="w-10 h-10 bg-primary/20 rounded-lg flex items-center justify-center">
+        <IconComponent className="w-5 h-5 text-primary" />
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium truncate">{message.fileName}</p>
+        <div className="flex items-center space-x-2">
+          <p className="text-xs opacity-75">{sizeLabel}</p>
+          {status}
+        </div>
+      </div>
+      <button
+        onClick={handleSave}
+        disabled={busy}
+        className="p-2 hover:bg-white/10 rounded-lg transition-colors disabled:opacity-50"
+        title="Download"
+      >
+        <Download className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,141 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, Search, Hash, Loader2, Check } from 'lucide-react';
+import { useChatStore } from '../../store/chat-store';
+import { useToast } from '../ui/Toast';
+import type { ChannelInfo } from '../../lib/realtime-communication';
+
+interface Props {
+  onClose: () => void;
+  onJoined: (channelId: string) => void;
+}
+
+// Wait for a pause in typing before asking the relay
+const SEARCH_DEBOUNCE_MS = 300;
+
+export const ChannelDirectory: React.FC<Props> = ({ onClose, onJoined }) => {
+  const { chats, searchChannels, joinChannel } = useChatStore();
+  const { error: showError } = useToast();
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<ChannelInfo[] | null>(null);
+  const [joining, setJoining] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      searchChannels(query.trim())
+        .then((channels) => !cancelled && setResults(channels))
+        .catch((err) => {
+          console.error('Channel search failed:', err);
+          if (!cancelled) setResults([]);
+        });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, searchChannels]);
+
+  const handleJoin = async (channel: ChannelInfo) => {
+    setJoining(channel.channelId);
+    try {
+      await joinChannel(channel.channelId);
+      onJoined(channel.channelId);
+    } catch (err) {
+      console.error('Failed to join channel:', err);
+      showError('Could not join channel', err instanceof Error ? err.message : undefined);
+    } finally {
+      setJoining(null);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        onClick={(e) => e.stopPropagation()}
+        className="bg-foreground rounded-2xl shadow-2xl w-full max-w-md overflow-hidden"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-border">
+          <h3 className="text-lg font-semibold text-text">Find Channels</h3>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-card-highlight rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-text-muted" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-text-muted" />
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Channel name or shared id"
+              autoFocus
+              className="w-full pl-10 pr-4 py-2 bg-card-highlight border border-border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary/50"
+            />
+          </div>
+
+          <div className="max-h-72 overflow-y-auto space-y-2">
+            {results === null ? (
+              <p className="text-sm text-text-muted text-center py-8">
+                Search public channels by name, or paste an id someone shared with you.
+              </p>
+            ) : results.length === 0 ? (
+              <p className="text-sm text-text-muted text-center py-8">No channels found</p>
+            ) : (
+              results.map((channel) => {
+                const joined = chats.some(c => c.id === channel.channelId);
+                return (
+                  <div
+                    key={channel.channelId}
+                    className="flex items-center space-x-3 p-3 rounded-xl bg-card-highlight"
+                  >
+                    <div className="w-10 h-10 bg-gradient-tertiary rounded-full flex items-center justify-center flex-shrink-0">
+                      <Hash className="w-5 h-5 text-white" />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-text truncate">{channel.name}</p>
+                      <p className="text-xs text-text-muted truncate">
+                        {channel.subscriberCount} {channel.subscriberCount === 1 ? 'subscriber' : 'subscribers'}
+                        {channel.description && ` · ${channel.description}`}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => handleJoin(channel)}
+                      disabled={joined || joining !== null}
+                      className="px-3 py-1.5 bg-gradient-primary text-white text-sm rounded-lg font-medium hover:opacity-90 transition-opacity disabled:opacity-50"
+                    >
+                      {joining === channel.channelId
+                        ? <Loader2 className="w-4 h-4 animate-spin" />
+                        : joined ? <Check className="w-4 h-4" /> : 'Join'}
+                    </button>
+                  </div>
+                );
+              })
+            )}
+          </div>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
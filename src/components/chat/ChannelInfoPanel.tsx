@@ -0,0 +1,179 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, Hash, Copy, Crown, UserMinus, UserPlus, LogOut } from 'lucide-react';
+import { useChatStore } from '../../store/chat-store';
+import { useToast } from '../ui/Toast';
+import { formatDisplayName } from '../../lib/solana-name-service';
+
+interface Props {
+  chatId: string;
+  onClose: () => void;
+}
+
+/**
+ * Details of a public channel: shareable id, subscriber count and its authors
+ */
+export const ChannelInfoPanel: React.FC<Props> = ({ chatId, onClose }) => {
+  const { chats, peers, currentUser, setChannelAuthors, leaveChannel } = useChatStore();
+  const { success, error: showError } = useToast();
+  const [newAuthor, setNewAuthor] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const chat = chats.find(c => c.id === chatId);
+  if (!chat || !currentUser) return null;
+
+  const self = currentUser.publicKey;
+  const isCreator = chat.createdBy === self;
+  const authors = chat.participants;
+
+  const nameOf = (userId: string) => {
+    if (userId === self) return 'You';
+    const peer = peers.find(p => p.publicKey === userId);
+    return peer?.nickname || formatDisplayName(userId, peer?.username);
+  };
+
+  const run = async (task: () => Promise<void>, failure: string) => {
+    setBusy(true);
+    try {
+      await task();
+    } catch (err) {
+      console.error(`${failure}:`, err);
+      showError(failure, err instanceof Error ? err.message : undefined);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const copyId = async () => {
+    try {
+      await navigator.clipboard.writeText(chat.id);
+      success('Copied!', 'Share the id so others can join');
+    } catch (err) {
+      console.error('Failed to copy:', err);
+    }
+  };
+
+  const addAuthor = () => run(async () => {
+    await setChannelAuthors(chatId, [...authors, newAuthor.trim()]);
+    setNewAuthor('');
+  }, 'Could not add author');
+
+  const removeAuthor = (author: string) => run(
+    () => setChannelAuthors(chatId, authors.filter(a => a !== author)),
+    'Could not remove author'
+  );
+
+  const leave = () => run(async () => {
+    await leaveChannel(chatId);
+    onClose();
+  }, 'Could not leave channel');
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        onClick={(e) => e.stopPropagation()}
+        className="bg-foreground rounded-2xl shadow-2xl w-full max-w-md max-h-[90vh] flex flex-col overflow-hidden"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-border">
+          <h3 className="text-lg font-semibold text-text">Channel Info</h3>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-card-highlight rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-text-muted" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-6 overflow-y-auto">
+          <div className="flex items-start space-x-4">
+            <div className="w-14 h-14 bg-gradient-tertiary rounded-full flex items-center justify-center flex-shrink-0">
+              <Hash className="w-6 h-6 text-white" />
+            </div>
+            <div className="flex-1 min-w-0">
+              <p className="font-semibold text-text truncate">{chat.name}</p>
+              <p className="text-sm text-text-muted">
+                {chat.subscriberCount ?? 0} {chat.subscriberCount === 1 ? 'subscriber' : 'subscribers'} · Public
+              </p>
+              {chat.description && <p className="text-sm text-text mt-2">{chat.description}</p>}
+            </div>
+          </div>
+
+          <button
+            onClick={copyId}
+            className="w-full flex items-center justify-between px-3 py-2 bg-card-highlight rounded-lg text-left"
+            title="Copy channel id"
+          >
+            <span className="text-xs text-text-muted truncate font-mono">{chat.id}</span>
+            <Copy className="w-4 h-4 text-text-muted flex-shrink-0 ml-2" />
+          </button>
+
+          {/* Authors */}
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-text">Authors</p>
+            {authors.map((author) => (
+              <div key={author} className="flex items-center space-x-3 p-2 rounded-lg hover:bg-card-highlight">
+                <Crown className="w-4 h-4 text-primary flex-shrink-0" />
+                <p className="flex-1 text-sm text-text truncate">
+                  {nameOf(author)}
+                  {author === chat.createdBy && <span className="ml-2 text-xs text-text-muted">Creator</span>}
+                </p>
+                {isCreator && author !== chat.createdBy && (
+                  <button
+                    onClick={() => removeAuthor(author)}
+                    disabled={busy}
+                    className="p-1.5 text-error hover:bg-error/10 rounded-lg transition-colors disabled:opacity-50"
+                    title="Remove author"
+                  >
+                    <UserMinus className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            ))}
+
+            {isCreator && (
+              <div className="flex items-center space-x-2 pt-2">
+                <input
+                  type="text"
+                  value={newAuthor}
+                  onChange={(e) => setNewAuthor(e.target.value)}
+                  placeholder="Wallet address of a new author"
+                  className="flex-1 px-3 py-2 bg-card-highlight border border-border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary/50"
+                />
+                <button
+                  onClick={addAuthor}
+                  disabled={busy || !newAuthor.trim() || authors.includes(newAuthor.trim())}
+                  className="p-2 bg-gradient-primary text-white rounded-lg hover:opacity-90 transition-opacity disabled:opacity-50"
+                  title="Add author"
+                >
+                  <UserPlus className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+          </div>
+
+          {!isCreator && (
+            <button
+              onClick={leave}
+              disabled={busy}
+              className="w-full flex items-center justify-center space-x-2 py-2 text-error hover:bg-error/10 rounded-lg transition-colors disabled:opacity-50"
+            >
+              <LogOut className="w-4 h-4" />
+              <span className="text-sm font-medium">Leave channel</span>
+            </button>
+          )}
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
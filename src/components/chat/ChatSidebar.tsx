@@ -4,6 +4,7 @@ import {
   Search, 
   MessageCircle, 
   Users, 
+  Hash,
   Pin, 
   Archive, 
   MoreHorizontal,
@@ -12,6 +13,7 @@ import {
 } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 import { formatDisplayName } from '../../lib/solana-name-service';
+import { formatDuration } from '../../lib/voice-note';
 import type { Chat } from '../../types/message';
 
 interface Props {
@@ -26,7 +28,7 @@ export const ChatSidebar: React.FC<Props> = ({
   onChatSelect,
 }) => {
   const [searchQuery, setSearchQuery] = useState('');
-  const [filter, setFilter] = useState<'all' | 'unread' | 'direct'>('all');
+  const [filter, setFilter] = useState<'all' | 'unread' | 'direct' | 'channels'>('all');
 
   const filteredChats = chats.filter(chat => {
     // Apply search filter
@@ -45,6 +47,8 @@ export const ChatSidebar: React.FC<Props> = ({
         return chat.unreadCount > 0;
       case 'direct':
         return chat.type === 'direct';
+      case 'channels':
+        return chat.type === 'channel';
       default:
         return true;
     }
@@ -66,7 +70,14 @@ export const ChatSidebar: React.FC<Props> = ({
   };
 
   const getChatIcon = (chat: Chat) => {
-    return MessageCircle;
+    if (chat.type === 'channel') return Hash;
+    return chat.type === 'group' ? Users : MessageCircle;
+  };
+
+  // Public channels only learn their audience from the relay; private ones know their members
+  const getSubscriberLabel = (chat: Chat) => {
+    const count = chat.subscriberCount ?? chat.participants.length;
+    return `${count} ${count === 1 ? 'subscriber' : 'subscribers'}`;
   };
 
   const formatLastActivity = (timestamp: number) => {
@@ -103,6 +114,7 @@ export const ChatSidebar: React.FC<Props> = ({
             { key: 'all', label: 'All' },
             { key: 'unread', label: 'Unread' },
             { key: 'direct', label: 'Direct' },
+            { key: 'channels', label: 'Channels' },
           ].map((filterOption) => (
             <button
               key={filterOption.key}
@@ -172,9 +184,13 @@ export const ChatSidebar: React.FC<Props> = ({
                     <div className="flex items-start space-x-3">
                       {/* Chat Icon/Avatar */}
                       <div className="relative">
-                <div className={`w-12 h-12 rounded-full flex items-center justify-center bg-gradient-primary`}>
-                          <IconComponent className="w-6 h-6 text-white" />
-                        </div>
+                {chat.avatar ? (
+                          <img src={chat.avatar} alt="" className="w-12 h-12 rounded-full object-cover" />
+                        ) : (
+                          <div className={`w-12 h-12 rounded-full flex items-center justify-center bg-gradient-primary`}>
+                            <IconComponent className="w-6 h-6 text-white" />
+                          </div>
+                        )}
                         
                         {/* Pinned indicator */}
                         {chat.isPinned && (
@@ -213,7 +229,13 @@ export const ChatSidebar: React.FC<Props> = ({
                         {/* Last message preview */}
                         <div className="flex items-center justify-between mt-1">
                           <p className="text-sm text-text-muted truncate">
-                            {chat.lastMessage?.content || 'No messages yet'}
+                            {chat.lastMessage?.deleted
+                              ? 'Message deleted'
+                              : chat.lastMessage?.content
+                                || (chat.lastMessage?.messageType === 'voice'
+                                  && `🎤 Voice message (${formatDuration(chat.lastMessage.attachment?.duration ?? 0)})`)
+                                || (chat.lastMessage?.fileName && `📎 ${chat.lastMessage.fileName}`)
+                                || (chat.type === 'channel' ? getSubscriberLabel(chat) : 'No messages yet')}
                           </p>
                           <span className="text-xs text-text-muted flex-shrink-0 ml-2">
                             {formatLastActivity(chat.lastActivity)}
@@ -1,9 +1,10 @@
 import React, { useState, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Upload, X, File, Image, Video, Music, FileText } from 'lucide-react';
+import { canProcessImage, type ImageQuality } from '../../lib/image-processing';
 
 interface Props {
-  onFilesSelected: (files: File[]) => void;
+  onFilesSelected: (files: File[], imageQuality: ImageQuality) => void;
   onClose: () => void;
   maxFiles?: number;
   maxFileSize?: number; // in MB
@@ -19,6 +20,7 @@ export const FileUploadZone: React.FC<Props> = ({
 }) => {
   const [isDragOver, setIsDragOver] = useState(false);
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
+  const [imageQuality, setImageQuality] = useState<ImageQuality>('compressed');
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const getFileIcon = (file: File) => {
@@ -92,7 +94,7 @@ export const FileUploadZone: React.FC<Props> = ({
 
   const handleUpload = () => {
     if (selectedFiles.length > 0) {
-      onFilesSelected(selectedFiles);
+      onFilesSelected(selectedFiles, imageQuality);
       onClose();
     }
   };
@@ -206,6 +208,30 @@ export const FileUploadZone: React.FC<Props> = ({
               </div>
             </div>
           )}
+
+          {/* Photo quality; metadata is removed either way */}
+          {selectedFiles.some(file => canProcessImage(file.type)) && (
+            <div className="mt-4">
+              <div className="flex p-1 bg-card-highlight rounded-lg">
+                {(['compressed', 'original'] as const).map(quality => (
+                  <button
+                    key={quality}
+                    onClick={() => setImageQuality(quality)}
+                    className={`flex-1 px-3 py-1.5 text-sm rounded-md transition-colors ${
+                      imageQuality === quality ? 'bg-foreground text-text shadow' : 'text-text-muted hover:text-text'
+                    }`}
+                  >
+                    {quality === 'compressed' ? 'Compressed' : 'Original'}
+                  </button>
+                ))}
+              </div>
+              <p className="text-xs text-text-muted mt-2">
+                {imageQuality === 'compressed'
+                  ? 'Photos are scaled down to send faster. Location and camera details are removed.'
+                  : 'Photos keep their full resolution. Location and camera details are removed.'}
+              </p>
+            </div>
+          )}
         </div>
 
         {/* Footer */}
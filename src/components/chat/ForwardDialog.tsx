@@ -0,0 +1,179 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, Search, Forward, Hash, Users, User, Check, Loader2 } from 'lucide-react';
+import { useChatStore } from '../../store/chat-store';
+import { useToast } from '../ui/Toast';
+import { canPostIn } from '../../lib/group-admin';
+import { formatDisplayName } from '../../lib/solana-name-service';
+import type { Chat } from '../../types/message';
+
+interface Props {
+  chatId: string;
+  messageIds: string[]; // Forwarded in the order given
+  onClose: () => void;
+  onForwarded?: () => void;
+}
+
+interface Target {
+  id: string;
+  kind: 'chat' | 'peer';
+  name: string;
+  icon: typeof User;
+}
+
+/**
+ * Pick any number of chats and contacts to forward messages to
+ */
+export const ForwardDialog: React.FC<Props> = ({ chatId, messageIds, onClose, onForwarded }) => {
+  const { chats, peers, currentUser, forwardMessage } = useChatStore();
+  const { success, error: showError } = useToast();
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [sending, setSending] = useState(false);
+
+  const self = currentUser?.publicKey ?? '';
+
+  const targets = useMemo<Target[]>(() => {
+    const nameOfPeer = (userId: string) => {
+      const peer = peers.find(p => p.publicKey === userId);
+      return peer?.nickname || formatDisplayName(userId, peer?.username);
+    };
+    const chatTarget = (chat: Chat): Target => ({
+      id: chat.id,
+      kind: 'chat',
+      name: chat.name || nameOfPeer(chat.participants.find(p => p !== self) ?? self),
+      icon: chat.type === 'channel' ? Hash : chat.type === 'group' ? Users : User,
+    });
+
+    // Contacts we have not talked to yet get a direct chat when forwarded to
+    const talkedTo = new Set(chats.filter(c => c.type === 'direct').flatMap(c => c.participants));
+    return [
+      ...chats.filter(c => !c.isArchived && canPostIn(c, self)).map(chatTarget),
+      ...peers
+        .filter(p => p.publicKey !== self && !talkedTo.has(p.publicKey))
+        .map(p => ({ id: p.publicKey, kind: 'peer' as const, name: nameOfPeer(p.publicKey), icon: User })),
+    ];
+  }, [chats, peers, self]);
+
+  const visible = targets.filter(t => t.name.toLowerCase().includes(query.trim().toLowerCase()));
+
+  const toggle = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleForward = async () => {
+    const picked = targets.filter(t => selected.has(t.id));
+    const chatIds = picked.filter(t => t.kind === 'chat').map(t => t.id);
+    const peerIds = picked.filter(t => t.kind === 'peer').map(t => t.id);
+
+    setSending(true);
+    try {
+      for (const messageId of messageIds) {
+        await forwardMessage(chatId, messageId, chatIds, peerIds);
+      }
+      success('Forwarded', `Sent to ${picked.length} ${picked.length === 1 ? 'chat' : 'chats'}`);
+      onForwarded?.();
+      onClose();
+    } catch (err) {
+      console.error('Failed to forward:', err);
+      showError('Could not forward', err instanceof Error ? err.message : undefined);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        onClick={(e) => e.stopPropagation()}
+        className="bg-foreground rounded-2xl shadow-2xl w-full max-w-md overflow-hidden"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-border">
+          <h3 className="text-lg font-semibold text-text">
+            Forward {messageIds.length === 1 ? 'Message' : `${messageIds.length} Messages`}
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-card-highlight rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-text-muted" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-text-muted" />
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search chats and contacts"
+              autoFocus
+              className="w-full pl-10 pr-4 py-2 bg-card-highlight border border-border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary/50"
+            />
+          </div>
+
+          <div className="max-h-72 overflow-y-auto space-y-1">
+            {visible.length === 0 ? (
+              <p className="text-sm text-text-muted text-center py-8">No chats found</p>
+            ) : (
+              visible.map((target) => {
+                const IconComponent = target.icon;
+                const isSelected = selected.has(target.id);
+                return (
+                  <button
+                    key={target.id}
+                    onClick={() => toggle(target.id)}
+                    className={`w-full flex items-center space-x-3 p-3 rounded-xl text-left transition-colors ${
+                      isSelected ? 'bg-primary/10' : 'hover:bg-card-highlight'
+                    }`}
+                  >
+                    <div className="w-10 h-10 bg-gradient-secondary rounded-full flex items-center justify-center flex-shrink-0">
+                      <IconComponent className="w-5 h-5 text-white" />
+                    </div>
+                    <p className="flex-1 min-w-0 text-sm font-medium text-text truncate">{target.name}</p>
+                    <div
+                      className={`w-5 h-5 rounded-full border flex items-center justify-center flex-shrink-0 ${
+                        isSelected ? 'bg-primary border-primary' : 'border-border'
+                      }`}
+                    >
+                      {isSelected && <Check className="w-3 h-3 text-white" />}
+                    </div>
+                  </button>
+                );
+              })
+            )}
+          </div>
+
+          <button
+            onClick={handleForward}
+            disabled={selected.size === 0 || sending}
+            className="w-full flex items-center justify-center space-x-2 py-2 bg-gradient-primary text-white rounded-lg font-medium hover:opacity-90 transition-opacity disabled:opacity-50"
+          >
+            {sending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Forward className="w-4 h-4" />}
+            <span>Forward{selected.size > 0 && ` to ${selected.size}`}</span>
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
@@ -18,7 +18,11 @@ import type { Peer } from '../../types/message';
 
 interface Props {
   onClose: () => void;
-  onCreateGroup: (name: string, participants: string[]) => void;
+  onCreateGroup: (
+    name: string,
+    participants: string[],
+    options: { channel: boolean; isPublic: boolean; description: string }
+  ) => void;
   availablePeers: Peer[];
 }
 
@@ -36,6 +40,8 @@ export const GroupChatManager: React.FC<Props> = ({
   const [searchQuery, setSearchQuery] = useState('');
   const [directChatAddress, setDirectChatAddress] = useState('');
 
+  const isPublicChannel = chatType === 'channel' && isPublic;
+
   const filteredPeers = availablePeers.filter(peer =>
     peer.username?.toLowerCase().includes(searchQuery.toLowerCase()) ||
     peer.nickname?.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -59,7 +65,11 @@ export const GroupChatManager: React.FC<Props> = ({
       onClose();
     } else {
       if (!groupName.trim()) return;
-      onCreateGroup(groupName.trim(), Array.from(selectedPeers));
+      onCreateGroup(groupName.trim(), Array.from(selectedPeers), {
+        channel: chatType === 'channel',
+        isPublic: chatType === 'channel' && isPublic,
+        description: groupDescription.trim(),
+      });
     }
   };
 
@@ -254,8 +264,8 @@ export const GroupChatManager: React.FC<Props> = ({
                             </p>
                             <p className="text-sm text-text-muted">
                               {isPublic 
-                                ? 'Anyone can find and join this channel'
-                                : 'Only invited members can join'
+                                ? 'Anyone can find and join this channel; posts are not encrypted'
+                                : 'Only invited members can join; posts are end-to-end encrypted'
                               }
                             </p>
                           </div>
@@ -391,7 +401,8 @@ export const GroupChatManager: React.FC<Props> = ({
                     setStep('details');
                   }
                 } else if (step === 'details') {
-                  if (chatType === 'direct') {
+                  // Public channels are joined by subscribers themselves, so there are no members to pick
+                  if (chatType === 'direct' || isPublicChannel) {
                     handleCreateChat();
                   } else {
                     setStep('members');
@@ -405,6 +416,7 @@ export const GroupChatManager: React.FC<Props> = ({
             >
               {step === 'type' ? 'Next' : 
                step === 'details' && chatType === 'direct' ? 'Start Chat' :
+               step === 'details' && isPublicChannel ? 'Create Channel' :
                step === 'details' ? 'Next' : 
                `Create ${chatType === 'group' ? 'Group' : 'Channel'}`}
             </button>
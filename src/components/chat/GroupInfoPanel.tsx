@@ -0,0 +1,288 @@
+import React, { useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, Users, Hash, Crown, UserPlus, UserMinus, LogOut, Camera, Loader2 } from 'lucide-react';
+import { useChatStore } from '../../store/chat-store';
+import { useToast } from '../ui/Toast';
+import { formatDisplayName } from '../../lib/solana-name-service';
+import { groupPermissions, isGroupAdmin } from '../../lib/group-admin';
+import type { GroupEvent } from '../../types/message';
+
+interface Props {
+  chatId: string;
+  onClose: () => void;
+}
+
+const AVATAR_SIZE = 96;
+
+/**
+ * Shrink a picked image to a small square JPEG data URL, so it fits in a system message
+ */
+async function toAvatarDataUrl(file: File): Promise<string> {
+  const bitmap = await createImageBitmap(file);
+  const side = Math.min(bitmap.width, bitmap.height);
+  const canvas = document.createElement('canvas');
+  canvas.width = AVATAR_SIZE;
+  canvas.height = AVATAR_SIZE;
+  canvas.getContext('2d')!.drawImage(
+    bitmap,
+    (bitmap.width - side) / 2,
+    (bitmap.height - side) / 2,
+    side,
+    side,
+    0,
+    0,
+    AVATAR_SIZE,
+    AVATAR_SIZE
+  );
+  bitmap.close();
+  return canvas.toDataURL('image/jpeg', 0.8);
+}
+
+export const GroupInfoPanel: React.FC<Props> = ({ chatId, onClose }) => {
+  const { chats, peers, currentUser, updateGroup } = useChatStore();
+  const { success, error: showError } = useToast();
+  const chat = chats.find(c => c.id === chatId);
+  const [name, setName] = useState(chat?.name ?? '');
+  const [description, setDescription] = useState(chat?.description ?? '');
+  const [busy, setBusy] = useState<string | null>(null);
+  const avatarInputRef = useRef<HTMLInputElement>(null);
+
+  if (!chat || !currentUser) return null;
+
+  const self = currentUser.publicKey;
+  const permissions = groupPermissions(chat);
+  const isMember = chat.participants.includes(self);
+  const canEdit = isMember && permissions.canEditInfo.includes(self);
+  const canAdd = isMember && permissions.canAddMembers.includes(self);
+  const canRemove = isMember && permissions.canRemoveMembers.includes(self);
+  const isAdmin = isMember && isGroupAdmin(chat, self);
+  const candidates = peers.filter(p => !chat.participants.includes(p.publicKey));
+  // Private channels reuse the group machinery; their admins are the authors
+  const isChannel = chat.type === 'channel';
+  const noun = isChannel ? 'channel' : 'group';
+
+  const nameOf = (userId: string) => {
+    if (userId === self) return 'You';
+    const peer = peers.find(p => p.publicKey === userId);
+    return peer?.nickname || formatDisplayName(userId, peer?.username);
+  };
+
+  const run = async (key: string, event: GroupEvent, done?: string) => {
+    setBusy(key);
+    try {
+      await updateGroup(chatId, event);
+      if (done) success(done);
+    } catch (err) {
+      console.error('Group update failed:', err);
+      showError(`Could not update ${noun}`, err instanceof Error ? err.message : undefined);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const saveInfo = async () => {
+    if (name.trim() && name.trim() !== chat.name) {
+      await run('info', { kind: 'renamed', name: name.trim() });
+    }
+    if (description !== (chat.description ?? '')) {
+      await run('info', { kind: 'info_updated', description });
+    }
+  };
+
+  const changeAvatar = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      await run('avatar', { kind: 'info_updated', avatar: await toAvatarDataUrl(file) }, isChannel ? 'Channel photo updated' : 'Group photo updated');
+    } catch (err) {
+      console.error('Failed to read image:', err);
+      showError('Could not use that image');
+    }
+  };
+
+  const leave = async () => {
+    if (!confirm(`Leave this ${noun}? You will stop receiving its messages.`)) return;
+    await run('leave', { kind: 'member_removed', member: self });
+    onClose();
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        onClick={(e) => e.stopPropagation()}
+        className="bg-foreground rounded-2xl shadow-2xl w-full max-w-md max-h-[90vh] flex flex-col overflow-hidden"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-border">
+          <h3 className="text-lg font-semibold text-text">{isChannel ? 'Channel Info' : 'Group Info'}</h3>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-card-highlight rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-text-muted" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-6 overflow-y-auto">
+          {!isMember && (
+            <p className="text-sm text-warning">You are no longer a member of this {noun}.</p>
+          )}
+
+          {/* Photo, name and description */}
+          <div className="flex items-start space-x-4">
+            <button
+              onClick={() => avatarInputRef.current?.click()}
+              disabled={!canEdit || busy !== null}
+              className="relative w-16 h-16 rounded-full flex-shrink-0 overflow-hidden bg-gradient-secondary flex items-center justify-center group disabled:cursor-default"
+              title={canEdit ? `Change ${noun} photo` : undefined}
+            >
+              {chat.avatar
+                ? <img src={chat.avatar} alt="" className="w-full h-full object-cover" />
+                : isChannel
+                  ? <Hash className="w-7 h-7 text-white" />
+                  : <Users className="w-7 h-7 text-white" />}
+              {canEdit && (
+                <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 flex items-center justify-center transition-opacity">
+                  {busy === 'avatar'
+                    ? <Loader2 className="w-5 h-5 text-white animate-spin" />
+                    : <Camera className="w-5 h-5 text-white" />}
+                </div>
+              )}
+            </button>
+            <input
+              ref={avatarInputRef}
+              type="file"
+              accept="image/*"
+              className="hidden"
+              onChange={(e) => {
+                changeAvatar(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+
+            <div className="flex-1 space-y-2">
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                disabled={!canEdit}
+                maxLength={64}
+                placeholder={isChannel ? 'Channel name' : 'Group name'}
+                className="w-full px-3 py-2 bg-card-highlight border border-border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary/50 disabled:opacity-70"
+              />
+              <textarea
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                disabled={!canEdit}
+                maxLength={512}
+                rows={2}
+                placeholder={canEdit ? 'Add a description' : 'No description'}
+                className="w-full px-3 py-2 bg-card-highlight border border-border rounded-lg text-sm resize-none focus:outline-none focus:ring-2 focus:ring-primary/50 disabled:opacity-70"
+              />
+              {canEdit && (
+                <button
+                  onClick={saveInfo}
+                  disabled={busy !== null || (name.trim() === (chat.name ?? '') && description === (chat.description ?? ''))}
+                  className="px-4 py-1.5 bg-gradient-primary text-white text-sm rounded-lg font-medium hover:opacity-90 transition-opacity disabled:opacity-50"
+                >
+                  {busy === 'info' ? 'Saving...' : 'Save'}
+                </button>
+              )}
+            </div>
+          </div>
+
+          {/* Members */}
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-text">{chat.participants.length} {isChannel ? 'subscribers' : 'members'}</p>
+            {chat.participants.map((member) => {
+              const memberIsAdmin = isGroupAdmin(chat, member);
+              const isCreator = member === chat.createdBy;
+              return (
+                <div key={member} className="flex items-center space-x-3 p-2 rounded-lg hover:bg-card-highlight">
+                  <div className="w-8 h-8 bg-gradient-primary rounded-full flex items-center justify-center flex-shrink-0">
+                    <span className="text-white text-xs font-medium">{nameOf(member).replace('@', '').charAt(0).toUpperCase()}</span>
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-text truncate">{nameOf(member)}</p>
+                    {(isCreator || memberIsAdmin) && (
+                      <p className="text-xs text-primary flex items-center space-x-1">
+                        <Crown className="w-3 h-3" />
+                        <span>{isCreator ? 'Creator' : isChannel ? 'Author' : 'Admin'}</span>
+                      </p>
+                    )}
+                  </div>
+                  {member !== self && !isCreator && (
+                    <div className="flex items-center space-x-1">
+                      {isAdmin && (
+                        <button
+                          onClick={() => run(`admin:${member}`, { kind: memberIsAdmin ? 'admin_demoted' : 'admin_promoted', member })}
+                          disabled={busy !== null}
+                          className="p-1.5 text-text-muted hover:text-primary hover:bg-primary/10 rounded-lg transition-colors disabled:opacity-50"
+                          title={isChannel
+                            ? memberIsAdmin ? 'Remove as author' : 'Make author'
+                            : memberIsAdmin ? 'Remove as admin' : 'Make admin'}
+                        >
+                          <Crown className={`w-4 h-4 ${memberIsAdmin ? 'text-primary' : ''}`} />
+                        </button>
+                      )}
+                      {canRemove && (
+                        <button
+                          onClick={() => run(`remove:${member}`, { kind: 'member_removed', member })}
+                          disabled={busy !== null}
+                          className="p-1.5 text-error hover:bg-error/10 rounded-lg transition-colors disabled:opacity-50"
+                          title={`Remove from ${noun}`}
+                        >
+                          {busy === `remove:${member}`
+                            ? <Loader2 className="w-4 h-4 animate-spin" />
+                            : <UserMinus className="w-4 h-4" />}
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Add members */}
+          {canAdd && candidates.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-text">{isChannel ? 'Add subscribers' : 'Add members'}</p>
+              {candidates.map((peer) => (
+                <button
+                  key={peer.publicKey}
+                  onClick={() => run(`add:${peer.publicKey}`, { kind: 'member_added', member: peer.publicKey })}
+                  disabled={busy !== null}
+                  className="w-full flex items-center space-x-3 p-2 rounded-lg hover:bg-card-highlight transition-colors text-left disabled:opacity-50"
+                >
+                  <UserPlus className="w-4 h-4 text-primary" />
+                  <span className="text-sm text-text truncate">{nameOf(peer.publicKey)}</span>
+                </button>
+              ))}
+            </div>
+          )}
+
+          {isMember && self !== chat.createdBy && (
+            <button
+              onClick={leave}
+              disabled={busy !== null}
+              className="w-full flex items-center justify-center space-x-2 py-2 text-error hover:bg-error/10 rounded-lg transition-colors disabled:opacity-50"
+            >
+              <LogOut className="w-4 h-4" />
+              <span className="text-sm font-medium">Leave {noun}</span>
+            </button>
+          )}
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
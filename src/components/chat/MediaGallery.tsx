@@ -0,0 +1,360 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import {
+  X,
+  Images,
+  Image as ImageIcon,
+  Play,
+  FileText,
+  CheckSquare,
+  Check,
+  Download,
+  Trash2,
+} from 'lucide-react';
+import { format } from 'date-fns';
+import { useChatStore } from '../../store/chat-store';
+import { useToast } from '../ui/Toast';
+import { isTransferCancelled, saveFile } from '../../lib/file-transfer';
+import { AUTO_DOWNLOAD_BYTES, groupByMonth, mediaKind, type MediaKind } from '../../lib/media-gallery';
+import { VoiceMessage } from './VoiceMessage';
+import { MediaLightbox } from './MediaLightbox';
+import type { Message } from '../../types/message';
+
+interface Props {
+  chatId: string;
+  onClose: () => void;
+  onJumpTo: (messageId: string) => void;
+}
+
+type Tab = 'media' | 'voice' | 'files';
+
+const TABS: { id: Tab; label: string; kinds: MediaKind[] }[] = [
+  { id: 'media', label: 'Media', kinds: ['image', 'video'] },
+  { id: 'voice', label: 'Voice', kinds: ['voice'] },
+  { id: 'files', label: 'Files', kinds: ['file'] },
+];
+
+// Newest images fetched on their own when the gallery opens; older ones wait for a click
+const PREFETCH_IMAGES = 24;
+
+/**
+ * Side view of everything shared in a chat, by type and month, with a lightbox
+ * and bulk download or delete
+ */
+export const MediaGallery: React.FC<Props> = ({ chatId, onClose, onJumpTo }) => {
+  const {
+    messages,
+    mediaGallery,
+    fileUploads,
+    currentUser,
+    downloadAttachment,
+    generateThumbnail,
+    deleteMessage,
+    markVoicePlayed,
+  } = useChatStore();
+  const { success, error: showError } = useToast();
+  const [tab, setTab] = useState<Tab>('media');
+  const [selecting, setSelecting] = useState(false);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const media = useMemo(() => {
+    const byId = new Map((messages[chatId] || []).map(m => [m.id, m]));
+    return (mediaGallery[chatId] || []).map(id => byId.get(id)).filter((m): m is Message => !!m);
+  }, [messages, mediaGallery, chatId]);
+
+  const kinds = TABS.find(t => t.id === tab)!.kinds;
+  const groups = useMemo(
+    () => groupByMonth(media.filter(m => kinds.includes(mediaKind(m)!))),
+    [media, kinds]
+  );
+  const ordered = useMemo(() => groups.flatMap(g => g.messages), [groups]);
+  const counts = useMemo(() => Object.fromEntries(TABS.map(t => [
+    t.id,
+    media.filter(m => t.kinds.includes(mediaKind(m)!)).length,
+  ])), [media]);
+
+  useEffect(() => {
+    setSelected(new Set());
+    setLightboxIndex(null);
+  }, [tab, chatId]);
+
+  // Fill in thumbnails: fetch the newest small images, and draw any we already hold
+  useEffect(() => {
+    if (tab !== 'media') return;
+    let prefetched = 0;
+    ordered.forEach(message => {
+      const attachment = message.attachment;
+      if (!attachment) return;
+      const file = fileUploads[attachment.blobId];
+      if (file?.url && !file.thumbnail) {
+        generateThumbnail(attachment.blobId);
+      } else if (!file && mediaKind(message) === 'image' && attachment.size <= AUTO_DOWNLOAD_BYTES &&
+        prefetched++ < PREFETCH_IMAGES) {
+        downloadAttachment(attachment).catch(() => {});
+      }
+    });
+  }, [tab, ordered, fileUploads, generateThumbnail, downloadAttachment]);
+
+  const toggleSelected = (messageId: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(messageId)) next.delete(messageId);
+      else next.add(messageId);
+      return next;
+    });
+  };
+
+  const stopSelecting = () => {
+    setSelecting(false);
+    setSelected(new Set());
+  };
+
+  const open = (message: Message) => {
+    if (selecting) toggleSelected(message.id);
+    else setLightboxIndex(ordered.indexOf(message));
+  };
+
+  const targets = ordered.filter(m => selected.has(m.id));
+
+  const handleDownload = async () => {
+    setBusy(true);
+    let failed = 0;
+    for (const message of targets) {
+      try {
+        const attachment = message.attachment;
+        const url = (attachment && fileUploads[attachment.blobId]?.url) || message.fileUrl ||
+          (attachment && await downloadAttachment(attachment));
+        if (url) saveFile(url, message.fileName || 'file');
+      } catch (err) {
+        if (!isTransferCancelled(err)) failed++;
+      }
+    }
+    setBusy(false);
+    if (failed) showError('Some files were not downloaded', `${failed} of ${targets.length} failed`);
+    stopSelecting();
+  };
+
+  const handleDelete = async () => {
+    const noun = targets.length === 1 ? 'message' : 'messages';
+    if (!confirm(`Delete ${targets.length} ${noun} and their files from this device? Others keep their copies.`)) return;
+
+    setBusy(true);
+    let failed = 0;
+    for (const message of targets) {
+      try {
+        await deleteMessage(chatId, message.id, false);
+      } catch {
+        failed++;
+      }
+    }
+    setBusy(false);
+    if (failed) showError('Some messages were not deleted', `${failed} of ${targets.length} failed`);
+    else success(`Deleted ${targets.length} ${noun}`);
+    stopSelecting();
+  };
+
+  const renderTile = (message: Message) => {
+    const file = message.attachment ? fileUploads[message.attachment.blobId] : undefined;
+    const kind = mediaKind(message);
+    const preview = file?.thumbnail || (kind === 'image' ? file?.url || message.fileUrl : undefined);
+    const placeholder = kind === 'image' ? message.attachment?.placeholder : undefined;
+    return (
+      <button
+        key={message.id}
+        onClick={() => open(message)}
+        className={`relative aspect-square rounded-lg overflow-hidden bg-card-highlight flex items-center justify-center ${
+          selected.has(message.id) ? 'ring-2 ring-primary' : 'hover:opacity-90'
+        }`}
+        title={message.fileName}
+      >
+        {preview ? (
+          <img src={preview} alt={message.fileName} className="w-full h-full object-cover" />
+        ) : placeholder ? (
+          <img src={placeholder} alt={message.fileName} className="w-full h-full object-cover blur-sm scale-110" />
+        ) : (
+          <ImageIcon className="w-6 h-6 text-text-muted" />
+        )}
+        {kind === 'video' && (
+          <span className="absolute inset-0 flex items-center justify-center">
+            <span className="p-1.5 bg-black/50 rounded-full">
+              <Play className="w-4 h-4 text-white" />
+            </span>
+          </span>
+        )}
+        {selecting && renderCheck(message.id, 'absolute top-1 right-1')}
+      </button>
+    );
+  };
+
+  const renderCheck = (messageId: string, className: string) => (
+    <span className={`${className} w-5 h-5 rounded-full border-2 flex items-center justify-center ${
+      selected.has(messageId) ? 'bg-primary border-primary' : 'bg-black/30 border-white'
+    }`}>
+      {selected.has(messageId) && <Check className="w-3 h-3 text-white" />}
+    </span>
+  );
+
+  const renderRow = (message: Message) => {
+    const isOwn = message.sender === currentUser?.publicKey;
+    const meta = `${isOwn ? 'You' : message.senderUsername || `${message.sender.slice(0, 4)}...${message.sender.slice(-4)}`} · ${format(new Date(message.timestamp), 'MMM d')}`;
+
+    if (tab === 'voice') {
+      return (
+        <div
+          key={message.id}
+          className={`px-3 py-2 rounded-lg ${selected.has(message.id) ? 'bg-primary/10' : ''}`}
+          onClick={() => selecting && toggleSelected(message.id)}
+        >
+          <div className="flex items-center justify-between text-xs text-text-muted">
+            <span className="truncate">{meta}</span>
+            {selecting && renderCheck(message.id, 'flex-shrink-0')}
+          </div>
+          <div className={selecting ? 'pointer-events-none' : ''}>
+            <VoiceMessage message={message} isOwn={isOwn} onPlayed={() => markVoicePlayed(chatId, message.id)} />
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <button
+        key={message.id}
+        onClick={() => open(message)}
+        className={`w-full flex items-center space-x-3 px-3 py-2 rounded-lg text-left transition-colors ${
+          selected.has(message.id) ? 'bg-primary/10' : 'hover:bg-card-highlight'
+        }`}
+      >
+        <div className="w-10 h-10 bg-primary/20 rounded-lg flex items-center justify-center flex-shrink-0">
+          <FileText className="w-5 h-5 text-primary" />
+        </div>
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium text-text truncate">{message.fileName || 'file'}</p>
+          <p className="text-xs text-text-muted truncate">
+            {message.fileSize ? `${(message.fileSize / 1024).toFixed(1)} KB · ` : ''}{meta}
+          </p>
+        </div>
+        {selecting && renderCheck(message.id, 'flex-shrink-0')}
+      </button>
+    );
+  };
+
+  return (
+    <>
+      <motion.aside
+        initial={{ x: '100%' }}
+        animate={{ x: 0 }}
+        exit={{ x: '100%' }}
+        transition={{ type: 'spring', stiffness: 300, damping: 30 }}
+        className="absolute inset-y-0 right-0 w-96 max-w-full z-30 bg-foreground border-l border-border shadow-2xl flex flex-col"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-border">
+          <div className="flex items-center space-x-2">
+            <Images className="w-4 h-4 text-primary" />
+            <h3 className="font-semibold text-text">Shared media</h3>
+          </div>
+          <div className="flex items-center space-x-1">
+            <button
+              onClick={() => (selecting ? stopSelecting() : setSelecting(true))}
+              disabled={ordered.length === 0}
+              className={`p-2 rounded-lg transition-colors disabled:opacity-50 ${
+                selecting ? 'bg-primary/20 text-primary' : 'hover:bg-card-highlight text-text-muted'
+              }`}
+              title={selecting ? 'Done selecting' : 'Select'}
+            >
+              <CheckSquare className="w-4 h-4" />
+            </button>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-card-highlight rounded-lg transition-colors"
+            >
+              <X className="w-4 h-4 text-text-muted" />
+            </button>
+          </div>
+        </div>
+
+        {/* Tabs */}
+        <div className="flex border-b border-border">
+          {TABS.map(t => (
+            <button
+              key={t.id}
+              onClick={() => setTab(t.id)}
+              className={`flex-1 py-2 text-sm font-medium transition-colors ${
+                tab === t.id ? 'text-primary border-b-2 border-primary' : 'text-text-muted hover:text-text'
+              }`}
+            >
+              {t.label} <span className="text-xs opacity-75">{counts[t.id]}</span>
+            </button>
+          ))}
+        </div>
+
+        {/* Items by month */}
+        <div className="flex-1 overflow-y-auto p-3 space-y-4">
+          {groups.length === 0 ? (
+            <p className="text-sm text-text-muted text-center py-8">Nothing shared yet</p>
+          ) : groups.map(group => (
+            <section key={group.key}>
+              <h4 className="text-xs font-semibold text-text-muted uppercase tracking-wide mb-2">{group.label}</h4>
+              {tab === 'media' ? (
+                <div className="grid grid-cols-3 gap-1">{group.messages.map(renderTile)}</div>
+              ) : (
+                <div className="space-y-1">{group.messages.map(renderRow)}</div>
+              )}
+            </section>
+          ))}
+        </div>
+
+        {/* Bulk actions */}
+        <AnimatePresence>
+          {selecting && (
+            <motion.div
+              initial={{ y: 20, opacity: 0 }}
+              animate={{ y: 0, opacity: 1 }}
+              exit={{ y: 20, opacity: 0 }}
+              className="flex items-center justify-between p-3 border-t border-border"
+            >
+              <span className="text-sm text-text-muted">{selected.size} selected</span>
+              <div className="flex items-center space-x-1">
+                <button
+                  onClick={handleDownload}
+                  disabled={busy || selected.size === 0}
+                  className="p-2 hover:bg-card-highlight rounded-lg transition-colors disabled:opacity-50"
+                  title="Download"
+                >
+                  <Download className="w-4 h-4 text-text-muted" />
+                </button>
+                <button
+                  onClick={handleDelete}
+                  disabled={busy || selected.size === 0}
+                  className="p-2 hover:bg-card-highlight rounded-lg transition-colors disabled:opacity-50"
+                  title="Delete for me"
+                >
+                  <Trash2 className="w-4 h-4 text-error" />
+                </button>
+              </div>
+            </motion.div>
+          )}
+        </AnimatePresence>
+      </motion.aside>
+
+      {/* Outside the panel, whose transform would otherwise contain it */}
+      <AnimatePresence>
+        {lightboxIndex !== null && (
+          <MediaLightbox
+            chatId={chatId}
+            items={ordered}
+            index={lightboxIndex}
+            onIndexChange={setLightboxIndex}
+            onClose={() => setLightboxIndex(null)}
+            onJumpTo={(messageId) => {
+              setLightboxIndex(null);
+              onJumpTo(messageId);
+            }}
+          />
+        )}
+      </AnimatePresence>
+    </>
+  );
+};
@@ -0,0 +1,182 @@
+import React, { useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { X, ChevronLeft, ChevronRight, Download, FileText, Loader2, MessageSquare } from 'lucide-react';
+import { format } from 'date-fns';
+import { useHotkeys } from 'react-hotkeys-hook';
+import { useChatStore } from '../../store/chat-store';
+import { useToast } from '../ui/Toast';
+import { isTransferCancelled, saveFile } from '../../lib/file-transfer';
+import { mediaKind } from '../../lib/media-gallery';
+import { VoiceMessage } from './VoiceMessage';
+import type { Message } from '../../types/message';
+
+interface Props {
+  chatId: string;
+  items: Message[]; // In the order the arrow keys step through
+  index: number;
+  onIndexChange: (index: number) => void;
+  onClose: () => void;
+  onJumpTo?: (messageId: string) => void;
+}
+
+/**
+ * Full-screen view of one gallery item; arrow keys step through the rest
+ */
+export const MediaLightbox: React.FC<Props> = ({ chatId, items, index, onIndexChange, onClose, onJumpTo }) => {
+  const { fileUploads, currentUser, downloadAttachment, markVoicePlayed } = useChatStore();
+  const { error: showError } = useToast();
+
+  const message = items[index];
+  const kind = message ? mediaKind(message) : null;
+  const attachment = message?.attachment;
+  const transfer = attachment ? fileUploads[attachment.blobId] : undefined;
+  const url = transfer?.url || message?.fileUrl;
+  const name = message?.fileName || 'file';
+
+  const step = (delta: number) => {
+    const next = index + delta;
+    if (next >= 0 && next < items.length) onIndexChange(next);
+  };
+
+  useHotkeys('left', () => step(-1), [index, items.length]);
+  useHotkeys('right', () => step(1), [index, items.length]);
+  useHotkeys('escape', onClose);
+
+  // Pictures and videos are what a lightbox is for, so fetch them right away
+  useEffect(() => {
+    if (!attachment || url || transfer || (kind !== 'image' && kind !== 'video')) return;
+    downloadAttachment(attachment).catch(() => {});
+  }, [attachment, url, transfer, kind, downloadAttachment]);
+
+  // The item can disappear under us, e.g. when it is deleted elsewhere
+  useEffect(() => {
+    if (!message) onClose();
+  }, [message, onClose]);
+  if (!message) return null;
+
+  const handleSave = async () => {
+    try {
+      const fileUrl = url || (attachment && await downloadAttachment(attachment));
+      if (fileUrl) saveFile(fileUrl, name);
+    } catch (err) {
+      if (!isTransferCancelled(err)) {
+        showError('Could not download file', err instanceof Error ? err.message : undefined);
+      }
+    }
+  };
+
+  const renderItem = () => {
+    if (kind === 'voice') {
+      return (
+        <div className="bg-foreground rounded-2xl p-4 w-full max-w-md">
+          <VoiceMessage
+            message={message}
+            isOwn={message.sender === currentUser?.publicKey}
+            onPlayed={() => markVoicePlayed(chatId, message.id)}
+          />
+        </div>
+      );
+    }
+    if ((kind === 'image' || kind === 'video') && url) {
+      return kind === 'image' ? (
+        <img src={url} alt={name} className="max-w-full max-h-full object-contain rounded-lg" />
+      ) : (
+        <video src={url} controls autoPlay className="max-w-full max-h-full rounded-lg" />
+      );
+    }
+    if (kind === 'image' || kind === 'video') {
+      return (
+        <div className="flex flex-col items-center space-y-2 text-white/80">
+          <Loader2 className="w-8 h-8 animate-spin" />
+          <span className="text-sm">{transfer?.downloadProgress ?? 0}%</span>
+        </div>
+      );
+    }
+    return (
+      <div className="flex flex-col items-center space-y-3 bg-foreground rounded-2xl p-8">
+        <FileText className="w-12 h-12 text-primary" />
+        <p className="text-text font-medium break-all text-center">{name}</p>
+        <p className="text-sm text-text-muted">
+          {message.fileSize ? `${(message.fileSize / 1024).toFixed(1)} KB` : 'Unknown size'}
+        </p>
+      </div>
+    );
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/90 z-50 flex flex-col"
+      onClick={onClose}
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between p-4 text-white" onClick={(e) => e.stopPropagation()}>
+        <div className="min-w-0">
+          <p className="font-medium truncate">{name}</p>
+          <p className="text-xs text-white/60">
+            {format(new Date(message.timestamp), 'PPp')} · {index + 1} of {items.length}
+          </p>
+        </div>
+        <div className="flex items-center space-x-1">
+          {onJumpTo && (
+            <button
+              onClick={() => onJumpTo(message.id)}
+              className="p-2 hover:bg-white/10 rounded-lg transition-colors"
+              title="Show in chat"
+            >
+              <MessageSquare className="w-5 h-5" />
+            </button>
+          )}
+          <button
+            onClick={handleSave}
+            className="p-2 hover:bg-white/10 rounded-lg transition-colors"
+            title="Save"
+          >
+            <Download className="w-5 h-5" />
+          </button>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-white/10 rounded-lg transition-colors"
+            title="Close"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      {/* Item */}
+      <div className="flex-1 flex items-center justify-center min-h-0 px-16 pb-8 relative">
+        <div className="max-w-full max-h-full flex items-center justify-center" onClick={(e) => e.stopPropagation()}>
+          {renderItem()}
+        </div>
+
+        {index > 0 && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              step(-1);
+            }}
+            className="absolute left-4 p-2 bg-white/10 hover:bg-white/20 rounded-full transition-colors text-white"
+            title="Previous"
+          >
+            <ChevronLeft className="w-6 h-6" />
+          </button>
+        )}
+        {index < items.length - 1 && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              step(1);
+            }}
+            className="absolute right-4 p-2 bg-white/10 hover:bg-white/20 rounded-full transition-colors text-white"
+            title="Next"
+          >
+            <ChevronRight className="w-6 h-6" />
+          </button>
+        )}
+      </div>
+    </motion.div>
+  );
+};
@@ -9,13 +9,18 @@ import {
   Star, 
   Download, 
   Flag,
-  Pin
+  Pin,
+  RotateCw,
+  CheckSquare
 } from 'lucide-react';
 import type { Message } from '../../types/message';
 
 interface Props {
   message: Message;
   isOwn: boolean;
+  isPinned?: boolean;
+  canPin?: boolean;
+  isSelected?: boolean;
   onClose: () => void;
   onAction: (action: string) => void;
 }
@@ -23,18 +28,23 @@ interface Props {
 export const MessageContextMenu: React.FC<Props> = ({
   message,
   isOwn,
+  isPinned = false,
+  canPin = false,
+  isSelected = false,
   onClose,
   onAction,
 }) => {
   const menuItems = [
+    { id: 'retry', label: 'Retry', icon: RotateCw, show: isOwn && message.status === 'failed' },
     { id: 'reply', label: 'Reply', icon: Reply, show: true },
-    { id: 'forward', label: 'Forward', icon: Forward, show: true },
+    { id: 'select', label: isSelected ? 'Deselect' : 'Select', icon: CheckSquare, show: true },
+    { id: 'forward', label: 'Forward', icon: Forward, show: !message.deleted && message.messageType !== 'system' },
     { id: 'copy', label: 'Copy', icon: Copy, show: !!message.content },
-    { id: 'star', label: 'Star', icon: Star, show: true },
-    { id: 'pin', label: 'Pin', icon: Pin, show: true },
-    { id: 'download', label: 'Download', icon: Download, show: !!message.fileUrl },
-    { id: 'edit', label: 'Edit', icon: Edit3, show: isOwn && !!message.content },
-    { id: 'delete', label: 'Delete', icon: Trash2, show: isOwn, danger: true },
+    { id: 'star', label: message.starred ? 'Unstar' : 'Star', icon: Star, show: !message.deleted },
+    { id: 'pin', label: isPinned ? 'Unpin' : 'Pin', icon: Pin, show: canPin && !message.deleted },
+    { id: 'download', label: 'Download', icon: Download, show: !!message.fileUrl || !!message.attachment },
+    { id: 'edit', label: 'Edit', icon: Edit3, show: isOwn && message.messageType === 'text' && !!message.content },
+    { id: 'delete', label: 'Delete', icon: Trash2, show: true, danger: true },
     { id: 'report', label: 'Report', icon: Flag, show: !isOwn, danger: true },
   ].filter(item => item.show);
 
@@ -1,5 +1,7 @@
-import React from 'react';
-import { motion } from 'framer-motion';
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useChatStore } from '../../store/chat-store';
+import { formatDisplayName } from '../../lib/solana-name-service';
 import type { MessageReaction } from '../../types/message';
 
 interface Props {
@@ -13,32 +15,66 @@ export const MessageReactions: React.FC<Props> = ({
   onReactionClick,
   currentUserId,
 }) => {
+  const { peers, currentUser } = useChatStore();
+  const [hoveredEmoji, setHoveredEmoji] = useState<string | null>(null);
+  const selfId = currentUserId ?? currentUser?.publicKey;
+
   if (!reactions || reactions.length === 0) return null;
 
+  const nameOf = (userId: string) => {
+    if (userId === selfId) return 'You';
+    const peer = peers.find(p => p.publicKey === userId);
+    return peer?.nickname || formatDisplayName(userId, peer?.username);
+  };
+
   return (
     <div className="flex flex-wrap gap-1 mt-2">
       {reactions.map((reaction, index) => {
-        const hasReacted = currentUserId && reaction.users.includes(currentUserId);
-        
+        const hasReacted = selfId && reaction.users.includes(selfId);
+
         return (
-          <motion.button
+          <div
             key={`${reaction.emoji}-${index}`}
-            initial={{ scale: 0 }}
-            animate={{ scale: 1 }}
-            whileHover={{ scale: 1.1 }}
-            whileTap={{ scale: 0.9 }}
-            onClick={() => onReactionClick(reaction.emoji)}
-            className={`flex items-center space-x-1 px-2 py-1 rounded-full text-xs transition-all ${
-              hasReacted
-                ? 'bg-primary/20 border border-primary/50'
-                : 'bg-card-highlight border border-border hover:border-primary/30'
-            }`}
+            className="relative"
+            onMouseEnter={() => setHoveredEmoji(reaction.emoji)}
+            onMouseLeave={() => setHoveredEmoji(null)}
           >
-            <span>{reaction.emoji}</span>
-            <span className={hasReacted ? 'text-primary font-medium' : 'text-text-muted'}>
-              {reaction.count}
-            </span>
-          </motion.button>
+            <motion.button
+              initial={{ scale: 0 }}
+              animate={{ scale: 1 }}
+              whileHover={{ scale: 1.1 }}
+              whileTap={{ scale: 0.9 }}
+              onClick={() => onReactionClick(reaction.emoji)}
+              className={`flex items-center space-x-1 px-2 py-1 rounded-full text-xs transition-all ${
+                hasReacted
+                  ? 'bg-primary/20 border border-primary/50'
+                  : 'bg-card-highlight border border-border hover:border-primary/30'
+              }`}
+            >
+              <span>{reaction.emoji}</span>
+              <span className={hasReacted ? 'text-primary font-medium' : 'text-text-muted'}>
+                {reaction.count}
+              </span>
+            </motion.button>
+
+            {/* Who reacted */}
+            <AnimatePresence>
+              {hoveredEmoji === reaction.emoji && (
+                <motion.div
+                  initial={{ opacity: 0, y: 4 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, y: 4 }}
+                  className="absolute bottom-full left-0 mb-1 z-20 min-w-32 max-w-56 max-h-40 overflow-y-auto bg-foreground border border-border rounded-lg shadow-lg py-1"
+                >
+                  {reaction.users.map(userId => (
+                    <p key={userId} className="px-3 py-1 text-xs text-text truncate">
+                      {nameOf(userId)}
+                    </p>
+                  ))}
+                </motion.div>
+              )}
+            </AnimatePresence>
+          </div>
         );
       })}
     </div>
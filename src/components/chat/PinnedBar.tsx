@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Pin, ChevronDown, ChevronUp, X } from 'lucide-react';
+import type { Message, PinnedMessage } from '../../types/message';
+
+interface Props {
+  pins: PinnedMessage[];
+  messagesById: Map<string, Message>;
+  onJump: (messageId: string) => void;
+  onUnpin?: (messageId: string) => void; // Omitted when we may not change pins
+}
+
+/**
+ * Pinned messages of a chat: the newest pin, expandable to all of them
+ */
+export const PinnedBar: React.FC<Props> = ({ pins, messagesById, onJump, onUnpin }) => {
+  const [expanded, setExpanded] = useState(false);
+
+  // Pins of messages we never received have nothing to show or jump to
+  const shown = pins.filter(p => messagesById.has(p.messageId)).reverse();
+  if (shown.length === 0) return null;
+
+  const preview = (messageId: string) => {
+    const message = messagesById.get(messageId)!;
+    return message.content || message.fileName || 'Attachment';
+  };
+
+  const renderPin = (pin: PinnedMessage) => (
+    <div key={pin.messageId} className="flex items-center space-x-2">
+      <button
+        onClick={() => onJump(pin.messageId)}
+        className="flex-1 min-w-0 text-left text-sm text-text truncate hover:underline"
+        title="Go to message"
+      >
+        {preview(pin.messageId)}
+      </button>
+      {onUnpin && (
+        <button
+          onClick={() => onUnpin(pin.messageId)}
+          className="p-1 hover:bg-card-highlight rounded transition-colors flex-shrink-0"
+          title="Unpin"
+        >
+          <X className="w-3 h-3 text-text-muted" />
+        </button>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="px-4 py-2 border-b border-border bg-foreground/80">
+      <div className="flex items-center space-x-3">
+        <Pin className="w-4 h-4 text-primary flex-shrink-0" />
+        <div className="flex-1 min-w-0">
+          <p className="text-xs font-medium text-primary">
+            {shown.length === 1 ? 'Pinned message' : `${shown.length} pinned messages`}
+          </p>
+          {!expanded && renderPin(shown[0])}
+        </div>
+        {shown.length > 1 && (
+          <button
+            onClick={() => setExpanded(!expanded)}
+            className="p-1 hover:bg-card-highlight rounded-lg transition-colors flex-shrink-0"
+            title={expanded ? 'Collapse' : 'Show all pins'}
+          >
+            {expanded
+              ? <ChevronUp className="w-4 h-4 text-text-muted" />
+              : <ChevronDown className="w-4 h-4 text-text-muted" />}
+          </button>
+        )}
+      </div>
+
+      <AnimatePresence>
+        {expanded && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            className="overflow-hidden pl-7 mt-1 space-y-1 max-h-48 overflow-y-auto"
+          >
+            {shown.map(renderPin)}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Copy, Forward, Trash2, Star, Download } from 'lucide-react';
+import { useChatStore } from '../../store/chat-store';
+import { useToast } from '../ui/Toast';
+import { authorizeMessageDeletion } from '../../lib/message-edits';
+import { downloadTranscript, formatTranscript } from '../../lib/transcript';
+import { formatDisplayName } from '../../lib/solana-name-service';
+import type { Message } from '../../types/message';
+
+interface Props {
+  chatId: string;
+  chatTitle: string; // Names exported transcripts
+  selected: Message[]; // Oldest first
+  onForward: (messageIds: string[]) => void;
+  onClear: () => void;
+}
+
+/**
+ * Actions on every selected message at once
+ */
+export const SelectionToolbar: React.FC<Props> = ({ chatId, chatTitle, selected, onForward, onClear }) => {
+  const { chats, peers, currentUser, deleteMessage, setStarred } = useChatStore();
+  const { success, error: showError } = useToast();
+  const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const chat = chats.find(c => c.id === chatId);
+  const self = currentUser?.publicKey;
+
+  const nameOf = (userId: string) => {
+    if (userId === self) return currentUser?.username ? `@${currentUser.username}` : 'You';
+    const peer = peers.find(p => p.publicKey === userId);
+    return peer?.nickname || formatDisplayName(userId, peer?.username);
+  };
+
+  const live = selected.filter(m => !m.deleted);
+  const allStarred = live.length > 0 && live.every(m => m.starred);
+  const canDeleteForEveryone = !!chat && !!self &&
+    live.length > 0 && live.every(m => !authorizeMessageDeletion(chat, m, self));
+
+  const copyTranscript = async () => {
+    try {
+      await navigator.clipboard.writeText(formatTranscript(selected, nameOf));
+      success('Copied!', `${selected.length} ${selected.length === 1 ? 'message' : 'messages'} copied to clipboard`);
+      onClear();
+    } catch (err) {
+      console.error('Failed to copy:', err);
+    }
+  };
+
+  const exportTranscript = () => {
+    downloadTranscript(formatTranscript(selected, nameOf), chatTitle);
+    onClear();
+  };
+
+  const toggleStars = () => {
+    setStarred(chatId, live.map(m => m.id), !allStarred);
+    onClear();
+  };
+
+  const handleDelete = async (forEveryone: boolean) => {
+    setShowDeleteDialog(false);
+    setBusy(true);
+    // Tombstones are already gone for everyone
+    const targets = forEveryone ? live : selected;
+    let failed = 0;
+    for (const message of targets) {
+      try {
+        await deleteMessage(chatId, message.id, forEveryone);
+      } catch (err) {
+        console.error(`Failed to delete ${message.id}:`, err);
+        failed++;
+      }
+    }
+    setBusy(false);
+    if (failed) showError('Some messages were not deleted', `${failed} of ${targets.length} failed`);
+    onClear();
+  };
+
+  const actions = [
+    { id: 'copy', label: 'Copy', icon: Copy, onClick: copyTranscript, disabled: false },
+    { id: 'forward', label: 'Forward', icon: Forward, onClick: () => onForward(live.map(m => m.id)), disabled: live.length === 0 },
+    { id: 'star', label: allStarred ? 'Unstar' : 'Star', icon: Star, onClick: toggleStars, disabled: live.length === 0 },
+    { id: 'export', label: 'Export', icon: Download, onClick: exportTranscript, disabled: false },
+    { id: 'delete', label: 'Delete', icon: Trash2, onClick: () => setShowDeleteDialog(true), disabled: busy },
+  ];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -10 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -10 }}
+      className="flex items-center justify-between px-4 py-2 border-b border-border bg-primary/10"
+    >
+      <div className="flex items-center space-x-3">
+        <button
+          onClick={onClear}
+          className="p-2 hover:bg-card-highlight rounded-lg transition-colors"
+          title="Clear selection (Esc)"
+        >
+          <X className="w-4 h-4 text-text-muted" />
+        </button>
+        <span className="text-sm font-medium text-text">{selected.length} selected</span>
+      </div>
+
+      <div className="flex items-center space-x-1">
+        {actions.map((action) => {
+          const IconComponent = action.icon;
+          return (
+            <button
+              key={action.id}
+              onClick={action.onClick}
+              disabled={action.disabled}
+              className={`p-2 rounded-lg transition-colors disabled:opacity-50 ${
+                action.id === 'delete' ? 'text-error hover:bg-error/10' : 'text-text-muted hover:bg-card-highlight'
+              }`}
+              title={action.label}
+            >
+              <IconComponent className="w-4 h-4" />
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Delete dialog */}
+      <AnimatePresence>
+        {showDeleteDialog && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4"
+            onClick={() => setShowDeleteDialog(false)}
+          >
+            <motion.div
+              initial={{ scale: 0.9, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 0.9, opacity: 0 }}
+              onClick={(e) => e.stopPropagation()}
+              className="bg-foreground rounded-2xl shadow-2xl w-full max-w-xs p-4 space-y-2"
+            >
+              <p className="text-sm font-medium text-text pb-2">
+                Delete {selected.length} {selected.length === 1 ? 'message' : 'messages'}?
+              </p>
+              {canDeleteForEveryone && (
+                <button
+                  onClick={() => handleDelete(true)}
+                  className="w-full py-2 text-sm text-error hover:bg-error/10 rounded-lg transition-colors"
+                >
+                  Delete for everyone
+                </button>
+              )}
+              <button
+                onClick={() => handleDelete(false)}
+                className="w-full py-2 text-sm text-error hover:bg-error/10 rounded-lg transition-colors"
+              >
+                Delete for me
+              </button>
+              <button
+                onClick={() => setShowDeleteDialog(false)}
+                className="w-full py-2 text-sm text-text-muted hover:bg-card-highlight rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </motion.div>
+  );
+};
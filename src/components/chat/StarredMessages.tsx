@@ -0,0 +1,107 @@
+import React, { useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { X, Star } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { useChatStore } from '../../store/chat-store';
+import { formatDisplayName } from '../../lib/solana-name-service';
+
+interface Props {
+  onClose: () => void;
+  onOpen: (chatId: string, messageId: string) => void;
+}
+
+/**
+ * Every message we starred, across all chats, newest first
+ */
+export const StarredMessages: React.FC<Props> = ({ onClose, onOpen }) => {
+  const { chats, messages, peers, currentUser, toggleStar } = useChatStore();
+  const self = currentUser?.publicKey;
+
+  const nameOf = (userId: string) => {
+    if (userId === self) return 'You';
+    const peer = peers.find(p => p.publicKey === userId);
+    return peer?.nickname || formatDisplayName(userId, peer?.username);
+  };
+
+  const starred = useMemo(() => Object.entries(messages)
+    .flatMap(([chatId, list]) => list.filter(m => m.starred).map(message => ({ chatId, message })))
+    .sort((a, b) => b.message.timestamp - a.message.timestamp), [messages]);
+
+  const chatName = (chatId: string) => {
+    const chat = chats.find(c => c.id === chatId);
+    if (!chat) return 'Unknown chat';
+    return chat.name || nameOf(chat.participants.find(p => p !== self) ?? chat.createdBy);
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        onClick={(e) => e.stopPropagation()}
+        className="bg-foreground rounded-2xl shadow-2xl w-full max-w-md max-h-[90vh] flex flex-col overflow-hidden"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-border">
+          <h3 className="text-lg font-semibold text-text">Starred Messages</h3>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-card-highlight rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-text-muted" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-4 overflow-y-auto space-y-1">
+          {starred.length === 0 ? (
+            <p className="text-sm text-text-muted text-center py-8">
+              Star a message from its menu to find it here later.
+            </p>
+          ) : (
+            starred.map(({ chatId, message }) => (
+              <div
+                key={`${chatId}-${message.id}`}
+                className="flex items-start space-x-2 p-3 rounded-xl hover:bg-card-highlight transition-colors"
+              >
+                <button
+                  onClick={() => onOpen(chatId, message.id)}
+                  className="flex-1 min-w-0 text-left"
+                  title="Show in conversation"
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="text-xs font-medium text-primary truncate">
+                      {nameOf(message.sender)} · {chatName(chatId)}
+                    </span>
+                    <span className="text-xs text-text-muted flex-shrink-0 ml-2">
+                      {formatDistanceToNow(new Date(message.timestamp), { addSuffix: true })}
+                    </span>
+                  </div>
+                  <p className={`text-sm break-words whitespace-pre-wrap mt-0.5 line-clamp-3 ${
+                    message.deleted ? 'italic text-text-muted' : 'text-text'
+                  }`}>
+                    {message.deleted ? 'This message was deleted' : message.content || message.fileName}
+                  </p>
+                </button>
+                <button
+                  onClick={() => toggleStar(chatId, message.id)}
+                  className="p-1.5 hover:bg-card-highlight rounded-lg transition-colors flex-shrink-0"
+                  title="Unstar"
+                >
+                  <Star className="w-4 h-4 text-warning fill-current" />
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
@@ -0,0 +1,143 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, Send, MessageSquare } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { useChatStore } from '../../store/chat-store';
+import { useToast } from '../ui/Toast';
+import type { Message } from '../../types/message';
+
+interface Props {
+  chatId: string;
+  rootId: string; // The thread is named after its first message
+  recipientId: string;
+  readOnly?: boolean;
+  onClose: () => void;
+  onJumpTo: (messageId: string) => void;
+}
+
+/**
+ * Side view of one reply thread, with a composer that replies into it
+ */
+export const ThreadPanel: React.FC<Props> = ({
+  chatId,
+  rootId,
+  recipientId,
+  readOnly = false,
+  onClose,
+  onJumpTo,
+}) => {
+  const { messages, currentUser, sendEncryptedMessage } = useChatStore();
+  const { error } = useToast();
+  const [draft, setDraft] = useState('');
+  const [sending, setSending] = useState(false);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const chatMessages = messages[chatId] || [];
+  const root = chatMessages.find(m => m.id === rootId);
+  const replies = chatMessages.filter(m => m.threadId === rootId);
+
+  // Keep the newest reply in view
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+  }, [replies.length]);
+
+  const handleSend = async () => {
+    if (!draft.trim() || sending) return;
+    setSending(true);
+    try {
+      await sendEncryptedMessage(chatId, draft.trim(), recipientId, { replyTo: rootId });
+      setDraft('');
+    } catch (err) {
+      error('Failed to send reply', err instanceof Error ? err.message : undefined);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const renderMessage = (message: Message) => {
+    const isOwn = message.sender === currentUser?.publicKey;
+    return (
+      <button
+        key={message.id}
+        onClick={() => onJumpTo(message.id)}
+        className="w-full text-left px-3 py-2 rounded-lg hover:bg-card-highlight transition-colors"
+        title="Show in conversation"
+      >
+        <div className="flex items-center justify-between">
+          <span className="text-xs font-medium text-primary truncate">
+            {isOwn ? 'You' : message.senderUsername || `${message.sender.slice(0, 4)}...${message.sender.slice(-4)}`}
+          </span>
+          <span className="text-xs text-text-muted flex-shrink-0 ml-2">
+            {formatDistanceToNow(new Date(message.timestamp), { addSuffix: true })}
+          </span>
+        </div>
+        <p className={`text-sm break-words whitespace-pre-wrap mt-0.5 ${message.deleted ? 'italic text-text-muted' : 'text-text'}`}>
+          {message.deleted ? 'This message was deleted' : message.content}
+        </p>
+      </button>
+    );
+  };
+
+  return (
+    <motion.aside
+      initial={{ x: '100%' }}
+      animate={{ x: 0 }}
+      exit={{ x: '100%' }}
+      transition={{ type: 'spring', stiffness: 300, damping: 30 }}
+      className="absolute inset-y-0 right-0 w-96 max-w-full z-30 bg-foreground border-l border-border shadow-2xl flex flex-col"
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between p-4 border-b border-border">
+        <div className="flex items-center space-x-2">
+          <MessageSquare className="w-4 h-4 text-primary" />
+          <h3 className="font-semibold text-text">Thread</h3>
+          <span className="text-xs text-text-muted">
+            {replies.length} {replies.length === 1 ? 'reply' : 'replies'}
+          </span>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-2 hover:bg-card-highlight rounded-lg transition-colors"
+        >
+          <X className="w-4 h-4 text-text-muted" />
+        </button>
+      </div>
+
+      {/* Messages */}
+      <div ref={listRef} className="flex-1 overflow-y-auto p-2 space-y-1">
+        {root ? (
+          <div className="pb-2 mb-2 border-b border-border">{renderMessage(root)}</div>
+        ) : (
+          <p className="px-3 py-2 text-sm italic text-text-muted">The first message of this thread is not available</p>
+        )}
+        {replies.map(renderMessage)}
+      </div>
+
+      {/* Composer */}
+      {!readOnly && (
+        <div className="p-3 border-t border-border flex items-end space-x-2">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+                e.preventDefault();
+                handleSend();
+              }
+            }}
+            placeholder="Reply in thread..."
+            rows={2}
+            className="flex-1 px-3 py-2 bg-card-highlight border border-border rounded-xl text-sm resize-none focus:outline-none focus:ring-2 focus:ring-primary/50"
+          />
+          <button
+            onClick={handleSend}
+            disabled={!draft.trim() || sending}
+            className="p-3 rounded-full bg-gradient-primary disabled:opacity-50 transition-opacity"
+          >
+            <Send className="w-4 h-4 text-white" />
+          </button>
+        </div>
+      )}
+    </motion.aside>
+  );
+};
@@ -0,0 +1,49 @@
+import React from 'react';
+import { Pause, Play, RotateCcw, X } from 'lucide-react';
+import { useChatStore } from '../../store/chat-store';
+import type { FileAttachment } from '../../types/message';
+
+interface Props {
+  transfer: FileAttachment;
+}
+
+/**
+ * Pause, resume and cancel buttons for a file still moving to or from the relay,
+ * and retry for an upload that failed part way
+ */
+export const TransferControls: React.FC<Props> = ({ transfer }) => {
+  const { pauseTransfer, resumeTransfer, cancelTransfer } = useChatStore();
+  const { id, transferState } = transfer;
+  const failedUpload = transferState === 'failed' && transfer.uploadProgress !== undefined;
+  if (transferState !== 'active' && transferState !== 'waiting' && transferState !== 'paused' && !failedUpload) return null;
+
+  const paused = transferState === 'paused';
+  return (
+    <span className="flex items-center">
+      {failedUpload ? (
+        <button
+          onClick={() => resumeTransfer(id)}
+          className="p-1 hover:bg-white/10 rounded transition-colors"
+          title="Retry"
+        >
+          <RotateCcw className="w-3 h-3" />
+        </button>
+      ) : (
+        <button
+          onClick={() => (paused ? resumeTransfer(id) : pauseTransfer(id))}
+          className="p-1 hover:bg-white/10 rounded transition-colors"
+          title={paused ? 'Resume' : 'Pause'}
+        >
+          {paused ? <Play className="w-3 h-3" /> : <Pause className="w-3 h-3" />}
+        </button>
+      )}
+      <button
+        onClick={() => cancelTransfer(id)}
+        className="p-1 hover:bg-white/10 rounded transition-colors"
+        title="Cancel"
+      >
+        <X className="w-3 h-3" />
+      </button>
+    </span>
+  );
+};
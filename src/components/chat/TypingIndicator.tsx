@@ -2,11 +2,20 @@ import React from 'react';
 import { motion } from 'framer-motion';
 
 interface Props {
-  username: string;
+  usernames: string[];
   avatar?: string;
 }
 
-export const TypingIndicator: React.FC<Props> = ({ username, avatar }) => {
+const formatTypists = (usernames: string[]) => {
+  if (usernames.length === 1) return `${usernames[0]} is typing...`;
+  if (usernames.length === 2) return `${usernames[0]} and ${usernames[1]} are typing...`;
+  if (usernames.length === 3) return `${usernames[0]}, ${usernames[1]} and ${usernames[2]} are typing...`;
+  return `${usernames[0]}, ${usernames[1]} and ${usernames.length - 2} others are typing...`;
+};
+
+export const TypingIndicator: React.FC<Props> = ({ usernames }) => {
+  if (usernames.length === 0) return null;
+
   return (
     <motion.div
       initial={{ opacity: 0, y: 10 }}
@@ -14,12 +23,19 @@ export const TypingIndicator: React.FC<Props> = ({ username, avatar }) => {
       exit={{ opacity: 0, y: -10 }}
       className="flex items-center space-x-3 px-4 py-2"
     >
-      <div className="w-8 h-8 bg-gradient-secondary rounded-full flex items-center justify-center">
-        <span className="text-white text-xs font-medium">
-          {username.charAt(0).toUpperCase()}
-        </span>
+      <div className="flex -space-x-2">
+        {usernames.slice(0, 3).map((username, i) => (
+          <div
+            key={`${username}-${i}`}
+            className="w-8 h-8 bg-gradient-secondary rounded-full flex items-center justify-center border-2 border-background"
+          >
+            <span className="text-white text-xs font-medium">
+              {username.charAt(0).toUpperCase()}
+            </span>
+          </div>
+        ))}
       </div>
-      
+
       <div className="bg-card-highlight rounded-2xl px-4 py-3 rounded-bl-md">
         <div className="flex space-x-1">
           {[0, 1, 2].map((i) => (
@@ -39,9 +55,9 @@ export const TypingIndicator: React.FC<Props> = ({ username, avatar }) => {
           ))}
         </div>
       </div>
-      
+
       <span className="text-xs text-text-muted">
-        {username} is typing...
+        {formatTypists(usernames)}
       </span>
     </motion.div>
   );
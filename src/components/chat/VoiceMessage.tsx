@@ -0,0 +1,177 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Play, Pause, Loader2, AlertCircle, Headphones } from 'lucide-react';
+import { useChatStore } from '../../store/chat-store';
+import { useToast } from '../ui/Toast';
+import { isTransferCancelled } from '../../lib/file-transfer';
+import { PLAYBACK_RATES, WAVEFORM_BARS, formatDuration } from '../../lib/voice-note';
+import type { Message } from '../../types/message';
+
+interface Props {
+  message: Message;
+  isOwn: boolean;
+  onPlayed?: () => void; // First playback of someone else's clip
+}
+
+// Flat line for clips sent without a waveform
+const SILENCE = Array.from({ length: WAVEFORM_BARS }, () => 0);
+
+/**
+ * A voice clip: play and pause, scrub along its waveform, change speed
+ */
+export const VoiceMessage: React.FC<Props> = ({ message, isOwn, onPlayed }) => {
+  const { fileUploads, downloadAttachment } = useChatStore();
+  const { error: showError } = useToast();
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [position, setPosition] = useState(0); // Seconds
+  const [rate, setRate] = useState(PLAYBACK_RATES[0]);
+  const [playWhenLoaded, setPlayWhenLoaded] = useState(false);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const waveformRef = useRef<HTMLDivElement | null>(null);
+
+  const attachment = message.attachment!;
+  const transfer = fileUploads[attachment.blobId];
+  const url = transfer?.url;
+  const loading = !!transfer && !url && transfer.transferState !== 'failed' && transfer.transferState !== 'cancelled';
+  const duration = attachment.duration || audioRef.current?.duration || 0;
+  const waveform = attachment.waveform?.length ? attachment.waveform : SILENCE;
+  const progress = duration > 0 ? Math.min(1, position / duration) : 0;
+
+  useEffect(() => {
+    if (audioRef.current) audioRef.current.playbackRate = rate;
+  }, [rate, url]);
+
+  useEffect(() => {
+    if (!url || !playWhenLoaded || !audioRef.current) return;
+    setPlayWhenLoaded(false);
+    audioRef.current.play();
+  }, [url, playWhenLoaded]);
+
+  const togglePlayback = async () => {
+    const audio = audioRef.current;
+    if (audio && url) {
+      if (audio.paused) audio.play();
+      else audio.pause();
+      return;
+    }
+
+    try {
+      await downloadAttachment(attachment);
+      setPlayWhenLoaded(true);
+    } catch (err) {
+      if (!isTransferCancelled(err)) {
+        showError('Could not load voice message', err instanceof Error ? err.message : undefined);
+      }
+    }
+  };
+
+  const seekTo = (clientX: number) => {
+    const bounds = waveformRef.current?.getBoundingClientRect();
+    if (!bounds || !audioRef.current || !url || duration <= 0) return;
+    const fraction = Math.min(1, Math.max(0, (clientX - bounds.left) / bounds.width));
+    audioRef.current.currentTime = fraction * duration;
+    setPosition(fraction * duration);
+  };
+
+  const cycleRate = () => {
+    setRate(PLAYBACK_RATES[(PLAYBACK_RATES.indexOf(rate) + 1) % PLAYBACK_RATES.length]);
+  };
+
+  const unplayed = !isOwn && !message.played;
+
+  return (
+    <div className="flex items-center space-x-3 mt-1 min-w-[220px]">
+      {url && (
+        <audio
+          ref={audioRef}
+          src={url}
+          preload="metadata"
+          onPlay={() => {
+            setIsPlaying(true);
+            if (unplayed) onPlayed?.();
+          }}
+          onPause={() => setIsPlaying(false)}
+          onEnded={() => {
+            setIsPlaying(false);
+            setPosition(0);
+          }}
+          onTimeUpdate={(e) => setPosition(e.currentTarget.currentTime)}
+        />
+      )}
+
+      <button
+        onClick={togglePlayback}
+        disabled={loading}
+        className={`relative p-2 rounded-full transition-colors flex-shrink-0 ${
+          isOwn ? 'bg-white/20 hover:bg-white/30' : 'bg-primary hover:bg-primary-dark'
+        }`}
+        title={isPlaying ? 'Pause' : 'Play'}
+      >
+        {loading ? (
+          <Loader2 className="w-4 h-4 text-white animate-spin" />
+        ) : isPlaying ? (
+          <Pause className="w-4 h-4 text-white" />
+        ) : (
+          <Play className="w-4 h-4 text-white" />
+        )}
+        {unplayed && (
+          <span className="absolute -top-0.5 -right-0.5 w-2.5 h-2.5 bg-secondary rounded-full" aria-label="Not played yet" />
+        )}
+      </button>
+
+      <div className="flex-1 min-w-0">
+        <div
+          ref={waveformRef}
+          onPointerDown={(e) => {
+            e.currentTarget.setPointerCapture(e.pointerId);
+            seekTo(e.clientX);
+          }}
+          onPointerMove={(e) => {
+            if (e.currentTarget.hasPointerCapture(e.pointerId)) seekTo(e.clientX);
+          }}
+          className={`flex items-center space-x-0.5 h-8 ${url ? 'cursor-pointer' : ''}`}
+          role="slider"
+          aria-label="Playback position"
+          aria-valuemin={0}
+          aria-valuemax={Math.round(duration)}
+          aria-valuenow={Math.round(position)}
+        >
+          {waveform.map((level, i) => (
+            <div
+              key={i}
+              className={`flex-1 rounded-full ${
+                (i + 0.5) / waveform.length <= progress
+                  ? isOwn ? 'bg-white' : 'bg-primary'
+                  : isOwn ? 'bg-white/40' : 'bg-primary/30'
+              }`}
+              style={{ height: `${Math.max(3, level * 28)}px` }}
+            />
+          ))}
+        </div>
+        <div className="flex items-center justify-between text-xs opacity-75 mt-0.5">
+          <span>{formatDuration(isPlaying || position > 0 ? position : duration)}</span>
+          {transfer?.transferState === 'failed' && (
+            <span className="flex items-center space-x-1 text-error">
+              <AlertCircle className="w-3 h-3" />
+              <span>Failed</span>
+            </span>
+          )}
+          {isOwn && message.played && (
+            <span className="flex items-center space-x-1" title="Played">
+              <Headphones className="w-3 h-3" />
+            </span>
+          )}
+        </div>
+      </div>
+
+      <button
+        onClick={cycleRate}
+        className={`px-2 py-0.5 rounded-full text-xs font-medium transition-colors flex-shrink-0 ${
+          isOwn ? 'bg-white/20 hover:bg-white/30' : 'bg-card-highlight hover:bg-border'
+        }`}
+        title="Playback speed"
+      >
+        {rate}×
+      </button>
+    </div>
+  );
+};
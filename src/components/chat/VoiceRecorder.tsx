@@ -2,18 +2,24 @@ import React, { useState, useRef, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Mic, MicOff, Send, X, Pause, Play } from 'lucide-react';
 import { useToast } from '../ui/Toast';
+import { downsampleWaveform, formatDuration } from '../../lib/voice-note';
 
 interface Props {
-  onRecordingComplete: (audioBlob: Blob) => void;
+  onRecordingComplete: (audioBlob: Blob, duration: number, waveform: number[]) => void;
   isRecording: boolean;
   onRecordingStateChange: (recording: boolean) => void;
+  onDraftChange?: (hasDraft: boolean) => void; // A finished recording is waiting to be sent or discarded
   maxDuration?: number; // in seconds
 }
 
+// Opus in WebM where supported; Safari records Opus or AAC in MP4
+const MIME_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/mp4'];
+
 export const VoiceRecorder: React.FC<Props> = ({
   onRecordingComplete,
   isRecording,
   onRecordingStateChange,
+  onDraftChange,
   maxDuration = 300, // 5 minutes
 }) => {
   const { error } = useToast();
@@ -23,6 +29,8 @@ export const VoiceRecorder: React.FC<Props> = ({
   const [isPlaying, setIsPlaying] = useState(false);
   const [isPaused, setIsPaused] = useState(false);
   const [waveformData, setWaveformData] = useState<number[]>([]);
+  const [recordedWaveform, setRecordedWaveform] = useState<number[]>([]);
+  const [duration, setDuration] = useState(0);
   
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioRef = useRef<HTMLAudioElement | null>(null);
@@ -30,6 +38,10 @@ export const VoiceRecorder: React.FC<Props> = ({
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
   const animationRef = useRef<number | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const recordingRef = useRef(false);
+  const levelsRef = useRef<number[]>([]); // Loudness of every animation frame while recording
+  const startedAtRef = useRef(0);
 
   useEffect(() => {
     return () => {
@@ -39,10 +51,15 @@ export const VoiceRecorder: React.FC<Props> = ({
       if (streamRef.current) {
         streamRef.current.getTracks().forEach(track => track.stop());
       }
+      audioContextRef.current?.close();
       if (audioUrl) URL.revokeObjectURL(audioUrl);
     };
   }, [audioUrl]);
 
+  useEffect(() => {
+    onDraftChange?.(!!audioBlob);
+  }, [audioBlob, onDraftChange]);
+
   const startRecording = async () => {
     try {
       const stream = await navigator.mediaDevices.getUserMedia({ 
@@ -57,15 +74,15 @@ export const VoiceRecorder: React.FC<Props> = ({
       
       // Set up audio analysis for waveform
       const audioContext = new AudioContext();
+      audioContextRef.current = audioContext;
       const source = audioContext.createMediaStreamSource(stream);
       const analyser = audioContext.createAnalyser();
       analyser.fftSize = 256;
       source.connect(analyser);
       analyserRef.current = analyser;
       
-      const mediaRecorder = new MediaRecorder(stream, {
-        mimeType: 'audio/webm;codecs=opus'
-      });
+      const mimeType = MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+      const mediaRecorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
       
       mediaRecorderRef.current = mediaRecorder;
       const chunks: Blob[] = [];
@@ -77,15 +94,21 @@ export const VoiceRecorder: React.FC<Props> = ({
       };
       
       mediaRecorder.onstop = () => {
-        const blob = new Blob(chunks, { type: 'audio/webm;codecs=opus' });
+        const blob = new Blob(chunks, { type: mediaRecorder.mimeType || 'audio/webm' });
+        setDuration((Date.now() - startedAtRef.current) / 1000);
+        setRecordedWaveform(downsampleWaveform(levelsRef.current));
         setAudioBlob(blob);
         setAudioUrl(URL.createObjectURL(blob));
         
         // Stop all tracks
         stream.getTracks().forEach(track => track.stop());
+        audioContext.close();
       };
       
       mediaRecorder.start();
+      recordingRef.current = true;
+      levelsRef.current = [];
+      startedAtRef.current = Date.now();
       onRecordingStateChange(true);
       setRecordingTime(0);
       
@@ -110,6 +133,7 @@ export const VoiceRecorder: React.FC<Props> = ({
   };
 
   const stopRecording = () => {
+    recordingRef.current = false;
     if (mediaRecorderRef.current && mediaRecorderRef.current.state === 'recording') {
       mediaRecorderRef.current.stop();
     }
@@ -140,8 +164,9 @@ export const VoiceRecorder: React.FC<Props> = ({
       .map(value => value / 255);
     
     setWaveformData(normalizedData);
+    levelsRef.current.push(normalizedData.reduce((sum, value) => sum + value, 0) / normalizedData.length);
     
-    if (isRecording) {
+    if (recordingRef.current) {
       animationRef.current = requestAnimationFrame(updateWaveform);
     }
   };
@@ -169,7 +194,7 @@ export const VoiceRecorder: React.FC<Props> = ({
 
   const sendRecording = () => {
     if (audioBlob) {
-      onRecordingComplete(audioBlob);
+      onRecordingComplete(audioBlob, Math.round(duration * 10) / 10, recordedWaveform);
       resetRecording();
     }
   };
@@ -184,12 +209,8 @@ export const VoiceRecorder: React.FC<Props> = ({
     setIsPlaying(false);
     setIsPaused(false);
     setWaveformData([]);
-  };
-
-  const formatTime = (seconds: number) => {
-    const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
-    return `${mins}:${secs.toString().padStart(2, '0')}`;
+    setRecordedWaveform([]);
+    setDuration(0);
   };
 
   // If we have a recording, show playback interface
@@ -222,18 +243,18 @@ export const VoiceRecorder: React.FC<Props> = ({
         
         <div className="flex-1 px-2">
           <div className="flex items-center space-x-1 h-8">
-            {Array.from({ length: 20 }).map((_, i) => (
+            {recordedWaveform.map((level, i) => (
               <div
                 key={i}
                 className="w-1 bg-primary/30 rounded-full transition-all duration-100"
                 style={{
-                  height: `${Math.max(4, (waveformData[i] || 0) * 24)}px`,
+                  height: `${Math.max(4, level * 24)}px`,
                 }}
               />
             ))}
           </div>
           <p className="text-xs text-text-muted mt-1">
-            {formatTime(recordingTime)}
+            {formatDuration(duration)}
           </p>
         </div>
         
@@ -285,12 +306,12 @@ export const VoiceRecorder: React.FC<Props> = ({
             ))}
           </div>
           <p className="text-xs text-red-500 mt-1">
-            Recording... {formatTime(recordingTime)}
+            Recording... {formatDuration(recordingTime)}
           </p>
         </div>
         
         <div className="text-xs text-text-muted">
-          {formatTime(maxDuration - recordingTime)} left
+          {formatDuration(maxDuration - recordingTime)} left
         </div>
       </motion.div>
     );
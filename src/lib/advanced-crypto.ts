@@ -231,6 +231,43 @@ export class AdvancedCrypto {
     }
   }
 
+  /**
+   * Fresh key and base nonce for a file sent with encryptFileChunk
+   */
+  static generateFileKey(): { key: string; nonce: string } {
+    return {
+      key: encodeBase58(randomBytes(secretbox.keyLength)),
+      nonce: encodeBase58(randomBytes(secretbox.nonceLength)),
+    };
+  }
+
+  /**
+   * Seal one chunk of a file. The chunk index is mixed into the file's base
+   * nonce, so a chunk only opens at the position it was sealed for.
+   */
+  static encryptFileChunk(chunk: Uint8Array, index: number, nonce: string, key: string): Uint8Array {
+    return secretbox(chunk, this.chunkNonce(nonce, index), decodeBase58(key));
+  }
+
+  /**
+   * Open a chunk sealed by encryptFileChunk; null if the key, index or bytes are wrong
+   */
+  static decryptFileChunk(ciphertext: Uint8Array, index: number, nonce: string, key: string): Uint8Array | null {
+    try {
+      return secretbox.open(ciphertext, this.chunkNonce(nonce, index), decodeBase58(key));
+    } catch (error) {
+      console.error('File chunk decryption failed:', error);
+      return null;
+    }
+  }
+
+  private static chunkNonce(nonce: string, index: number): Uint8Array {
+    const bytes = decodeBase58(nonce).slice();
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    view.setUint32(bytes.length - 4, view.getUint32(bytes.length - 4) ^ index);
+    return bytes;
+  }
+
   /**
    * Generate message signature
    */
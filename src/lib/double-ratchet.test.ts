@@ -0,0 +1,96 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { box } from 'tweetnacl';
+import {
+  acceptSession,
+  initiateSession,
+  ratchetDecrypt,
+  ratchetEncrypt,
+  settleHandshake,
+  type RatchetState,
+} from './double-ratchet';
+import { AdvancedCrypto } from './advanced-crypto';
+
+const alice = box.keyPair();
+const bob = box.keyPair();
+const shared = AdvancedCrypto.performKeyExchange(alice.secretKey, bob.publicKey);
+
+function startBothAtOnce() {
+  const fromAlice = initiateSession('chat', 'bob', shared, alice, bob.publicKey);
+  const fromBob = initiateSession('chat', 'alice', shared, bob, alice.publicKey);
+  return { fromAlice, fromBob };
+}
+
+describe('simultaneous session initiation', () => {
+  it('lets the winner read what the loser sent before switching over', () => {
+    const { fromAlice, fromBob } = startBothAtOnce();
+    let aliceSession: RatchetState = fromAlice.state;
+    let bobSession: RatchetState = fromBob.state;
+
+    // Both encrypt before either handshake arrives
+    const early = ratchetEncrypt(bobSession, 'sent in my own session');
+    const fromAliceEarly = ratchetEncrypt(aliceSession, 'hello bob');
+
+    // Alice wins the tie, Bob gives up his session for hers
+    aliceSession = settleHandshake(aliceSession, acceptSession(fromBob.handshake, 'bob', shared, alice), true);
+    bobSession = settleHandshake(bobSession, acceptSession(fromAlice.handshake, 'alice', shared, bob), false);
+
+    expect(aliceSession.superseded).toBeDefined();
+    expect(bobSession.superseded).toBeUndefined();
+    expect(ratchetDecrypt(aliceSession, early)).toBe('sent in my own session');
+    expect(ratchetDecrypt(bobSession, fromAliceEarly)).toBe('hello bob');
+
+    const late = ratchetEncrypt(bobSession, 'now in yours');
+    expect(ratchetDecrypt(aliceSession, late)).toBe('now in yours');
+
+    expect(ratchetDecrypt(bobSession, ratchetEncrypt(aliceSession, 'and back'))).toBe('and back');
+  });
+
+  it('reads several in-flight messages in order and out of order', () => {
+    const { fromAlice, fromBob } = startBothAtOnce();
+    const bobSession = fromBob.state;
+    const inFlight = ['one', 'two', 'three'].map(text => ratchetEncrypt(bobSession, text));
+
+    const aliceSession = settleHandshake(fromAlice.state, acceptSession(fromBob.handshake, 'bob', shared, alice), true);
+    expect(ratchetDecrypt(aliceSession, inFlight[2])).toBe('three');
+    expect(ratchetDecrypt(aliceSession, inFlight[0])).toBe('one');
+    expect(ratchetDecrypt(aliceSession, inFlight[1])).toBe('two');
+  });
+
+  it('reads a message from the losing session that arrives after one from the winning session', () => {
+    const { fromAlice, fromBob } = startBothAtOnce();
+    const bobOld = fromBob.state;
+    const straggler = ratchetEncrypt(bobOld, 'held up in a mailbox');
+
+    const aliceSession = settleHandshake(fromAlice.state, acceptSession(fromBob.handshake, 'bob', shared, alice), true);
+    const bobSession = settleHandshake(bobOld, acceptSession(fromAlice.handshake, 'alice', shared, bob), false);
+
+    expect(ratchetDecrypt(aliceSession, ratchetEncrypt(bobSession, 'switched over'))).toBe('switched over');
+    expect(ratchetDecrypt(aliceSession, straggler)).toBe('held up in a mailbox');
+  });
+
+  describe('once the losing session has gone idle', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('lets it go', () => {
+      vi.useFakeTimers();
+      const { fromAlice, fromBob } = startBothAtOnce();
+      const straggler = ratchetEncrypt(fromBob.state, 'too late');
+      const aliceSession = settleHandshake(fromAlice.state, acceptSession(fromBob.handshake, 'bob', shared, alice), true);
+
+      vi.advanceTimersByTime(8 * 24 * 60 * 60 * 1000);
+      expect(ratchetDecrypt(aliceSession, straggler)).toBeNull();
+      expect(aliceSession.superseded).toBeUndefined();
+    });
+  });
+
+  it('replaces an established session with a fresh handshake', () => {
+    const { fromAlice } = startBothAtOnce();
+    const established = acceptSession(fromAlice.handshake, 'alice', shared, bob);
+    const restarted = initiateSession('chat', 'bob', shared, alice, bob.publicKey);
+
+    const accepted = acceptSession(restarted.handshake, 'alice', shared, bob);
+    expect(settleHandshake(established, accepted, true)).toBe(accepted);
+  });
+});
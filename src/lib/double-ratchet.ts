@@ -0,0 +1,359 @@
+import { encode as encodeBase58, decode as decodeBase58 } from 'bs58';
+import { encode as encodeUTF8, decode as decodeUTF8 } from '@stablelib/utf8';
+import { box, hash, randomBytes, secretbox } from 'tweetnacl';
+import { AdvancedCrypto, type EncryptedData, type KeyPair } from './advanced-crypto';
+
+export interface RatchetHeader {
+  dh: string; // Sender's current ratchet public key
+  pn: number; // Length of the sender's previous sending chain
+  n: number; // Message number in the current sending chain
+}
+
+export interface RatchetPayload {
+  header: RatchetHeader;
+  encrypted: string;
+  nonce: string;
+}
+
+/**
+ * Handshake sent once by the initiator so the responder can derive the same root key
+ */
+export interface SessionHandshake {
+  sessionId: string;
+  identityKey: string; // Initiator's messaging public key
+  ephemeralKey: string; // One-time key mixed into the root key
+  ratchetKey: string; // Initiator's first ratchet public key
+}
+
+export interface RatchetState {
+  sessionId: string;
+  peerId: string;
+  initiator: boolean;
+  rootKey: string;
+  dhSelf: { publicKey: string; secretKey: string };
+  dhRemote: string | null;
+  sendChainKey: string | null;
+  recvChainKey: string | null;
+  sendCount: number;
+  recvCount: number;
+  previousSendCount: number;
+  skippedKeys: Record<string, string>; // `${dh}:${n}` -> message key
+  handshakeKey?: string; // Ephemeral key of the accepted handshake, so redeliveries are ignored
+  superseded?: RatchetState; // The peer's session that lost a simultaneous start, kept to read what it already sent
+  updatedAt: number;
+}
+
+const MAX_SKIP = 1000;
+const MAX_STORED_SKIPPED_KEYS = 2000;
+// How long a superseded session is kept after it last opened a message. Relay
+// mailboxes hold envelopes for a week, so its stragglers can arrive that late.
+const SUPERSEDED_IDLE_MS = 7 * 24 * 60 * 60 * 1000;
+const HMAC_BLOCK_SIZE = 128;
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+/**
+ * HMAC-SHA512 on top of tweetnacl's hash
+ */
+function hmac(key: Uint8Array, data: Uint8Array): Uint8Array {
+  const block = new Uint8Array(HMAC_BLOCK_SIZE);
+  block.set(key.length > HMAC_BLOCK_SIZE ? hash(key) : key);
+  const inner = block.map(b => b ^ 0x36);
+  const outer = block.map(b => b ^ 0x5c);
+  return hash(concat(outer, hash(concat(inner, data))));
+}
+
+function kdfRootKey(rootKey: Uint8Array, dhOutput: Uint8Array): [Uint8Array, Uint8Array] {
+  const out = hmac(rootKey, dhOutput);
+  return [out.slice(0, 32), out.slice(32, 64)];
+}
+
+/**
+ * Symmetric chain step: returns [next chain key, message key]
+ */
+export function kdfChainKey(chainKey: Uint8Array): [Uint8Array, Uint8Array] {
+  const messageKey = hmac(chainKey, new Uint8Array([0x01])).slice(0, 32);
+  const nextChainKey = hmac(chainKey, new Uint8Array([0x02])).slice(0, 32);
+  return [nextChainKey, messageKey];
+}
+
+function dh(secretKey: string | Uint8Array, publicKey: string | Uint8Array): Uint8Array {
+  return AdvancedCrypto.performKeyExchange(
+    typeof secretKey === 'string' ? decodeBase58(secretKey) : secretKey,
+    typeof publicKey === 'string' ? decodeBase58(publicKey) : publicKey
+  );
+}
+
+function encodeKeyPair(keyPair: KeyPair): RatchetState['dhSelf'] {
+  return {
+    publicKey: encodeBase58(keyPair.publicKey),
+    secretKey: encodeBase58(keyPair.secretKey),
+  };
+}
+
+function deriveSessionKey(staticSecret: Uint8Array, ephemeralSecret: Uint8Array): Uint8Array {
+  return hmac(encodeUTF8('Chatrix session v1'), concat(staticSecret, ephemeralSecret)).slice(0, 32);
+}
+
+/**
+ * Start a session with a peer. `sharedSecret` is the static key agreement
+ * between both messaging keys; the ephemeral key adds per-session freshness.
+ */
+export function initiateSession(
+  sessionId: string,
+  peerId: string,
+  sharedSecret: Uint8Array,
+  myIdentity: KeyPair,
+  theirIdentityKey: Uint8Array
+): { state: RatchetState; handshake: SessionHandshake } {
+  const ephemeral = box.keyPair();
+  const sessionKey = deriveSessionKey(sharedSecret, dh(ephemeral.secretKey, theirIdentityKey));
+  const ratchetKeyPair = box.keyPair();
+  const [rootKey, sendChainKey] = kdfRootKey(sessionKey, dh(ratchetKeyPair.secretKey, theirIdentityKey));
+
+  const state: RatchetState = {
+    sessionId,
+    peerId,
+    initiator: true,
+    rootKey: encodeBase58(rootKey),
+    dhSelf: encodeKeyPair(ratchetKeyPair),
+    dhRemote: encodeBase58(theirIdentityKey),
+    sendChainKey: encodeBase58(sendChainKey),
+    recvChainKey: null,
+    sendCount: 0,
+    recvCount: 0,
+    previousSendCount: 0,
+    skippedKeys: {},
+    updatedAt: Date.now(),
+  };
+
+  return {
+    state,
+    handshake: {
+      sessionId,
+      identityKey: encodeBase58(myIdentity.publicKey),
+      ephemeralKey: encodeBase58(ephemeral.publicKey),
+      ratchetKey: state.dhSelf.publicKey,
+    },
+  };
+}
+
+/**
+ * Accept a peer's handshake. The responder ratchets immediately so it can
+ * reply before the initiator's first message arrives.
+ */
+export function acceptSession(
+  handshake: SessionHandshake,
+  peerId: string,
+  sharedSecret: Uint8Array,
+  myIdentity: KeyPair
+): RatchetState {
+  const sessionKey = deriveSessionKey(sharedSecret, dh(myIdentity.secretKey, handshake.ephemeralKey));
+  const [rootAfterRecv, recvChainKey] = kdfRootKey(sessionKey, dh(myIdentity.secretKey, handshake.ratchetKey));
+  const ratchetKeyPair = box.keyPair();
+  const [rootKey, sendChainKey] = kdfRootKey(rootAfterRecv, dh(ratchetKeyPair.secretKey, handshake.ratchetKey));
+
+  return {
+    sessionId: handshake.sessionId,
+    peerId,
+    initiator: false,
+    rootKey: encodeBase58(rootKey),
+    dhSelf: encodeKeyPair(ratchetKeyPair),
+    dhRemote: handshake.ratchetKey,
+    sendChainKey: encodeBase58(sendChainKey),
+    recvChainKey: encodeBase58(recvChainKey),
+    sendCount: 0,
+    recvCount: 0,
+    previousSendCount: 0,
+    skippedKeys: {},
+    handshakeKey: handshake.ephemeralKey,
+    updatedAt: Date.now(),
+  };
+}
+
+/**
+ * Whether an initiator session is still waiting for the peer's first reply
+ */
+export function isAwaitingReply(state: RatchetState): boolean {
+  return state.initiator && state.recvChainKey === null;
+}
+
+/**
+ * The session to keep after accepting a peer's handshake. When both sides
+ * initiated at once, the side that wins the tie keeps its own session; the
+ * peer switches to it once our handshake arrives, and the peer's session
+ * stays alongside so messages it already sent can still be read.
+ */
+export function settleHandshake(existing: RatchetState | null, accepted: RatchetState, winsTie: boolean): RatchetState {
+  if (existing && isAwaitingReply(existing) && winsTie) return { ...existing, superseded: accepted };
+  return accepted;
+}
+
+function sealWithKey(messageKey: Uint8Array, header: RatchetHeader, plaintext: string): RatchetPayload {
+  const nonce = randomBytes(secretbox.nonceLength);
+  // The header travels in the clear, so bind it inside the ciphertext
+  const body = encodeUTF8(JSON.stringify({ header, body: plaintext }));
+  return {
+    header,
+    encrypted: encodeBase58(secretbox(body, nonce, messageKey)),
+    nonce: encodeBase58(nonce),
+  };
+}
+
+function openWithKey(messageKey: Uint8Array, payload: RatchetPayload): string | null {
+  try {
+    const opened = secretbox.open(decodeBase58(payload.encrypted), decodeBase58(payload.nonce), messageKey);
+    if (!opened) return null;
+
+    const { header, body } = JSON.parse(decodeUTF8(opened));
+    const matches = header?.dh === payload.header.dh &&
+      header?.n === payload.header.n &&
+      header?.pn === payload.header.pn;
+    return matches && typeof body === 'string' ? body : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Encrypt with the next sending message key. Mutates `state`.
+ */
+export function ratchetEncrypt(state: RatchetState, plaintext: string): RatchetPayload {
+  if (!state.sendChainKey) {
+    throw new Error('Session has no sending chain');
+  }
+
+  const [nextChainKey, messageKey] = kdfChainKey(decodeBase58(state.sendChainKey));
+  const header: RatchetHeader = {
+    dh: state.dhSelf.publicKey,
+    pn: state.previousSendCount,
+    n: state.sendCount,
+  };
+
+  state.sendChainKey = encodeBase58(nextChainKey);
+  state.sendCount += 1;
+  state.updatedAt = Date.now();
+
+  return sealWithKey(messageKey, header, plaintext);
+}
+
+function skipMessageKeys(state: RatchetState, until: number): void {
+  if (!state.recvChainKey || !state.dhRemote) return;
+  if (until - state.recvCount > MAX_SKIP) {
+    throw new Error('Too many skipped messages');
+  }
+
+  let chainKey = decodeBase58(state.recvChainKey);
+  while (state.recvCount < until) {
+    const [nextChainKey, messageKey] = kdfChainKey(chainKey);
+    state.skippedKeys[`${state.dhRemote}:${state.recvCount}`] = encodeBase58(messageKey);
+    chainKey = nextChainKey;
+    state.recvCount += 1;
+  }
+  state.recvChainKey = encodeBase58(chainKey);
+
+  // Drop the oldest cached keys once the cache is full
+  const keys = Object.keys(state.skippedKeys);
+  for (const key of keys.slice(0, Math.max(0, keys.length - MAX_STORED_SKIPPED_KEYS))) {
+    delete state.skippedKeys[key];
+  }
+}
+
+function dhRatchet(state: RatchetState, remoteKey: string): void {
+  state.previousSendCount = state.sendCount;
+  state.sendCount = 0;
+  state.recvCount = 0;
+  state.dhRemote = remoteKey;
+
+  const [rootAfterRecv, recvChainKey] = kdfRootKey(decodeBase58(state.rootKey), dh(state.dhSelf.secretKey, remoteKey));
+  const ratchetKeyPair = box.keyPair();
+  const [rootKey, sendChainKey] = kdfRootKey(rootAfterRecv, dh(ratchetKeyPair.secretKey, remoteKey));
+
+  state.dhSelf = encodeKeyPair(ratchetKeyPair);
+  state.recvChainKey = encodeBase58(recvChainKey);
+  state.sendChainKey = encodeBase58(sendChainKey);
+  state.rootKey = encodeBase58(rootKey);
+}
+
+/**
+ * Decrypt a payload, handling out-of-order delivery through cached skipped keys.
+ * `state` is only updated when decryption succeeds.
+ */
+export function ratchetDecrypt(state: RatchetState, payload: RatchetPayload): string | null {
+  // Mailbox replay and live delivery can interleave, so the peer's old session
+  // may still have messages on the way after its first one in ours
+  if (state.superseded && Date.now() - state.superseded.updatedAt > SUPERSEDED_IDLE_MS) {
+    delete state.superseded;
+  }
+
+  const plaintext = decryptInSession(state, payload);
+  if (plaintext !== null) return plaintext;
+  return state.superseded ? decryptInSession(state.superseded, payload) : null;
+}
+
+function decryptInSession(state: RatchetState, payload: RatchetPayload): string | null {
+  const { header } = payload;
+  const skippedId = `${header.dh}:${header.n}`;
+  const skippedKey = state.skippedKeys[skippedId];
+
+  if (skippedKey) {
+    const plaintext = openWithKey(decodeBase58(skippedKey), payload);
+    if (plaintext !== null) {
+      delete state.skippedKeys[skippedId];
+      state.updatedAt = Date.now();
+    }
+    return plaintext;
+  }
+
+  const working: RatchetState = JSON.parse(JSON.stringify(state));
+  try {
+    if (header.dh !== working.dhRemote) {
+      skipMessageKeys(working, header.pn);
+      dhRatchet(working, header.dh);
+    }
+    skipMessageKeys(working, header.n);
+
+    const [nextChainKey, messageKey] = kdfChainKey(decodeBase58(working.recvChainKey!));
+    const plaintext = openWithKey(messageKey, payload);
+    if (plaintext === null) return null;
+
+    working.recvChainKey = encodeBase58(nextChainKey);
+    working.recvCount += 1;
+    working.updatedAt = Date.now();
+    Object.assign(state, working);
+    return plaintext;
+  } catch (error) {
+    console.warn('Ratchet decryption failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Key used to encrypt session state at rest, derived from the messaging secret key
+ */
+export function deriveStorageKey(identity: KeyPair): Uint8Array {
+  return hmac(encodeUTF8('Chatrix session storage v1'), identity.secretKey).slice(0, 32);
+}
+
+export function sealSession(state: RatchetState, storageKey: Uint8Array): EncryptedData {
+  return AdvancedCrypto.encryptWithSharedSecret(JSON.stringify(state), storageKey);
+}
+
+export function openSession(sealed: EncryptedData, storageKey: Uint8Array): RatchetState | null {
+  const json = AdvancedCrypto.decryptWithSharedSecret(sealed, storageKey);
+  if (!json) return null;
+
+  try {
+    return JSON.parse(json);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,73 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { encode as encodeBase58 } from 'bs58';
+import { sign } from 'tweetnacl';
+import { canonicalize, signEnvelope, verifyEnvelope } from './envelope-auth';
+import type { RealtimeMessage } from './realtime-communication';
+
+// Stands in for the relay's device lists
+const directory = vi.hoisted(() => ({
+  resolveDevice: vi.fn(),
+  isRevoked: vi.fn(),
+}));
+vi.mock('./key-agreement', () => ({ getKeyDirectory: () => directory }));
+
+const deviceKeys = sign.keyPair();
+
+function envelope(overrides: Partial<RealtimeMessage> = {}): RealtimeMessage {
+  return {
+    id: 'e1',
+    type: 'message',
+    from: 'alice',
+    fromDevice: 'phone',
+    to: 'bob',
+    data: { chatId: 'c1', content: 'hi' },
+    timestamp: 1000,
+    ...overrides,
+  };
+}
+
+describe('canonicalize', () => {
+  it('sorts keys at every level and leaves out undefined', () => {
+    expect(canonicalize({ b: 1, a: { d: [2, { f: 1, e: 0 }], c: undefined } }))
+      .toBe('{"a":{"d":[2,{"e":0,"f":1}]},"b":1}');
+  });
+});
+
+describe('envelope signatures', () => {
+  beforeEach(() => {
+    directory.resolveDevice.mockReset();
+    directory.isRevoked.mockReset();
+    directory.resolveDevice.mockResolvedValue({ signingKey: encodeBase58(deviceKeys.publicKey) });
+  });
+
+  it('verifies what the device signed', async () => {
+    const signed = envelope();
+    signed.signature = signEnvelope(signed, deviceKeys);
+    expect(await verifyEnvelope(signed)).toBe('verified');
+  });
+
+  it('rejects an envelope changed after signing', async () => {
+    const signed = envelope();
+    signed.signature = signEnvelope(signed, deviceKeys);
+    expect(await verifyEnvelope({ ...signed, to: 'eve' })).toBe('invalid');
+    expect(await verifyEnvelope({ ...signed, data: { ...signed.data, content: 'bye' } })).toBe('invalid');
+  });
+
+  it('rejects unsigned envelopes and those from revoked devices', async () => {
+    expect(await verifyEnvelope(envelope())).toBe('invalid');
+
+    const signed = envelope();
+    signed.signature = signEnvelope(signed, deviceKeys);
+    directory.resolveDevice.mockResolvedValue(null);
+    directory.isRevoked.mockReturnValue(true);
+    expect(await verifyEnvelope(signed)).toBe('invalid');
+  });
+
+  it('leaves envelopes from unknown devices unverified', async () => {
+    const signed = envelope();
+    signed.signature = signEnvelope(signed, deviceKeys);
+    directory.resolveDevice.mockResolvedValue(null);
+    directory.isRevoked.mockReturnValue(false);
+    expect(await verifyEnvelope(signed)).toBe('unverified');
+  });
+});
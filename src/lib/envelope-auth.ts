@@ -0,0 +1,57 @@
+import { AdvancedCrypto, type KeyPair } from './advanced-crypto';
+import { getKeyDirectory } from './key-agreement';
+import type { RealtimeMessage } from './realtime-communication';
+
+export type EnvelopeVerification = 'verified' | 'unverified' | 'invalid';
+
+/**
+ * Deterministic JSON with sorted object keys, so both ends sign the same bytes
+ */
+export function canonicalize(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null';
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(',')}]`;
+  }
+
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, entry]) => entry !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${canonicalize(entry)}`).join(',')}}`;
+}
+
+function signingPayload(envelope: RealtimeMessage): string {
+  const { id, type, from, fromDevice, to, toDevice, data, timestamp } = envelope;
+  return canonicalize({ id, type, from, fromDevice, to, toDevice, data, timestamp });
+}
+
+/**
+ * Sign an outgoing envelope with our identity signing key
+ */
+export function signEnvelope(envelope: RealtimeMessage, signingKeyPair: KeyPair): string {
+  return AdvancedCrypto.signMessage(signingPayload(envelope), signingKeyPair.secretKey).signature;
+}
+
+/**
+ * Verify an incoming envelope against the signing key of the device it came
+ * from, as attested by the `from` wallet. `unverified` means the device's key
+ * could not be resolved; `invalid` means the envelope is unsigned, the device
+ * was revoked or the signature does not match.
+ */
+export async function verifyEnvelope(envelope: RealtimeMessage): Promise<EnvelopeVerification> {
+  if (!envelope.signature || !envelope.fromDevice) return 'invalid';
+
+  const directory = getKeyDirectory();
+  const record = await directory.resolveDevice(envelope.from, envelope.fromDevice);
+  if (!record) {
+    return directory.isRevoked(envelope.from, envelope.fromDevice) ? 'invalid' : 'unverified';
+  }
+
+  const valid = AdvancedCrypto.verifyMessageSignature(signingPayload(envelope), {
+    signature: envelope.signature,
+    publicKey: record.signingKey,
+    timestamp: envelope.timestamp,
+  });
+  return valid ? 'verified' : 'invalid';
+}
@@ -0,0 +1,292 @@
+import { AdvancedCrypto } from './advanced-crypto';
+import { getRealtimeService } from './realtime-communication';
+import type { MessageAttachment, TransferState } from '../types/message';
+
+// Well under the relay's per-chunk and per-event limits
+export const FILE_CHUNK_SIZE = 256 * 1024;
+export const MAX_FILE_SIZE = 50 * 1024 * 1024;
+
+const PARALLEL_STREAMS = 3;
+const CHUNK_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 1000;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * What an upload needs to carry on where it stopped, even after a reload:
+ * its key, and the hash of every chunk the relay has acknowledged
+ */
+export interface UploadProgress {
+  key: string;
+  nonce: string;
+  hashes: Record<number, string>;
+}
+
+/**
+ * True for the error a transfer rejects with when it is cancelled
+ */
+export function isTransferCancelled(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+/**
+ * One upload or download, moved a chunk at a time by a few parallel streams.
+ * Chunks that were acknowledged stay done, so pausing, losing the relay or
+ * restarting after a failure all pick up with the chunks still missing.
+ */
+export class ChunkedTransfer<T> {
+  private state: TransferState = 'paused';
+  private readonly finished: Set<number>;
+  private readonly inFlight = new Set<number>();
+  private generation = 0;
+  private completion: Promise<T> | null = null;
+  private settle: { resolve: (result: T) => void; reject: (error: unknown) => void } | null = null;
+
+  constructor(
+    private readonly chunkCount: number,
+    private readonly moveChunk: (index: number) => Promise<boolean>, // false to retry; throws when retrying is pointless
+    private readonly complete: () => T | Promise<T>,
+    private readonly onChange: (state: TransferState, percent: number) => void,
+    finished: Iterable<number> = [] // Chunks moved before, e.g. by an earlier page load
+  ) {
+    this.finished = new Set(finished);
+  }
+
+  /**
+   * Run the transfer, or rerun one that failed. Resolves once every chunk is in.
+   */
+  start(): Promise<T> {
+    if (!this.completion) {
+      this.completion = new Promise<T>((resolve, reject) => {
+        this.settle = { resolve, reject };
+      });
+      this.launch();
+    }
+    return this.completion;
+  }
+
+  getState(): TransferState {
+    return this.state;
+  }
+
+  /**
+   * Stop taking new chunks; the ones in flight still land
+   */
+  pause(): void {
+    if (this.isRunning()) this.setState('paused');
+  }
+
+  resume(): void {
+    if (this.state === 'paused' && this.completion) this.launch();
+  }
+
+  cancel(): void {
+    this.end('cancelled', new DOMException('Transfer cancelled', 'AbortError'));
+  }
+
+  private isRunning(): boolean {
+    return this.state === 'active' || this.state === 'waiting';
+  }
+
+  private launch(): void {
+    this.setState('active');
+    const generation = ++this.generation;
+    if (this.finished.size === this.chunkCount) {
+      this.finish();
+      return;
+    }
+    for (let i = 0; i < Math.min(PARALLEL_STREAMS, this.chunkCount); i++) {
+      this.stream(generation);
+    }
+  }
+
+  private async stream(generation: number): Promise<void> {
+    while (generation === this.generation && this.isRunning()) {
+      const index = this.nextChunk();
+      if (index === undefined) return;
+
+      this.inFlight.add(index);
+      let moved: boolean;
+      try {
+        moved = await this.moveWithRetries(index);
+      } catch (error) {
+        this.end('failed', error);
+        return;
+      } finally {
+        this.inFlight.delete(index);
+      }
+      if (!moved) return;
+
+      this.finished.add(index);
+      this.setState(this.state);
+      if (this.finished.size === this.chunkCount) {
+        await this.finish();
+        return;
+      }
+    }
+  }
+
+  private async finish(): Promise<void> {
+    try {
+      const result = await this.complete();
+      this.end('done', undefined, result);
+    } catch (error) {
+      this.end('failed', error);
+    }
+  }
+
+  private nextChunk(): number | undefined {
+    for (let index = 0; index < this.chunkCount; index++) {
+      if (!this.finished.has(index) && !this.inFlight.has(index)) return index;
+    }
+    return undefined;
+  }
+
+  /**
+   * Move one chunk, waiting out relay outages. False if the transfer stopped meanwhile.
+   */
+  private async moveWithRetries(index: number): Promise<boolean> {
+    const realtimeService = getRealtimeService();
+    for (let failures = 0; ;) {
+      if (!this.isRunning()) return false;
+      if (await this.moveChunk(index)) {
+        if (this.state === 'waiting') this.setState('active');
+        return true;
+      }
+
+      if (!realtimeService.isConnected()) {
+        // Outages don't count against the chunk: carry on once the relay is back
+        if (this.state === 'active') this.setState('waiting');
+        await delay(RETRY_DELAY_MS);
+        continue;
+      }
+      if (++failures === CHUNK_ATTEMPTS) throw new Error(`Part ${index + 1} of ${this.chunkCount} could not be transferred`);
+      await delay(RETRY_DELAY_MS * failures);
+    }
+  }
+
+  private end(state: TransferState, error?: unknown, result?: T): void {
+    if (!this.completion || this.state === 'done' || this.state === 'cancelled') return;
+    const settle = this.settle;
+    this.completion = null;
+    this.settle = null;
+    this.generation++;
+    this.setState(state);
+    if (state === 'done') settle?.resolve(result as T);
+    else settle?.reject(error);
+  }
+
+  private setState(state: TransferState): void {
+    this.state = state;
+    this.onChange(state, Math.round((this.finished.size / this.chunkCount) * 100));
+  }
+}
+
+/**
+ * Throws for a file the relay would not take
+ */
+export function assertUploadable(file: File): void {
+  if (file.size > MAX_FILE_SIZE) {
+    throw new Error(`Files can be at most ${MAX_FILE_SIZE / (1024 * 1024)} MB`);
+  }
+}
+
+export function newUploadProgress(): UploadProgress {
+  return { ...AdvancedCrypto.generateFileKey(), hashes: {} };
+}
+
+/**
+ * Upload a file encrypted chunk by chunk. A fresh upload gets a new key; passing
+ * the progress of an earlier attempt sends only the chunks still missing.
+ * `progress` is updated as chunks land, with `onProgress` called to save it.
+ * The transfer resolves to the attachment that lets recipients fetch and open it.
+ */
+export function uploadEncryptedFile(
+  file: File,
+  blobId: string,
+  onChange: (state: TransferState, percent: number) => void,
+  progress: UploadProgress = newUploadProgress(),
+  onProgress?: (progress: UploadProgress) => void
+): ChunkedTransfer<MessageAttachment> {
+  assertUploadable(file);
+
+  const { key, nonce, hashes } = progress;
+  const chunkCount = Math.max(1, Math.ceil(file.size / FILE_CHUNK_SIZE));
+  const realtimeService = getRealtimeService();
+
+  const moveChunk = async (index: number) => {
+    // Sealing is deterministic, so a retried chunk is byte-for-byte the same
+    const start = index * FILE_CHUNK_SIZE;
+    const plaintext = new Uint8Array(await file.slice(start, start + FILE_CHUNK_SIZE).arrayBuffer());
+    const sealed = AdvancedCrypto.encryptFileChunk(plaintext, index, nonce, key);
+    const hash = AdvancedCrypto.hashData(sealed);
+    const stored = await realtimeService.putBlobChunk(blobId, index, chunkCount, sealed, hash);
+    if (stored) {
+      hashes[index] = hash;
+      onProgress?.(progress);
+    }
+    return stored;
+  };
+
+  const uploaded = Object.keys(hashes).map(Number).filter(index => index < chunkCount);
+  return new ChunkedTransfer(chunkCount, moveChunk, async (): Promise<MessageAttachment> => ({
+    blobId,
+    key,
+    nonce,
+    chunkCount,
+    digest: AdvancedCrypto.hashData(Array.from({ length: chunkCount }, (_, index) => hashes[index]).join('')),
+    contentHash: AdvancedCrypto.hashData(new Uint8Array(await file.arrayBuffer())),
+    name: file.name,
+    size: file.size,
+    type: file.type || 'application/octet-stream',
+  }), onChange, uploaded);
+}
+
+/**
+ * Fetch an attachment's chunks, checking and opening each as it arrives.
+ * The transfer resolves to the decrypted file.
+ */
+export function downloadEncryptedFile(
+  attachment: MessageAttachment,
+  onChange: (state: TransferState, percent: number) => void
+): ChunkedTransfer<Blob> {
+  const { blobId, chunkCount, nonce, key } = attachment;
+  const hashes: string[] = new Array(chunkCount);
+  const parts: Uint8Array[] = new Array(chunkCount);
+  const realtimeService = getRealtimeService();
+
+  const moveChunk = async (index: number) => {
+    const chunk = await realtimeService.getBlobChunk(blobId, index);
+    // A chunk damaged on the way is fetched again
+    if (!chunk || AdvancedCrypto.hashData(chunk.data) !== chunk.hash) return false;
+
+    const plaintext = AdvancedCrypto.decryptFileChunk(chunk.data, index, nonce, key);
+    if (!plaintext) throw new Error(`${attachment.name} could not be decrypted`);
+    hashes[index] = chunk.hash;
+    parts[index] = plaintext;
+    return true;
+  };
+
+  return new ChunkedTransfer(chunkCount, moveChunk, async () => {
+    if (AdvancedCrypto.hashData(hashes.join('')) !== attachment.digest) {
+      throw new Error(`${attachment.name} does not match what was sent`);
+    }
+    const blob = new Blob(parts as BlobPart[], { type: attachment.type });
+    // What a signature vouches for, so a forward cannot swap the file
+    if (attachment.contentHash &&
+      AdvancedCrypto.hashData(new Uint8Array(await blob.arrayBuffer())) !== attachment.contentHash) {
+      throw new Error(`${attachment.name} does not match what was sent`);
+    }
+    return blob;
+  }, onChange);
+}
+
+/**
+ * Hand a local file URL to the browser's download prompt
+ */
+export function saveFile(url: string, name: string): void {
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  link.click();
+}
@@ -0,0 +1,206 @@
+import { isString, parseJsonRecord } from './json-guards';
+import type { Chat, ChatPermissions, GroupEvent } from '../types/message';
+
+const MAX_NAME_LENGTH = 64;
+const MAX_DESCRIPTION_LENGTH = 512;
+// Avatars travel inline as small data URLs; an empty string clears the photo
+const MAX_AVATAR_LENGTH = 64 * 1024;
+
+/**
+ * Permissions of a new group: its creator is the only admin
+ */
+export function defaultGroupPermissions(createdBy: string): ChatPermissions {
+  return {
+    canAddMembers: [createdBy],
+    canRemoveMembers: [createdBy],
+    canEditInfo: [createdBy],
+    canDeleteMessages: [createdBy],
+    isPublic: false,
+  };
+}
+
+/**
+ * Channel permissions where every author is an admin, e.g. as listed by the relay
+ */
+export function authorPermissions(authors: string[], isPublic: boolean): ChatPermissions {
+  return {
+    canAddMembers: [...authors],
+    canRemoveMembers: [...authors],
+    canEditInfo: [...authors],
+    canDeleteMessages: [...authors],
+    isPublic,
+  };
+}
+
+/**
+ * Groups created before permissions existed fall back to creator-only admin
+ */
+export function groupPermissions(chat: Chat): ChatPermissions {
+  return chat.permissions ?? defaultGroupPermissions(chat.createdBy);
+}
+
+/**
+ * Admins hold every member-management and moderation permission
+ */
+export function isGroupAdmin(chat: Chat, userId: string): boolean {
+  const permissions = groupPermissions(chat);
+  return [
+    permissions.canAddMembers,
+    permissions.canRemoveMembers,
+    permissions.canEditInfo,
+    permissions.canDeleteMessages,
+  ].every(holders => holders.includes(userId));
+}
+
+/**
+ * Everyone posts in groups; only authors (a channel's admins) post in channels
+ */
+export function canPostIn(chat: Chat, userId: string): boolean {
+  return chat.type !== 'channel' || isGroupAdmin(chat, userId);
+}
+
+/**
+ * Private channels and groups are encrypted with sender keys; public channels are not
+ */
+export function usesSenderKeys(chat: Chat): boolean {
+  return chat.type === 'group' || (chat.type === 'channel' && chat.permissions?.isPublic === false);
+}
+
+export function isChatPermissions(value: unknown): value is ChatPermissions {
+  const permissions = value as ChatPermissions;
+  const isList = (list: unknown) => Array.isArray(list) && list.every(item => typeof item === 'string');
+  return !!permissions &&
+    isList(permissions.canAddMembers) &&
+    isList(permissions.canRemoveMembers) &&
+    isList(permissions.canEditInfo) &&
+    isList(permissions.canDeleteMessages) &&
+    typeof permissions.isPublic === 'boolean';
+}
+
+function isAvatar(value: unknown): value is string {
+  return typeof value === 'string' &&
+    value.length <= MAX_AVATAR_LENGTH &&
+    (value === '' || value.startsWith('data:image/'));
+}
+
+/**
+ * Parse a decrypted system message body, rejecting anything malformed
+ */
+export function parseGroupEvent(json: string): GroupEvent | null {
+  const event = parseJsonRecord(json);
+  if (!event) return null;
+
+  const { kind, member, name } = event;
+  switch (kind) {
+    case 'member_added':
+    case 'member_removed':
+    case 'admin_promoted':
+    case 'admin_demoted':
+      return isString(member) ? { kind, member } : null;
+    case 'renamed':
+      return isString(name) && name.trim() && name.length <= MAX_NAME_LENGTH
+        ? { kind: 'renamed', name: name.trim() }
+        : null;
+    case 'info_updated': {
+      const { description, avatar } = event;
+      if (description !== undefined && (!isString(description) || description.length > MAX_DESCRIPTION_LENGTH)) return null;
+      if (avatar !== undefined && !isAvatar(avatar)) return null;
+      return { kind: 'info_updated', description, avatar };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Why `actor` may not apply `event` to the group as it stands, or null if allowed.
+ * Every member runs this against its own copy of the group before applying.
+ */
+export function authorizeGroupEvent(chat: Chat, actor: string, event: GroupEvent): string | null {
+  if (!usesSenderKeys(chat)) return 'not a group';
+  if (!chat.participants.includes(actor)) return 'actor is not a member';
+
+  const permissions = groupPermissions(chat);
+  switch (event.kind) {
+    case 'member_added':
+      return permissions.canAddMembers.includes(actor) ? null : 'not allowed to add members';
+    case 'member_removed':
+      if (event.member === chat.createdBy) return 'the creator cannot be removed';
+      // Anyone may leave; removing others needs the permission
+      return event.member === actor || permissions.canRemoveMembers.includes(actor)
+        ? null
+        : 'not allowed to remove members';
+    case 'renamed':
+    case 'info_updated':
+      return permissions.canEditInfo.includes(actor) ? null : 'not allowed to edit group info';
+    case 'admin_promoted':
+    case 'admin_demoted':
+      if (!isGroupAdmin(chat, actor)) return 'only admins can change admins';
+      if (event.kind === 'admin_promoted' && !chat.participants.includes(event.member)) return 'not a member';
+      if (event.kind === 'admin_demoted' && event.member === chat.createdBy) return 'the creator cannot be demoted';
+      return null;
+  }
+}
+
+function withHolder(permissions: ChatPermissions, member: string, holds: boolean): ChatPermissions {
+  const update = (holders: string[]) => holds
+    ? [...new Set([...holders, member])]
+    : holders.filter(holder => holder !== member);
+  return {
+    ...permissions,
+    canAddMembers: update(permissions.canAddMembers),
+    canRemoveMembers: update(permissions.canRemoveMembers),
+    canEditInfo: update(permissions.canEditInfo),
+    canDeleteMessages: update(permissions.canDeleteMessages),
+  };
+}
+
+/**
+ * The chat fields an authorized event changes. Applying an event twice is harmless.
+ */
+export function applyGroupEvent(chat: Chat, event: GroupEvent): Partial<Chat> {
+  const permissions = groupPermissions(chat);
+  switch (event.kind) {
+    case 'member_added':
+      return { participants: [...new Set([...chat.participants, event.member])], permissions };
+    case 'member_removed':
+      return {
+        participants: chat.participants.filter(p => p !== event.member),
+        permissions: withHolder(permissions, event.member, false),
+      };
+    case 'renamed':
+      return { name: event.name };
+    case 'info_updated':
+      return {
+        ...(event.description !== undefined && { description: event.description }),
+        ...(event.avatar !== undefined && { avatar: event.avatar }),
+      };
+    case 'admin_promoted':
+      return { permissions: withHolder(permissions, event.member, true) };
+    case 'admin_demoted':
+      return { permissions: withHolder(permissions, event.member, false) };
+  }
+}
+
+/**
+ * One-line summary shown in the chat, e.g. "@alice added @bob"
+ */
+export function describeGroupEvent(event: GroupEvent, actor: string, nameOf: (userId: string) => string): string {
+  const who = nameOf(actor);
+  switch (event.kind) {
+    case 'member_added':
+      return `${who} added ${nameOf(event.member)}`;
+    case 'member_removed':
+      return event.member === actor ? `${who} left the group` : `${who} removed ${nameOf(event.member)}`;
+    case 'renamed':
+      return `${who} renamed the group to "${event.name}"`;
+    case 'info_updated':
+      return event.avatar !== undefined && event.description === undefined
+        ? `${who} changed the group photo`
+        : `${who} updated the group info`;
+    case 'admin_promoted':
+      return `${who} made ${nameOf(event.member)} an admin`;
+    case 'admin_demoted':
+      return `${who} removed ${nameOf(event.member)} as admin`;
+  }
+}
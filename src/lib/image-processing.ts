@@ -0,0 +1,319 @@
+export type ImageQuality = 'original' | 'compressed';
+
+// Formats we can decode and redraw everywhere. GIFs are left alone so they keep moving.
+const PROCESSED_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/avif', 'image/bmp'];
+
+// Longest side of a compressed image, in pixels
+const COMPRESSED_MAX_SIDE = 2048;
+const COMPRESSED_QUALITY = 0.82;
+// For originals that have to be redrawn, e.g. to bake in their rotation
+const ORIGINAL_QUALITY = 0.95;
+
+// Sizes and qualities tried for the inline placeholder, until one fits in
+// MAX_PLACEHOLDER_LENGTH; bubbles blur it back up to size
+const PLACEHOLDER_ATTEMPTS = [
+  { side: 16, quality: 0.6 },
+  { side: 12, quality: 0.4 },
+  { side: 8, quality: 0.3 },
+];
+// Longest placeholder a message may carry, sent or received
+export const MAX_PLACEHOLDER_LENGTH = 4096;
+
+export interface EncodeOptions {
+  maxSide: number;
+  type: string;
+  quality: number;
+}
+
+export interface MeasuredImage {
+  width: number; // Of the encoded image, or else of the source
+  height: number;
+  placeholder?: string; // Missing when even the smallest one is too long
+}
+
+export interface EncodedImage extends MeasuredImage {
+  image: Blob;
+}
+
+export type RenderResult = MeasuredImage | EncodedImage;
+
+export interface RenderRequest {
+  id: number;
+  image: Blob;
+  encode?: EncodeOptions;
+}
+
+export interface RenderResponse {
+  id: number;
+  result?: RenderResult;
+  error?: string;
+}
+
+export interface ProcessedImage {
+  file: File;
+  width?: number;
+  height?: number;
+  placeholder?: string;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+export function canProcessImage(type: string): boolean {
+  return PROCESSED_TYPES.includes(type);
+}
+
+/**
+ * Get a photo ready to send: metadata such as EXIF location is removed, and
+ * 'compressed' also scales it down. Originals keep their pixels untouched
+ * whenever the format allows the metadata to be cut out directly.
+ */
+export async function processImage(file: File, quality: ImageQuality): Promise<ProcessedImage> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const stripped = stripMetadata(bytes, file.type);
+
+  if (quality === 'original' && stripped) {
+    const measured = await render(file).catch(() => undefined);
+    return { file: new File([stripped], file.name, { type: file.type }), ...measured };
+  }
+
+  // Anything with transparency is kept in a format that has it
+  const type = file.type === 'image/jpeg' ? 'image/jpeg' : 'image/webp';
+  const encode = quality === 'original'
+    ? { maxSide: Infinity, type, quality: ORIGINAL_QUALITY }
+    : { maxSide: COMPRESSED_MAX_SIDE, type, quality: COMPRESSED_QUALITY };
+  const { image, width, height, placeholder } = await render(file, encode);
+
+  // Small pictures can come out of a redraw bigger than they went in
+  if (stripped && image.size >= stripped.size && Math.max(width, height) <= COMPRESSED_MAX_SIDE) {
+    return { file: new File([stripped], file.name, { type: file.type }), width, height, placeholder };
+  }
+  // Browsers that cannot write the requested format fall back to PNG
+  const name = file.name.replace(/\.[^.]*$/, '') + '.' + (EXTENSIONS[image.type] ?? 'png');
+  return { file: new File([image], name, { type: image.type }), width, height, placeholder };
+}
+
+let worker: Worker | null | undefined; // Null once we know it can't be used
+let nextRequestId = 0;
+const pending = new Map<number, {
+  request: RenderRequest;
+  resolve: (result: RenderResult) => void;
+  reject: (error: Error) => void;
+}>();
+
+function getWorker(): Worker | null {
+  if (worker !== undefined) return worker;
+  if (typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') return (worker = null);
+
+  try {
+    worker = new Worker(new URL('./image-worker.ts', import.meta.url), { type: 'module' });
+  } catch {
+    return (worker = null);
+  }
+  worker.onmessage = ({ data }: MessageEvent<RenderResponse>) => {
+    const job = pending.get(data.id);
+    if (!job) return;
+    pending.delete(data.id);
+    if (data.result) job.resolve(data.result);
+    else job.reject(new Error(data.error || 'Could not process image'));
+  };
+  // A worker that fails to load hands its queue back to the main thread
+  worker.onerror = () => {
+    worker?.terminate();
+    worker = null;
+    const jobs = [...pending.values()];
+    pending.clear();
+    jobs.forEach(({ request, resolve, reject }) => renderImage(request.image, request.encode).then(resolve, reject));
+  };
+  return worker;
+}
+
+/**
+ * Decode and redraw off the main thread where the browser allows it
+ */
+function render(image: Blob): Promise<MeasuredImage>;
+function render(image: Blob, encode: EncodeOptions): Promise<EncodedImage>;
+function render(image: Blob, encode?: EncodeOptions): Promise<RenderResult> {
+  const target = getWorker();
+  if (!target) return renderImage(image, encode);
+
+  const request: RenderRequest = { id: nextRequestId++, image, encode };
+  return new Promise((resolve, reject) => {
+    pending.set(request.id, { request, resolve, reject });
+    target.postMessage(request);
+  });
+}
+
+/**
+ * Decode an image, honouring its EXIF rotation, and draw a placeholder and,
+ * if asked, a re-encoded copy. Redrawing leaves every bit of metadata behind.
+ * Runs in the image worker, or on the main thread without one.
+ */
+export function renderImage(image: Blob): Promise<MeasuredImage>;
+export function renderImage(image: Blob, encode: EncodeOptions): Promise<EncodedImage>;
+export function renderImage(image: Blob, encode?: EncodeOptions): Promise<RenderResult>;
+export async function renderImage(image: Blob, encode?: EncodeOptions): Promise<RenderResult> {
+  const bitmap = await createImageBitmap(image, { imageOrientation: 'from-image' });
+  try {
+    const placeholder = await drawPlaceholder(bitmap);
+    if (!encode) return { width: bitmap.width, height: bitmap.height, placeholder };
+
+    const encoded = await drawScaled(bitmap, encode.maxSide, encode.type, encode.quality);
+    const scale = Math.min(1, encode.maxSide / Math.max(bitmap.width, bitmap.height));
+    return {
+      image: encoded,
+      width: Math.max(1, Math.round(bitmap.width * scale)),
+      height: Math.max(1, Math.round(bitmap.height * scale)),
+      placeholder,
+    };
+  } finally {
+    bitmap.close();
+  }
+}
+
+async function drawPlaceholder(bitmap: ImageBitmap): Promise<string | undefined> {
+  for (const { side, quality } of PLACEHOLDER_ATTEMPTS) {
+    const placeholder = await blobToDataUrl(await drawScaled(bitmap, side, 'image/jpeg', quality));
+    if (placeholder.length <= MAX_PLACEHOLDER_LENGTH) return placeholder;
+  }
+  return undefined;
+}
+
+async function drawScaled(bitmap: ImageBitmap, maxSide: number, type: string, quality: number): Promise<Blob> {
+  const scale = Math.min(1, maxSide / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+
+  const canvas = typeof OffscreenCanvas !== 'undefined'
+    ? new OffscreenCanvas(width, height)
+    : Object.assign(document.createElement('canvas'), { width, height });
+  const context = canvas.getContext('2d') as OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D | null;
+  if (!context) throw new Error('Could not process image');
+  // JPEG has no transparency, and would turn it black
+  if (type === 'image/jpeg') {
+    context.fillStyle = '#fff';
+    context.fillRect(0, 0, width, height);
+  }
+  context.drawImage(bitmap, 0, 0, width, height);
+
+  if (canvas instanceof HTMLCanvasElement) {
+    return new Promise((resolve, reject) => canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Could not process image'))),
+      type,
+      quality
+    ));
+  }
+  return canvas.convertToBlob({ type, quality });
+}
+
+async function blobToDataUrl(blob: Blob): Promise<string> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return `data:${blob.type};base64,${btoa(binary)}`;
+}
+
+/**
+ * The file without its metadata, cut out byte for byte so the pixels stay as
+ * they are. Null when that isn't possible and the image has to be redrawn.
+ */
+export function stripMetadata(bytes: Uint8Array<ArrayBuffer>, type: string): Blob | null {
+  const parts = type === 'image/jpeg' ? stripJpeg(bytes) : type === 'image/png' ? stripPng(bytes) : null;
+  return parts && new Blob(parts, { type });
+}
+
+const APP1 = 0xe1;
+const APP2 = 0xe2;
+// Segments with what a viewer needs: JFIF, ICC colour profile, Adobe colour transform
+const KEPT_APP_MARKERS = new Set([0xe0, APP2, 0xee]);
+
+function stripJpeg(bytes: Uint8Array<ArrayBuffer>): Uint8Array<ArrayBuffer>[] | null {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return null;
+
+  const parts = [bytes.subarray(0, 2)];
+  let offset = 2;
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) return null;
+    const marker = bytes[offset + 1];
+    if (marker === 0xff) {
+      offset++; // Padding
+      continue;
+    }
+    // Start of scan: image data up to the end marker. Whatever trails it,
+    // such as extra pictures phones append with their own EXIF, is dropped.
+    if (marker === 0xda) {
+      const end = findJpegEnd(bytes, offset);
+      if (end < 0) return null;
+      parts.push(bytes.subarray(offset, end));
+      return parts;
+    }
+
+    const end = offset + 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+    if (end < offset + 4 || end > bytes.length) return null;
+    const segment = bytes.subarray(offset, end);
+    // A rotated photo would lose its rotation along with the EXIF
+    if (marker === APP1 && exifOrientation(segment) > 1) return null;
+
+    // APP2 also carries the index of those trailing pictures
+    const isAppSegment = marker >= 0xe0 && marker <= 0xef;
+    const keptApp = KEPT_APP_MARKERS.has(marker) && (marker !== APP2 || startsWith(segment, 4, 'ICC_PROFILE'));
+    // Comments go too
+    if (marker !== 0xfe && (!isAppSegment || keptApp)) parts.push(segment);
+    offset = end;
+  }
+  return null;
+}
+
+function findJpegEnd(bytes: Uint8Array, from: number): number {
+  // Within the scan data a 0xff byte is always stuffed or a marker, so the
+  // first end-of-image marker is the real one
+  for (let i = from; i + 1 < bytes.length; i++) {
+    if (bytes[i] === 0xff && bytes[i + 1] === 0xd9) return i + 2;
+  }
+  return -1;
+}
+
+function exifOrientation(segment: Uint8Array): number {
+  if (!startsWith(segment, 4, 'Exif') || segment.length < 18) return 1;
+  const view = new DataView(segment.buffer, segment.byteOffset, segment.byteLength);
+  const tiff = 10;
+  const little = view.getUint16(tiff) === 0x4949;
+  const ifd = tiff + view.getUint32(tiff + 4, little);
+  if (ifd + 2 > segment.length) return 1;
+
+  const count = view.getUint16(ifd, little);
+  for (let i = 0; i < count; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (entry + 12 > segment.length) break;
+    if (view.getUint16(entry, little) === 0x0112) return view.getUint16(entry + 8, little);
+  }
+  return 1;
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+// EXIF, free-form text such as camera or author, and the last-modified time
+const DROPPED_PNG_CHUNKS = new Set(['eXIf', 'tEXt', 'zTXt', 'iTXt', 'tIME']);
+
+function stripPng(bytes: Uint8Array<ArrayBuffer>): Uint8Array<ArrayBuffer>[] | null {
+  if (!PNG_SIGNATURE.every((byte, i) => bytes[i] === byte)) return null;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const parts = [bytes.subarray(0, 8)];
+  let offset = 8;
+  while (offset + 12 <= bytes.length) {
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const end = offset + 12 + view.getUint32(offset); // Length, type, data, CRC
+    if (end > bytes.length) return null;
+    if (!DROPPED_PNG_CHUNKS.has(type)) parts.push(bytes.subarray(offset, end));
+    offset = end;
+    if (type === 'IEND') return parts;
+  }
+  return null;
+}
+
+function startsWith(bytes: Uint8Array, offset: number, text: string): boolean {
+  return [...text].every((char, i) => bytes[offset + i] === char.charCodeAt(0));
+}
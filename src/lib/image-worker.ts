@@ -0,0 +1,18 @@
+import { renderImage, type RenderRequest, type RenderResponse } from './image-processing';
+
+/**
+ * Decodes and redraws photos away from the main thread, so a large one
+ * doesn't stall the chat while it is prepared for sending
+ */
+const scope = self as unknown as Worker;
+
+scope.onmessage = async ({ data }: MessageEvent<RenderRequest>) => {
+  const { id, image, encode } = data;
+  let response: RenderResponse;
+  try {
+    response = { id, result: await renderImage(image, encode) };
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : String(error) };
+  }
+  scope.postMessage(response);
+};
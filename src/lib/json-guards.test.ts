@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { isFiniteNumber, isRecord, isString, parseJsonRecord } from './json-guards';
+
+describe('json guards', () => {
+  it('only takes plain objects as records', () => {
+    expect(isRecord({ a: 1 })).toBe(true);
+    expect(isRecord([])).toBe(false);
+    expect(isRecord(null)).toBe(false);
+    expect(isRecord('text')).toBe(false);
+  });
+
+  it('tells strings and finite numbers apart from look-alikes', () => {
+    expect(isString('')).toBe(true);
+    expect(isString(1)).toBe(false);
+    expect(isFiniteNumber(0)).toBe(true);
+    expect(isFiniteNumber(NaN)).toBe(false);
+    expect(isFiniteNumber(Infinity)).toBe(false);
+    expect(isFiniteNumber('1')).toBe(false);
+  });
+
+  it('parses objects and rejects anything else', () => {
+    expect(parseJsonRecord('{"messageId":"m1"}')).toEqual({ messageId: 'm1' });
+    expect(parseJsonRecord('[1,2]')).toBeNull();
+    expect(parseJsonRecord('null')).toBeNull();
+    expect(parseJsonRecord('"text"')).toBeNull();
+    expect(parseJsonRecord('{not json')).toBeNull();
+  });
+});
@@ -0,0 +1,28 @@
+/**
+ * Type guards for JSON from other devices: decrypted and signed, but still
+ * whatever the sender chose to put there
+ */
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function isString(value: unknown): value is string {
+  return typeof value === 'string';
+}
+
+export function isFiniteNumber(value: unknown): value is number {
+  return Number.isFinite(value);
+}
+
+/**
+ * The object `json` holds, or null if it is malformed or not an object
+ */
+export function parseJsonRecord(json: string): Record<string, unknown> | null {
+  try {
+    const value: unknown = JSON.parse(json);
+    return isRecord(value) ? value : null;
+  } catch {
+    return null;
+  }
+}
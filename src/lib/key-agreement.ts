@@ -0,0 +1,320 @@
+import { encode as encodeBase58, decode as decodeBase58 } from 'bs58';
+import { encode as encodeUTF8 } from '@stablelib/utf8';
+import { box, hash, sign } from 'tweetnacl';
+import { nanoid } from 'nanoid';
+import { AdvancedCrypto, type EncryptedData, type KeyPair } from './advanced-crypto';
+import { getRealtimeService } from './realtime-communication';
+
+/**
+ * Signs arbitrary bytes with the connected wallet (wallet-adapter `signMessage`)
+ */
+export type WalletMessageSigner = (message: Uint8Array) => Promise<Uint8Array>;
+
+/**
+ * Public messaging keys of one device, attested by its wallet's signature
+ */
+export interface MessagingKeyRecord {
+  userId: string; // Wallet public key
+  deviceId: string;
+  deviceName: string;
+  messagingKey: string; // X25519 public key (base58)
+  signingKey: string; // Ed25519 envelope signing key (base58)
+  attestation: string; // Wallet signature over the attestation message (base58)
+  createdAt: number;
+}
+
+/**
+ * Wallet-signed statement that a device must no longer be trusted
+ */
+export interface DeviceRevocation {
+  userId: string;
+  deviceId: string;
+  revokedAt: number;
+  signature: string; // Wallet signature over the revocation message (base58)
+}
+
+/**
+ * Every device a wallet has registered, as published on the relay
+ */
+export interface DeviceList {
+  userId: string;
+  devices: MessagingKeyRecord[];
+  revocations: DeviceRevocation[];
+}
+
+/**
+ * This device's key material, held in memory for the session
+ */
+export interface IdentityKeys {
+  deviceId: string;
+  messaging: KeyPair; // X25519, for key agreement
+  signing: KeyPair; // Ed25519, for signing envelopes
+}
+
+const KEY_RECORD_STORAGE_KEY = 'messaging_key_record';
+const DEVICE_KEYS_STORAGE_KEY = 'messaging_device_keys';
+// Device lists are refetched periodically so newly added devices get our messages
+const DIRECTORY_TTL_MS = 5 * 60 * 1000;
+
+function seedMessage(userId: string): string {
+  return [
+    'Chatrix messaging key v1',
+    '',
+    `Sign to unlock end-to-end encrypted messaging for ${userId}.`,
+    'This signature never leaves your device and costs nothing.',
+  ].join('\n');
+}
+
+function attestationMessage(record: Omit<MessagingKeyRecord, 'attestation'>): string {
+  return `Chatrix device key attestation v2:${record.userId}:${record.deviceId}:${record.deviceName}:${record.messagingKey}:${record.signingKey}:${record.createdAt}`;
+}
+
+function revocationMessage(revocation: Omit<DeviceRevocation, 'signature'>): string {
+  return `Chatrix device revocation v1:${revocation.userId}:${revocation.deviceId}:${revocation.revokedAt}`;
+}
+
+/**
+ * Short human-readable label for this browser, e.g. "Chrome on macOS"
+ */
+function describeDevice(): string {
+  const ua = typeof navigator !== 'undefined' ? navigator.userAgent : '';
+  const browser = /Edg\//.test(ua) ? 'Edge'
+    : /Firefox\//.test(ua) ? 'Firefox'
+    : /Chrome\//.test(ua) ? 'Chrome'
+    : /Safari\//.test(ua) ? 'Safari'
+    : 'Browser';
+  const os = /Android/.test(ua) ? 'Android'
+    : /iPhone|iPad/.test(ua) ? 'iOS'
+    : /Mac OS X/.test(ua) ? 'macOS'
+    : /Windows/.test(ua) ? 'Windows'
+    : /Linux/.test(ua) ? 'Linux'
+    : 'unknown OS';
+  return `${browser} on ${os}`;
+}
+
+function serializeKeyPair(keyPair: KeyPair) {
+  return { publicKey: encodeBase58(keyPair.publicKey), secretKey: encodeBase58(keyPair.secretKey) };
+}
+
+function deserializeKeyPair(stored: { publicKey: string; secretKey: string }): KeyPair {
+  return { publicKey: decodeBase58(stored.publicKey), secretKey: decodeBase58(stored.secretKey) };
+}
+
+/**
+ * Load this device's keys, generating them on first use. The secrets are
+ * random per device and stored sealed under a key derived from a
+ * deterministic wallet signature, so only the wallet can unlock them.
+ */
+export async function loadDeviceKeys(
+  userId: string,
+  signMessage: WalletMessageSigner
+): Promise<IdentityKeys> {
+  const signature = await signMessage(encodeUTF8(seedMessage(userId)));
+  const vaultKey = hash(signature).slice(0, 32);
+  const storageKey = `${DEVICE_KEYS_STORAGE_KEY}:${userId}`;
+
+  try {
+    const stored = localStorage.getItem(storageKey);
+    if (stored) {
+      const json = AdvancedCrypto.decryptWithSharedSecret(JSON.parse(stored) as EncryptedData, vaultKey);
+      if (json) {
+        const keys = JSON.parse(json);
+        return {
+          deviceId: keys.deviceId,
+          messaging: deserializeKeyPair(keys.messaging),
+          signing: deserializeKeyPair(keys.signing),
+        };
+      }
+    }
+  } catch (error) {
+    console.warn('Ignoring unreadable device keys:', error);
+  }
+
+  const keys: IdentityKeys = {
+    deviceId: nanoid(),
+    messaging: box.keyPair(),
+    signing: sign.keyPair(),
+  };
+  const sealed = AdvancedCrypto.encryptWithSharedSecret(JSON.stringify({
+    deviceId: keys.deviceId,
+    messaging: serializeKeyPair(keys.messaging),
+    signing: serializeKeyPair(keys.signing),
+  }), vaultKey);
+  localStorage.setItem(storageKey, JSON.stringify(sealed));
+  return keys;
+}
+
+function verifyWalletSignature(message: string, signature: string, userId: string): boolean {
+  try {
+    return sign.detached.verify(encodeUTF8(message), decodeBase58(signature), decodeBase58(userId));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Verify that a key record was attested by the wallet it claims to belong to
+ */
+export function verifyKeyRecord(record: MessagingKeyRecord): boolean {
+  return verifyWalletSignature(attestationMessage(record), record.attestation, record.userId);
+}
+
+export function verifyRevocation(revocation: DeviceRevocation): boolean {
+  return verifyWalletSignature(revocationMessage(revocation), revocation.signature, revocation.userId);
+}
+
+/**
+ * Load the locally cached key record, or have the wallet attest a new one
+ */
+export async function getOrCreateKeyRecord(
+  userId: string,
+  keys: IdentityKeys,
+  signMessage: WalletMessageSigner
+): Promise<MessagingKeyRecord> {
+  const messagingKey = encodeBase58(keys.messaging.publicKey);
+  const signingKey = encodeBase58(keys.signing.publicKey);
+
+  try {
+    const stored = localStorage.getItem(KEY_RECORD_STORAGE_KEY);
+    const cached: MessagingKeyRecord | null = stored ? JSON.parse(stored) : null;
+    if (
+      cached?.userId === userId &&
+      cached.deviceId === keys.deviceId &&
+      cached.messagingKey === messagingKey &&
+      cached.signingKey === signingKey &&
+      verifyKeyRecord(cached)
+    ) {
+      return cached;
+    }
+  } catch (error) {
+    console.warn('Ignoring unreadable messaging key record:', error);
+  }
+
+  const unsigned = {
+    userId,
+    deviceId: keys.deviceId,
+    deviceName: describeDevice(),
+    messagingKey,
+    signingKey,
+    createdAt: Date.now(),
+  };
+  const attestation = await signMessage(encodeUTF8(attestationMessage(unsigned)));
+  const record: MessagingKeyRecord = {
+    ...unsigned,
+    attestation: encodeBase58(attestation),
+  };
+
+  localStorage.setItem(KEY_RECORD_STORAGE_KEY, JSON.stringify(record));
+  return record;
+}
+
+/**
+ * Have the wallet sign a revocation for one of its devices
+ */
+export async function createRevocation(
+  userId: string,
+  deviceId: string,
+  signMessage: WalletMessageSigner
+): Promise<DeviceRevocation> {
+  const unsigned = { userId, deviceId, revokedAt: Date.now() };
+  const signature = await signMessage(encodeUTF8(revocationMessage(unsigned)));
+  return { ...unsigned, signature: encodeBase58(signature) };
+}
+
+/**
+ * Compute the shared secret between our messaging key and a peer device's record
+ */
+export function deriveSharedSecret(myKeyPair: KeyPair, record: MessagingKeyRecord): Uint8Array {
+  return AdvancedCrypto.performKeyExchange(myKeyPair.secretKey, decodeBase58(record.messagingKey));
+}
+
+/**
+ * Resolves and caches the attested device keys of wallets via the relay
+ */
+export class KeyDirectory {
+  private lists = new Map<string, DeviceList>();
+  private fetchedAt = new Map<string, number>();
+  private pending = new Map<string, Promise<DeviceList | null>>();
+
+  /**
+   * Active (attested, not revoked) devices of a wallet
+   */
+  async resolve(userId: string): Promise<MessagingKeyRecord[]> {
+    const cached = this.lists.get(userId);
+    const fresh = Date.now() - (this.fetchedAt.get(userId) ?? 0) < DIRECTORY_TTL_MS;
+    if (cached && fresh) return cached.devices;
+
+    const list = await this.lookup(userId);
+    return (list ?? cached)?.devices ?? [];
+  }
+
+  /**
+   * One device's record. An unknown device triggers a single refresh, since
+   * the wallet may have registered it after we cached its list.
+   */
+  async resolveDevice(userId: string, deviceId: string): Promise<MessagingKeyRecord | null> {
+    const find = (list: DeviceList | null | undefined) => list?.devices.find(d => d.deviceId === deviceId) ?? null;
+
+    const cached = this.lists.get(userId);
+    if (find(cached)) return find(cached);
+    if (cached?.revocations.some(r => r.deviceId === deviceId)) return null;
+
+    this.forget(userId);
+    return find(await this.lookup(userId));
+  }
+
+  isRevoked(userId: string, deviceId: string): boolean {
+    return !!this.lists.get(userId)?.revocations.some(r => r.deviceId === deviceId);
+  }
+
+  /**
+   * Cache a device list, keeping only records and revocations signed by its wallet
+   */
+  remember(list: DeviceList): DeviceList {
+    const revocations = (list.revocations || []).filter(r => r.userId === list.userId && verifyRevocation(r));
+    const revoked = new Set(revocations.map(r => r.deviceId));
+    const devices = (list.devices || []).filter(record => {
+      if (record.userId !== list.userId || revoked.has(record.deviceId)) return false;
+      if (!verifyKeyRecord(record)) {
+        console.warn(`Rejected device ${record.deviceId} of ${list.userId}: invalid wallet attestation`);
+        return false;
+      }
+      return true;
+    });
+
+    const verified = { userId: list.userId, devices, revocations };
+    this.lists.set(list.userId, verified);
+    this.fetchedAt.set(list.userId, Date.now());
+    return verified;
+  }
+
+  forget(userId: string): void {
+    this.lists.delete(userId);
+    this.fetchedAt.delete(userId);
+  }
+
+  private lookup(userId: string): Promise<DeviceList | null> {
+    let lookup = this.pending.get(userId);
+    if (!lookup) {
+      lookup = this.fetch(userId).finally(() => this.pending.delete(userId));
+      this.pending.set(userId, lookup);
+    }
+    return lookup;
+  }
+
+  private async fetch(userId: string): Promise<DeviceList | null> {
+    const list = await getRealtimeService().requestDeviceList(userId);
+    if (!list || list.userId !== userId) return null;
+    return this.remember(list);
+  }
+}
+
+// Singleton instance
+let keyDirectory: KeyDirectory | null = null;
+
+export function getKeyDirectory(): KeyDirectory {
+  if (!keyDirectory) {
+    keyDirectory = new KeyDirectory();
+  }
+  return keyDirectory;
+}
@@ -0,0 +1,96 @@
+import { format } from 'date-fns';
+import type { Message } from '../types/message';
+
+export type MediaKind = 'image' | 'video' | 'voice' | 'file';
+
+// Images up to this size are fetched as soon as they are shown
+export const AUTO_DOWNLOAD_BYTES = 5 * 1024 * 1024;
+
+const THUMBNAIL_SIZE = 160;
+
+/**
+ * What a message carries, if anything; deleted messages carry nothing
+ */
+export function mediaKind(message: Message): MediaKind | null {
+  if (message.deleted || !(message.attachment || message.fileUrl)) return null;
+  if (message.messageType === 'voice') return 'voice';
+  const type = message.attachment?.type ?? message.fileType ?? '';
+  if (type.startsWith('image/')) return 'image';
+  if (type.startsWith('video/')) return 'video';
+  return 'file';
+}
+
+/**
+ * Ids of a chat's messages that carry media, oldest first
+ */
+export function indexMedia(messages: Message[]): string[] {
+  return messages.filter(m => mediaKind(m) !== null).map(m => m.id);
+}
+
+export interface MonthGroup {
+  key: string; // yyyy-MM
+  label: string;
+  messages: Message[];
+}
+
+/**
+ * Messages bucketed by the month they were sent, newest first
+ */
+export function groupByMonth(messages: Message[]): MonthGroup[] {
+  const groups = new Map<string, MonthGroup>();
+  [...messages].sort((a, b) => b.timestamp - a.timestamp).forEach(message => {
+    const date = new Date(message.timestamp);
+    const key = format(date, 'yyyy-MM');
+    if (!groups.has(key)) groups.set(key, { key, label: format(date, 'MMMM yyyy'), messages: [] });
+    groups.get(key)!.messages.push(message);
+  });
+  return [...groups.values()];
+}
+
+/**
+ * Small square JPEG of an image, or of a video's first frame, as a data URL.
+ * Undefined when the browser cannot decode the file.
+ */
+export async function createThumbnail(url: string, type: string): Promise<string | undefined> {
+  try {
+    let source: HTMLImageElement | HTMLVideoElement;
+    let width: number;
+    let height: number;
+
+    if (type.startsWith('image/')) {
+      const image = new Image();
+      image.src = url;
+      await image.decode();
+      [source, width, height] = [image, image.naturalWidth, image.naturalHeight];
+    } else if (type.startsWith('video/')) {
+      const video = document.createElement('video');
+      video.muted = true;
+      video.preload = 'auto';
+      video.src = url;
+      await new Promise((resolve, reject) => {
+        video.onloadeddata = resolve;
+        video.onerror = reject;
+      });
+      video.currentTime = Math.min(0.1, video.duration / 2 || 0);
+      await new Promise(resolve => { video.onseeked = resolve; });
+      [source, width, height] = [video, video.videoWidth, video.videoHeight];
+    } else {
+      return undefined;
+    }
+    if (!width || !height) return undefined;
+
+    // Crop to the centred square, then scale it down
+    const side = Math.min(width, height);
+    const canvas = document.createElement('canvas');
+    canvas.width = canvas.height = Math.min(THUMBNAIL_SIZE, side);
+    canvas.getContext('2d')!.drawImage(
+      source,
+      (width - side) / 2, (height - side) / 2, side, side,
+      0, 0, canvas.width, canvas.height
+    );
+    return canvas.toDataURL('image/jpeg', 0.7);
+  } catch (error) {
+    console.warn('Could not create thumbnail:', error);
+    return undefined;
+  }
+}
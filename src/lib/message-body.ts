@@ -0,0 +1,170 @@
+import { AdvancedCrypto, type KeyPair } from './advanced-crypto';
+import { canonicalize } from './envelope-auth';
+import { getKeyDirectory } from './key-agreement';
+import { isFiniteNumber, isRecord, isString, parseJsonRecord } from './json-guards';
+import { MAX_PLACEHOLDER_LENGTH } from './image-processing';
+import { WAVEFORM_BARS } from './voice-note';
+import type { ContentAttestation, ForwardedFrom, MessageAttachment } from '../types/message';
+
+const BODY_VERSION = 1;
+
+/**
+ * What a chat message encrypts: its text plus what has to stay private with it
+ */
+export interface MessageBody {
+  content: string;
+  attachment?: MessageAttachment;
+  attestation?: ContentAttestation;
+  forwardedFrom?: ForwardedFrom;
+}
+
+export function parseAttestation(value: unknown): ContentAttestation | undefined {
+  if (!isRecord(value)) return undefined;
+  const { senderDevice, signedAt, signature } = value;
+  return isString(senderDevice) && isFiniteNumber(signedAt) && isString(signature)
+    ? { senderDevice, signedAt, signature }
+    : undefined;
+}
+
+function parseAttachment(value: unknown): MessageAttachment | undefined {
+  if (!isRecord(value)) return undefined;
+  const { blobId, key, nonce, chunkCount, digest, contentHash, name, size, type, duration, placeholder } = value;
+  const valid = isString(blobId) && isString(key) && isString(nonce) &&
+    isFiniteNumber(chunkCount) && Number.isInteger(chunkCount) && chunkCount > 0 && isString(digest) &&
+    isString(name) && isFiniteNumber(size) && isString(type);
+  return valid
+    ? {
+        blobId,
+        key,
+        nonce,
+        chunkCount,
+        digest,
+        contentHash: isString(contentHash) ? contentHash : undefined,
+        name,
+        size,
+        type,
+        duration: isFiniteNumber(duration) && duration >= 0 ? duration : undefined,
+        waveform: parseWaveform(value.waveform),
+        width: parseDimension(value.width),
+        height: parseDimension(value.height),
+        placeholder: isString(placeholder) && placeholder.startsWith('data:image/') &&
+          placeholder.length <= MAX_PLACEHOLDER_LENGTH ? placeholder : undefined,
+      }
+    : undefined;
+}
+
+function parseWaveform(value: unknown): number[] | undefined {
+  const isLevel = (level: unknown): level is number => isFiniteNumber(level) && level >= 0 && level <= 1;
+  return Array.isArray(value) && value.length <= WAVEFORM_BARS && value.every(isLevel) ? value : undefined;
+}
+
+function parseDimension(value: unknown): number | undefined {
+  return isFiniteNumber(value) && Number.isInteger(value) && value > 0 ? value : undefined;
+}
+
+function parseForwardedFrom(value: unknown): ForwardedFrom | undefined {
+  if (!isRecord(value)) return undefined;
+  const { messageId, sender, senderUsername, timestamp } = value;
+  if (!isString(messageId) || !isString(sender) || !isFiniteNumber(timestamp)) return undefined;
+  return {
+    messageId,
+    sender,
+    senderUsername: isString(senderUsername) ? senderUsername : undefined,
+    timestamp,
+    attestation: parseAttestation(value.attestation),
+  };
+}
+
+export function encodeBody(body: MessageBody): string {
+  // Whether a forward verified is for each recipient to decide
+  const forwardedFrom = body.forwardedFrom && { ...body.forwardedFrom, verified: undefined };
+  return JSON.stringify({ v: BODY_VERSION, ...body, forwardedFrom });
+}
+
+/**
+ * Read a decrypted message. Plain text from clients that predate message bodies
+ * is taken as the content.
+ */
+export function decodeBody(plaintext: string): MessageBody {
+  const body = parseJsonRecord(plaintext);
+  if (body?.v !== BODY_VERSION || !isString(body.content)) return { content: plaintext };
+
+  return {
+    content: body.content,
+    attachment: parseAttachment(body.attachment),
+    attestation: parseAttestation(body.attestation),
+    forwardedFrom: parseForwardedFrom(body.forwardedFrom),
+  };
+}
+
+/**
+ * The part of an attachment a signature covers. With a content hash that is the
+ * file itself, not the key and blob it travels under, so the signature still
+ * holds once a forward has re-encrypted it.
+ */
+function signedAttachment(attachment?: MessageAttachment): Partial<MessageAttachment> | undefined {
+  if (!attachment?.contentHash) return attachment;
+  const { contentHash, name, size, type, duration, waveform, width, height, placeholder } = attachment;
+  return { contentHash, name, size, type, duration, waveform, width, height, placeholder };
+}
+
+function attestationPayload(
+  messageId: string,
+  sender: string,
+  senderDevice: string,
+  signedAt: number,
+  content: string,
+  attachment?: MessageAttachment
+): string {
+  return canonicalize({
+    purpose: 'chatrix-message-content-v1',
+    messageId,
+    sender,
+    senderDevice,
+    signedAt,
+    content,
+    attachment: signedAttachment(attachment),
+  });
+}
+
+/**
+ * Sign a message's content with a device signing key
+ */
+export function createAttestation(
+  messageId: string,
+  sender: string,
+  senderDevice: string,
+  signingKeyPair: KeyPair,
+  content: string,
+  attachment?: MessageAttachment
+): ContentAttestation {
+  const signedAt = Date.now();
+  const payload = attestationPayload(messageId, sender, senderDevice, signedAt, content, attachment);
+  return {
+    senderDevice,
+    signedAt,
+    signature: AdvancedCrypto.signMessage(payload, signingKeyPair.secretKey).signature,
+  };
+}
+
+/**
+ * Check that `sender` signed this content for `messageId` with a device it attested
+ * and has not revoked
+ */
+export async function verifyAttestation(
+  messageId: string,
+  sender: string,
+  attestation: ContentAttestation,
+  content: string,
+  attachment?: MessageAttachment
+): Promise<boolean> {
+  const record = await getKeyDirectory().resolveDevice(sender, attestation.senderDevice);
+  if (!record) return false;
+
+  const payload = attestationPayload(messageId, sender, attestation.senderDevice, attestation.signedAt, content, attachment);
+  return AdvancedCrypto.verifyMessageSignature(payload, {
+    signature: attestation.signature,
+    publicKey: record.signingKey,
+    timestamp: attestation.signedAt,
+  });
+}
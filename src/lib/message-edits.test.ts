@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyMessageEdit,
+  applyPinChange,
+  applyReactionChange,
+  authorizeMessageEdit,
+  parseMessageDeletion,
+  parseMessageEdit,
+  parsePinChange,
+  parseReactionChange,
+} from './message-edits';
+import type { Message } from '../types/message';
+
+function message(overrides: Partial<Message> = {}): Message {
+  return {
+    id: 'm1',
+    sender: 'alice',
+    recipient: 'bob',
+    content: 'first',
+    nonce: '',
+    timestamp: 100,
+    status: 'delivered',
+    messageType: 'text',
+    ...overrides,
+  };
+}
+
+describe('parsing message changes', () => {
+  it('accepts well-formed edits and rejects malformed ones', () => {
+    expect(parseMessageEdit('{"messageId":"m1","content":"fixed","editedAt":200}'))
+      .toEqual({ messageId: 'm1', content: 'fixed', editedAt: 200, attestation: undefined });
+    expect(parseMessageEdit('{"messageId":"m1","content":"   ","editedAt":200}')).toBeNull();
+    expect(parseMessageEdit('{"messageId":1,"content":"fixed","editedAt":200}')).toBeNull();
+    expect(parseMessageEdit('{"messageId":"m1","content":"fixed"}')).toBeNull();
+    expect(parseMessageEdit('not json')).toBeNull();
+  });
+
+  it('keeps only known reaction and pin actions', () => {
+    expect(parseReactionChange('{"messageId":"m1","emoji":"👍","action":"add"}'))
+      .toEqual({ messageId: 'm1', emoji: '👍', action: 'add' });
+    expect(parseReactionChange('{"messageId":"m1","emoji":"👍","action":"toggle"}')).toBeNull();
+    expect(parseReactionChange(`{"messageId":"m1","emoji":"${'x'.repeat(64)}","action":"add"}`)).toBeNull();
+    expect(parsePinChange('{"messageId":"m1","action":"pin","at":5}')).toEqual({ messageId: 'm1', action: 'pin', at: 5 });
+    expect(parsePinChange('{"messageId":"m1","action":"pin"}')).toBeNull();
+    expect(parseMessageDeletion('{"messageId":"m1","deletedAt":5}')).toEqual({ messageId: 'm1', deletedAt: 5 });
+    expect(parseMessageDeletion('[]')).toBeNull();
+  });
+});
+
+describe('merging edits', () => {
+  it('only lets the sender edit their own text', () => {
+    expect(authorizeMessageEdit(message(), 'alice')).toBeNull();
+    expect(authorizeMessageEdit(message(), 'bob')).not.toBeNull();
+    expect(authorizeMessageEdit(message({ deleted: true }), 'alice')).not.toBeNull();
+    expect(authorizeMessageEdit(message({ messageType: 'image' }), 'alice')).not.toBeNull();
+  });
+
+  it('settles on the latest revision whatever order edits arrive in', () => {
+    const original = message();
+    const late = applyMessageEdit(original, 'third', 300)!;
+    const afterLate = { ...original, ...late };
+    const early = applyMessageEdit(afterLate, 'second', 200)!;
+
+    expect(early.content).toBe('third');
+    expect(early.editedAt).toBe(300);
+    expect(early.revisions?.map(r => r.content)).toEqual(['first', 'second']);
+  });
+
+  it('ignores an edit it already has', () => {
+    const edited = { ...message(), ...applyMessageEdit(message(), 'second', 200)! };
+    expect(applyMessageEdit(edited, 'second', 200)).toBeNull();
+  });
+});
+
+describe('reactions and pins', () => {
+  it('counts each user once per emoji', () => {
+    const added = applyReactionChange(undefined, 'bob', { messageId: 'm1', emoji: '👍', action: 'add' })!;
+    expect(added).toEqual([{ emoji: '👍', users: ['bob'], count: 1 }]);
+    expect(applyReactionChange(added, 'bob', { messageId: 'm1', emoji: '👍', action: 'add' })).toBeNull();
+    expect(applyReactionChange(added, 'bob', { messageId: 'm1', emoji: '👍', action: 'remove' })).toEqual([]);
+  });
+
+  it('keeps the first pin and unpins once', () => {
+    const pinned = applyPinChange(undefined, 'alice', { messageId: 'm1', action: 'pin', at: 1 })!;
+    expect(applyPinChange(pinned, 'bob', { messageId: 'm1', action: 'pin', at: 2 })).toBeNull();
+    expect(applyPinChange(pinned, 'bob', { messageId: 'm1', action: 'unpin', at: 3 })).toEqual([]);
+    expect(applyPinChange([], 'bob', { messageId: 'm1', action: 'unpin', at: 3 })).toBeNull();
+  });
+});
@@ -0,0 +1,190 @@
+import { canPostIn, groupPermissions } from './group-admin';
+import { isFiniteNumber, isString, parseJsonRecord } from './json-guards';
+import { parseAttestation } from './message-body';
+import type {
+  Chat,
+  Message,
+  MessageDeletion,
+  MessageEdit,
+  MessageReaction,
+  MessageRevision,
+  PinChange,
+  PinnedMessage,
+  ReactionChange,
+} from '../types/message';
+
+const MAX_CONTENT_LENGTH = 64 * 1024;
+// Room for multi-codepoint emoji (skin tones, ZWJ sequences), but not for text
+const MAX_EMOJI_LENGTH = 32;
+
+export function parseMessageEdit(json: string): MessageEdit | null {
+  const edit = parseJsonRecord(json);
+  if (!edit) return null;
+
+  const { messageId, content, editedAt, attestation } = edit;
+  const valid = isString(messageId) &&
+    isString(content) &&
+    content.trim() !== '' &&
+    content.length <= MAX_CONTENT_LENGTH &&
+    isFiniteNumber(editedAt);
+  return valid ? { messageId, content, editedAt, attestation: parseAttestation(attestation) } : null;
+}
+
+/**
+ * Why `editor` may not edit `message`, or null if allowed.
+ * Only the original sender may change a message, and only its text.
+ */
+export function authorizeMessageEdit(message: Message, editor: string): string | null {
+  if (message.deleted) return 'message was deleted';
+  if (message.sender !== editor) return 'not the original sender';
+  if (message.messageType !== 'text') return 'only text messages can be edited';
+  return null;
+}
+
+/**
+ * Merge a revision written at `at` into the message. Revisions are ordered by
+ * time rather than arrival, so edits that arrive late or twice settle the same
+ * way on every device. Returns null if the revision is already known.
+ */
+export function applyMessageEdit(message: Message, content: string, at: number): Partial<Message> | null {
+  const versions: MessageRevision[] = [
+    ...(message.revisions ?? []),
+    { content: message.content, at: message.editedAt ?? message.timestamp },
+  ];
+  if (versions.some(v => v.at === at)) return null;
+
+  versions.push({ content, at });
+  versions.sort((a, b) => a.at - b.at);
+
+  const latest = versions[versions.length - 1];
+  return {
+    content: latest.content,
+    edited: true,
+    editedAt: latest.at,
+    revisions: versions.slice(0, -1),
+  };
+}
+
+export function parseMessageDeletion(json: string): MessageDeletion | null {
+  const deletion = parseJsonRecord(json);
+  if (!deletion) return null;
+
+  const { messageId, deletedAt } = deletion;
+  return isString(messageId) && isFiniteNumber(deletedAt) ? { messageId, deletedAt } : null;
+}
+
+/**
+ * Why `actor` may not delete `message` for everyone in `chat`, or null if allowed.
+ * Senders may delete their own messages; in groups and channels, holders of
+ * canDeleteMessages may delete anyone's.
+ */
+export function authorizeMessageDeletion(chat: Chat, message: Message, actor: string): string | null {
+  if (message.messageType === 'system') return 'group changes cannot be deleted';
+  if (message.sender === actor) return null;
+  if (chat.type === 'direct') return 'not the original sender';
+  return groupPermissions(chat).canDeleteMessages.includes(actor) ? null : 'not allowed to delete messages';
+}
+
+/**
+ * What is left of a message once it is tombstoned
+ */
+export function tombstone(deletedAt: number): Partial<Message> {
+  return {
+    content: '',
+    deleted: true,
+    deletedAt,
+    edited: false,
+    editedAt: undefined,
+    revisions: undefined,
+    reactions: undefined,
+    fileUrl: undefined,
+    fileName: undefined,
+    fileSize: undefined,
+    fileType: undefined,
+  };
+}
+
+export function parseReactionChange(json: string): ReactionChange | null {
+  const change = parseJsonRecord(json);
+  if (!change) return null;
+
+  const { messageId, emoji, action } = change;
+  const valid = isString(messageId) &&
+    isString(emoji) &&
+    emoji.trim() !== '' &&
+    emoji.length <= MAX_EMOJI_LENGTH &&
+    (action === 'add' || action === 'remove');
+  return valid ? { messageId, emoji, action } : null;
+}
+
+/**
+ * Why `message` cannot take reactions, or null if it can
+ */
+export function authorizeReaction(message: Message): string | null {
+  if (message.deleted) return 'message was deleted';
+  if (message.messageType === 'system') return 'group changes cannot be reacted to';
+  return null;
+}
+
+/**
+ * Add or withdraw `user`'s `emoji`. Each user counts once per emoji, so
+ * repeated changes are harmless. Returns null if nothing changes.
+ */
+export function applyReactionChange(
+  reactions: MessageReaction[] | undefined,
+  user: string,
+  change: ReactionChange
+): MessageReaction[] | null {
+  const current = reactions ?? [];
+  const existing = current.find(r => r.emoji === change.emoji);
+  const hasReacted = !!existing?.users.includes(user);
+  if ((change.action === 'add') === hasReacted) return null;
+
+  if (change.action === 'add') {
+    return existing
+      ? current.map(r => r === existing ? { ...r, users: [...r.users, user], count: r.count + 1 } : r)
+      : [...current, { emoji: change.emoji, users: [user], count: 1 }];
+  }
+
+  return current
+    .map(r => r === existing ? { ...r, users: r.users.filter(u => u !== user), count: r.count - 1 } : r)
+    .filter(r => r.count > 0);
+}
+
+export function parsePinChange(json: string): PinChange | null {
+  const change = parseJsonRecord(json);
+  if (!change) return null;
+
+  const { messageId, action, at } = change;
+  const valid = isString(messageId) && (action === 'pin' || action === 'unpin') && isFiniteNumber(at);
+  return valid ? { messageId, action, at } : null;
+}
+
+/**
+ * Why `actor` may not pin or unpin `message`, or null if allowed.
+ * Anyone who can post in the chat may change its pins.
+ */
+export function authorizePinChange(chat: Chat, message: Message, actor: string): string | null {
+  if (message.deleted) return 'message was deleted';
+  if (message.messageType === 'system') return 'group changes cannot be pinned';
+  if (!canPostIn(chat, actor)) return 'only channel authors can pin';
+  return null;
+}
+
+/**
+ * Pin or unpin a message. Pinning an already pinned message keeps the first pin,
+ * so repeated changes are harmless. Returns null if nothing changes.
+ */
+export function applyPinChange(
+  pins: PinnedMessage[] | undefined,
+  actor: string,
+  change: PinChange
+): PinnedMessage[] | null {
+  const current = pins ?? [];
+  const isPinned = current.some(p => p.messageId === change.messageId);
+  if ((change.action === 'pin') === isPinned) return null;
+
+  return change.action === 'pin'
+    ? [...current, { messageId: change.messageId, pinnedBy: actor, pinnedAt: change.at }]
+    : current.filter(p => p.messageId !== change.messageId);
+}
@@ -0,0 +1,220 @@
+import type { RealtimeMessage } from './realtime-communication';
+
+export interface OutboxEntry {
+  id: string; // Envelope id (one per recipient device)
+  owner: string; // Wallet that queued the envelope
+  envelope: RealtimeMessage; // Signed ciphertext envelope, ready to resend as-is
+  attempts: number;
+  nextAttemptAt: number;
+  failed: boolean;
+  createdAt: number;
+}
+
+export type OutboxTransmit = (envelope: RealtimeMessage) => Promise<boolean>;
+export type OutboxSettled = (entry: OutboxEntry, status: 'sent' | 'failed') => void;
+
+const DB_NAME = 'chatrix-outbox';
+const DB_VERSION = 1;
+const STORE_NAME = 'envelopes';
+
+const MAX_ATTEMPTS = 6;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30000;
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      store.createIndex('owner', 'owner');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Chat message an envelope carries; a message fans out to one envelope per device
+ */
+function messageIdOf(entry: OutboxEntry): string {
+  return entry.envelope.data?.messageId ?? entry.id;
+}
+
+function backoffDelay(attempts: number): number {
+  const delay = Math.min(BASE_BACKOFF_MS * Math.pow(2, attempts), MAX_BACKOFF_MS);
+  // Jitter so many queued envelopes don't retry in lockstep
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+/**
+ * Persistent queue of outgoing envelopes. Entries survive reloads in
+ * IndexedDB and are retried with exponential backoff until the relay
+ * acknowledges them; after MAX_ATTEMPTS they are kept as failed so the
+ * user can retry the exact same ciphertext.
+ */
+export class Outbox {
+  private entries = new Map<string, OutboxEntry>();
+  private db: Promise<IDBDatabase | null>;
+  private loaded: Promise<void>;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private flushing = false;
+
+  constructor(
+    private owner: string,
+    private transmit: OutboxTransmit,
+    private isOnline: () => boolean,
+    private onSettled: OutboxSettled
+  ) {
+    this.db = openDatabase().catch((error) => {
+      console.warn('IndexedDB unavailable, outbox will not survive reloads:', error);
+      return null;
+    });
+    this.loaded = this.load();
+  }
+
+  async enqueue(envelope: RealtimeMessage): Promise<void> {
+    await this.loaded;
+    const entry: OutboxEntry = {
+      id: envelope.id,
+      owner: this.owner,
+      envelope,
+      attempts: 0,
+      nextAttemptAt: Date.now(),
+      failed: false,
+      createdAt: Date.now(),
+    };
+    this.entries.set(entry.id, entry);
+    await this.persist(entry);
+    this.flush();
+  }
+
+  /**
+   * Re-arm the failed envelopes of a message. Returns false when the outbox
+   * no longer holds any of them.
+   */
+  async retry(messageId: string): Promise<boolean> {
+    await this.loaded;
+    const failed = [...this.entries.values()].filter(e => e.failed && messageIdOf(e) === messageId);
+    if (failed.length === 0) return false;
+
+    for (const entry of failed) {
+      entry.failed = false;
+      entry.attempts = 0;
+      entry.nextAttemptAt = Date.now();
+      await this.persist(entry);
+    }
+    this.flush();
+    return true;
+  }
+
+  /**
+   * Messages with at least one envelope still waiting for the relay
+   */
+  async pendingIds(): Promise<Set<string>> {
+    await this.loaded;
+    return new Set([...this.entries.values()].filter(e => !e.failed).map(messageIdOf));
+  }
+
+  /**
+   * Send everything that is due, strictly oldest first: while one envelope is
+   * backing off the rest wait, so e.g. a group's sender key always reaches
+   * the relay before the messages encrypted with it.
+   */
+  async flush(): Promise<void> {
+    await this.loaded;
+    if (this.flushing || !this.isOnline()) return;
+    this.flushing = true;
+
+    try {
+      const now = Date.now();
+      const queue = [...this.entries.values()]
+        .filter(e => !e.failed)
+        .sort((a, b) => a.createdAt - b.createdAt);
+
+      for (const entry of queue) {
+        if (entry.nextAttemptAt > now || !this.isOnline()) break;
+
+        const acknowledged = await this.transmit(entry.envelope);
+        if (acknowledged) {
+          await this.remove(entry.id);
+          this.onSettled(entry, 'sent');
+          continue;
+        }
+
+        entry.attempts += 1;
+        if (entry.attempts >= MAX_ATTEMPTS) {
+          entry.failed = true;
+          this.onSettled(entry, 'failed');
+          await this.persist(entry);
+          continue;
+        }
+
+        entry.nextAttemptAt = Date.now() + backoffDelay(entry.attempts);
+        await this.persist(entry);
+        break;
+      }
+    } finally {
+      this.flushing = false;
+      this.scheduleNextFlush();
+    }
+  }
+
+  stop(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+  }
+
+  private scheduleNextFlush(): void {
+    this.stop();
+    const pending = [...this.entries.values()].filter(e => !e.failed);
+    if (pending.length === 0) return;
+
+    const next = Math.min(...pending.map(e => e.nextAttemptAt));
+    this.flushTimer = setTimeout(() => this.flush(), Math.max(0, next - Date.now()));
+  }
+
+  private async load(): Promise<void> {
+    const db = await this.db;
+    if (!db) return;
+
+    try {
+      const index = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).index('owner');
+      const stored: OutboxEntry[] = await promisify(index.getAll(this.owner));
+      stored.forEach(entry => this.entries.set(entry.id, entry));
+    } catch (error) {
+      console.error('Failed to load outbox:', error);
+    }
+  }
+
+  private async persist(entry: OutboxEntry): Promise<void> {
+    const db = await this.db;
+    if (!db) return;
+
+    try {
+      await promisify(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).put(entry));
+    } catch (error) {
+      console.error('Failed to persist outbox entry:', error);
+    }
+  }
+
+  private async remove(id: string): Promise<void> {
+    this.entries.delete(id);
+    const db = await this.db;
+    if (!db) return;
+
+    try {
+      await promisify(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).delete(id));
+    } catch (error) {
+      console.error('Failed to remove outbox entry:', error);
+    }
+  }
+}
@@ -0,0 +1,96 @@
+import type { UploadProgress } from './file-transfer';
+import type { ForwardedFrom, MessageAttachment } from '../types/message';
+
+/**
+ * The message waiting on an upload, sent once the file is on the relay
+ */
+export interface PendingFileSend {
+  chatId: string;
+  recipientKey: string;
+  caption: string;
+  replyTo?: string;
+  forwardedFrom?: ForwardedFrom;
+}
+
+export interface PendingUpload {
+  id: string; // Blob id, also the file's id in the store's fileUploads
+  owner: string; // Wallet that started the upload
+  file: File; // What is being uploaded, after image processing
+  progress: UploadProgress;
+  extras: Partial<MessageAttachment>; // Added to the attachment, e.g. image size or a voice waveform
+  send?: PendingFileSend;
+  createdAt: number;
+}
+
+const DB_NAME = 'chatrix-uploads';
+const DB_VERSION = 1;
+const STORE_NAME = 'uploads';
+
+let db: Promise<IDBDatabase | null> | null = null;
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (!db) {
+    db = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        store.createIndex('owner', 'owner');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((error) => {
+      console.warn('IndexedDB unavailable, uploads will not survive reloads:', error);
+      return null;
+    });
+  }
+  return db;
+}
+
+/**
+ * Uploads `owner` had not finished, e.g. when the page was closed
+ */
+export async function loadPendingUploads(owner: string): Promise<PendingUpload[]> {
+  const database = await openDatabase();
+  if (!database) return [];
+
+  try {
+    const index = database.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).index('owner');
+    const stored: PendingUpload[] = await promisify(index.getAll(owner));
+    return stored.sort((a, b) => a.createdAt - b.createdAt);
+  } catch (error) {
+    console.error('Failed to load pending uploads:', error);
+    return [];
+  }
+}
+
+/**
+ * Store an upload, or record its progress after another chunk went up
+ */
+export async function savePendingUpload(upload: PendingUpload): Promise<void> {
+  const database = await openDatabase();
+  if (!database) return;
+
+  try {
+    await promisify(database.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).put(upload));
+  } catch (error) {
+    console.error('Failed to persist pending upload:', error);
+  }
+}
+
+export async function removePendingUpload(id: string): Promise<void> {
+  const database = await openDatabase();
+  if (!database) return;
+
+  try {
+    await promisify(database.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).delete(id));
+  } catch (error) {
+    console.error('Failed to remove pending upload:', error);
+  }
+}
@@ -1,17 +1,72 @@
 import { io, Socket } from 'socket.io-client';
 import { nanoid } from 'nanoid';
-import type { Message, TypingIndicator, Peer } from '../types/message';
+import { encode as encodeBase58 } from 'bs58';
+import { encode as encodeUTF8 } from '@stablelib/utf8';
+import type { ContentAttestation, Message, MessageAttachment, TypingIndicator } from '../types/message';
+import type { KeyPair } from './advanced-crypto';
+import type { RatchetPayload, SessionHandshake } from './double-ratchet';
+import type { SenderKeyPayload } from './sender-keys';
+import { signEnvelope, verifyEnvelope } from './envelope-auth';
+import { createAttestation } from './message-body';
+import type { DeviceList, DeviceRevocation, MessagingKeyRecord, WalletMessageSigner } from './key-agreement';
+import { Outbox } from './outbox';
 
 export interface RealtimeMessage {
   id: string;
-  type: 'message' | 'typing' | 'presence' | 'delivery_receipt' | 'read_receipt';
+  type: 'message' | 'typing' | 'presence' | 'delivery_receipt' | 'read_receipt' | 'played_receipt' | 'session_init' | 'sender_key';
   from: string;
-  to: string;
+  fromDevice?: string; // Sending device; its key signs the envelope
+  to: string; // Wallet, or group id for envelopes the relay fans out to members
+  toDevice?: string; // Omitted for envelopes meant for every device of `to`
   data: any;
   timestamp: number;
   signature?: string;
 }
 
+export type ConnectionStatus =
+  | 'connected'
+  | 'disconnected'
+  | 'reconnecting'
+  | 'authenticating'
+  | 'unauthorized';
+
+export type SendStatus = 'sent' | 'failed';
+
+/**
+ * Ratchet ciphertext for one of the recipient's devices
+ */
+export interface DevicePayload {
+  deviceId: string;
+  payload: RatchetPayload;
+}
+
+export interface HistoryPage {
+  envelopes: RealtimeMessage[];
+  cursor: string | null; // Pass back to fetch the next page; null when done
+  serverTime: number;
+}
+
+/**
+ * Parent and thread root of a reply. Travels in the signed envelope next to the
+ * message type, so it cannot be altered in transit.
+ */
+export interface ReplyReference {
+  replyTo: string;
+  threadId: string;
+}
+
+/**
+ * A public channel as listed by the relay
+ */
+export interface ChannelInfo {
+  channelId: string;
+  name: string;
+  description: string;
+  createdBy: string;
+  authors: string[];
+  subscriberCount: number;
+}
+
 export interface PresenceData {
   userId: string;
   status: 'online' | 'away' | 'busy' | 'offline';
@@ -22,18 +77,31 @@ export interface PresenceData {
 export class RealtimeService {
   private socket: Socket | null = null;
   private currentUser: string | null = null;
-  private messageQueue: RealtimeMessage[] = [];
+  private outbox: Outbox | null = null;
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
   private heartbeatInterval: NodeJS.Timeout | null = null;
+  private keyRecord: MessagingKeyRecord | null = null;
+  private signingKeyPair: KeyPair | null = null;
+  private deviceId: string | null = null;
+  private inboundChains = new Map<string, Promise<void>>();
+  private signChallenge: WalletMessageSigner | null = null;
+  private authToken: string | null = null;
+  private authenticated = false;
+  private authRejected = false;
   
   // Event handlers
-  private onMessageReceived: ((message: Message) => void) | null = null;
-  private onTypingUpdate: ((indicator: TypingIndicator) => void) | null = null;
+  private onMessageReceived: ((message: Message, envelope: RealtimeMessage) => void | Promise<void>) | null = null;
+  private onSessionInitReceived: ((from: string, fromDevice: string, handshake: SessionHandshake) => void | Promise<void>) | null = null;
+  private onSenderKeyReceived: ((from: string, fromDevice: string, groupId: string, payload: RatchetPayload) => void | Promise<void>) | null = null;
+  private onTypingUpdate: ((indicator: TypingIndicator, isTyping: boolean) => void) | null = null;
   private onPresenceUpdate: ((presence: PresenceData) => void) | null = null;
-  private onDeliveryReceipt: ((messageId: string, timestamp: number) => void) | null = null;
-  private onReadReceipt: ((messageId: string, timestamp: number) => void) | null = null;
-  private onConnectionStatusChange: ((status: 'connected' | 'disconnected' | 'reconnecting') => void) | null = null;
+  private onDeliveryReceipt: ((messageId: string, timestamp: number, from: string, chatId?: string) => void) | null = null;
+  private onReadReceipt: ((messageId: string, timestamp: number, from: string, chatId?: string) => void) | null = null;
+  private onPlayedReceipt: ((messageId: string, timestamp: number, from: string, chatId?: string) => void) | null = null;
+  private onConnectionStatusChange: ((status: ConnectionStatus) => void) | null = null;
+  private onChannelInfoUpdate: ((channel: ChannelInfo) => void) | null = null;
+  private onSendStatusChange: ((chatId: string, messageId: string, status: SendStatus) => void) | null = null;
 
   constructor() {}
 
@@ -52,28 +120,65 @@ export class RealtimeService {
   }
 
   /**
-   * Connect to real-time service
+   * Connect to real-time service. The relay only joins us to our room after
+   * the wallet signs its challenge (or a previously issued session token is accepted).
    */
-  async connect(userId: string, authToken?: string): Promise<void> {
+  async connect(userId: string, signChallenge: WalletMessageSigner, authToken?: string): Promise<void> {
+    if (this.currentUser !== userId) {
+      this.outbox?.stop();
+      this.outbox = null;
+    }
     this.currentUser = userId;
-    
+    this.signChallenge = signChallenge;
+    this.authToken = authToken ?? this.authToken;
+    this.authRejected = false;
+
+    // Replace any previous socket, e.g. when retrying after a rejected login
+    if (this.socket) {
+      this.socket.removeAllListeners();
+      this.socket.disconnect();
+    }
+
     try {
       const url = (import.meta as any).env?.VITE_WEBSOCKET_URL || 'http://localhost:3001';
       this.socket = io(url, {
-        auth: { token: authToken, userId },
+        auth: { userId },
         transports: ['websocket'],
         timeout: 10000,
       });
 
       this.socket.on('connect', () => {
+        this.authenticated = false;
+        this.onConnectionStatusChange?.('authenticating');
+      });
+
+      this.socket.on('auth_challenge', (challenge: { nonce: string; reason?: string }) => {
+        this.authenticate(challenge);
+      });
+
+      this.socket.on('auth_ok', ({ token }: { token: string }) => {
+        this.authToken = token;
+        this.authenticated = true;
+        this.reconnectAttempts = 0;
         this.onConnectionStatusChange?.('connected');
-        this.socket?.emit('register', { userId: this.currentUser });
+        if (this.keyRecord) {
+          this.socket?.emit('publish_key', this.keyRecord);
+        }
         this.startHeartbeat();
-        this.processMessageQueue();
+        this.getOutbox().flush();
+      });
+
+      this.socket.on('auth_error', ({ reason }: { reason: string }) => {
+        console.error('Relay rejected authentication:', reason);
+        this.rejectAuthentication();
       });
 
       this.socket.on('disconnect', () => {
-        this.onConnectionStatusChange?.('disconnected');
+        this.authenticated = false;
+        this.outbox?.stop();
+        if (!this.authRejected) {
+          this.onConnectionStatusChange?.('disconnected');
+        }
       });
 
       this.socket.on('reconnect_attempt', () => {
@@ -81,25 +186,16 @@ export class RealtimeService {
       });
 
       this.socket.on('message', (payload: RealtimeMessage) => {
-        if (payload.type === 'message') {
-          const msg: Message = {
-            id: payload.data?.messageId || payload.id,
-            sender: payload.from,
-            senderUsername: payload.data?.senderUsername,
-            recipient: payload.to,
-            content: payload.data?.content,
-            nonce: payload.data?.nonce,
-            timestamp: payload.data?.timestamp || payload.timestamp,
-            status: 'delivered',
-            messageType: payload.data?.messageType || 'text',
-          };
-          this.onMessageReceived?.(msg);
-        }
+        this.ingest(payload);
       });
 
       this.socket.on('presence', (presence: PresenceData) => {
         this.onPresenceUpdate?.(presence);
       });
+
+      this.socket.on('channel_info', (channel: ChannelInfo) => {
+        this.onChannelInfoUpdate?.(channel);
+      });
       
     } catch (error) {
       console.error('Failed to connect to realtime service:', error);
@@ -121,58 +217,276 @@ export class RealtimeService {
       clearInterval(this.heartbeatInterval);
       this.heartbeatInterval = null;
     }
-    
+
+    this.outbox?.stop();
+    this.authenticated = false;
     this.onConnectionStatusChange?.('disconnected');
   }
 
   /**
-   * Send encrypted message
+   * Send encrypted message, one envelope per recipient device. Only ciphertext
+   * and nonce go over the wire. The signed envelopes are stored in the outbox
+   * until the relay acknowledges them.
    */
   async sendMessage(
-    content: string,
+    chatId: string,
+    messageId: string,
+    payloads: DevicePayload[],
     recipientPublicKey: string,
-    senderPrivateKey: Uint8Array,
-    messageType: 'text' | 'file' | 'image' = 'text',
+    messageType: Message['messageType'] = 'text',
     fileData?: { url: string; name: string; size: number; type: string },
-    senderUsername?: string
+    senderUsername?: string,
+    reply?: ReplyReference
   ): Promise<string> {
-    const messageId = nanoid();
-    
+    await this.enqueueMessage(recipientPublicKey, payloads, {
+      messageId,
+      chatId,
+      senderUsername,
+      messageType,
+      fileData,
+      ...reply,
+    });
+    return messageId;
+  }
+
+  /**
+   * Copy a message we sent to our other devices so their history matches.
+   * `recipient` is the chat peer the message was originally sent to.
+   */
+  async sendSelfSync(
+    chatId: string,
+    messageId: string,
+    payloads: DevicePayload[],
+    recipient: string,
+    messageType: Message['messageType'] = 'text',
+    fileData?: { url: string; name: string; size: number; type: string },
+    senderUsername?: string,
+    reply?: ReplyReference
+  ): Promise<void> {
+    await this.enqueueMessage(this.currentUser!, payloads, {
+      messageId,
+      chatId,
+      recipient,
+      senderUsername,
+      messageType,
+      fileData,
+      ...reply,
+    });
+  }
+
+  /**
+   * Send the double-ratchet handshake that opens a session with a peer.
+   * Goes through the outbox like messages so it always precedes the first ciphertext.
+   */
+  async sendSessionInit(
+    recipientPublicKey: string,
+    recipientDevice: string,
+    handshake: SessionHandshake
+  ): Promise<void> {
+    const message: RealtimeMessage = {
+      id: nanoid(),
+      type: 'session_init',
+      from: this.currentUser!,
+      to: recipientPublicKey,
+      toDevice: recipientDevice,
+      data: handshake,
+      timestamp: Date.now(),
+    };
+
+    await this.getOutbox().enqueue(this.signed(message));
+  }
+
+  /**
+   * Send a group message, encrypted once under our sender key. The relay
+   * fans the single envelope out to every member device but our own.
+   */
+  async sendGroupMessage(
+    groupId: string,
+    messageId: string,
+    payload: SenderKeyPayload,
+    messageType: Message['messageType'] = 'text',
+    fileData?: { url: string; name: string; size: number; type: string },
+    senderUsername?: string,
+    reply?: ReplyReference
+  ): Promise<string> {
+    const message: RealtimeMessage = {
+      id: messageId,
+      type: 'message',
+      from: this.currentUser!,
+      to: groupId,
+      data: {
+        messageId,
+        chatId: groupId,
+        senderUsername,
+        messageType,
+        fileData,
+        ...reply,
+        ...payload,
+        timestamp: Date.now(),
+      },
+      timestamp: Date.now(),
+    };
+
+    await this.getOutbox().enqueue(this.signed(message));
+    return messageId;
+  }
+
+  /**
+   * Hand one member device our sender key for a group, encrypted over the
+   * pairwise ratchet. Queued ahead of the group messages that need it.
+   */
+  async sendSenderKey(
+    recipientPublicKey: string,
+    recipientDevice: string,
+    groupId: string,
+    payload: RatchetPayload
+  ): Promise<void> {
+    const message: RealtimeMessage = {
+      id: nanoid(),
+      type: 'sender_key',
+      from: this.currentUser!,
+      to: recipientPublicKey,
+      toDevice: recipientDevice,
+      data: { groupId, ...payload },
+      timestamp: Date.now(),
+    };
+
+    await this.getOutbox().enqueue(this.signed(message));
+  }
+
+  /**
+   * Register a group's members on the relay so it can fan out group envelopes.
+   * An admin registering an existing group again names its creator and admins.
+   */
+  async createGroup(
+    groupId: string,
+    members: string[],
+    existing?: { createdBy: string; admins: string[] }
+  ): Promise<boolean> {
+    if (!this.isConnected()) return false;
+
     try {
-      const realtimeMessage: RealtimeMessage = {
-        id: messageId,
-        type: 'message',
-        from: this.currentUser!,
-        to: recipientPublicKey,
-        data: {
-          messageId,
-          content,
-          senderUsername,
-          messageType,
-          fileData,
-          timestamp: Date.now(),
-        },
+      const ack = await this.socket!.timeout(10000).emitWithAck('group_create', { groupId, members, ...existing });
+      return !!ack?.ok;
+    } catch (error) {
+      console.error('Group registration failed:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Publish a post to a public channel. Posts are signed but sent in the clear,
+   * since anyone may subscribe; the relay only accepts them from authors.
+   */
+  async sendChannelPost(
+    channelId: string,
+    messageId: string,
+    content: string,
+    messageType: Message['messageType'] = 'text',
+    senderUsername?: string,
+    reply?: ReplyReference
+  ): Promise<string> {
+    const message: RealtimeMessage = {
+      id: messageId,
+      type: 'message',
+      from: this.currentUser!,
+      to: channelId,
+      data: {
+        messageId,
+        chatId: channelId,
+        content,
+        senderUsername,
+        messageType,
+        ...reply,
         timestamp: Date.now(),
-      };
+      },
+      timestamp: Date.now(),
+    };
 
-      // Send via WebSocket or queue if offline
-      if (this.isConnected()) {
-        this.sendRealtimeMessage(realtimeMessage);
-      } else {
-        this.messageQueue.push(realtimeMessage);
-      }
+    await this.getOutbox().enqueue(this.signed(message));
+    return messageId;
+  }
+
+  async createChannel(channelId: string, name: string, description: string): Promise<ChannelInfo | null> {
+    const ack = await this.request('channel_create', { channelId, name, description });
+    return ack?.ok ? ack.channel : null;
+  }
+
+  /**
+   * Find public channels by shareable id or by name
+   */
+  async searchChannels(query: string): Promise<ChannelInfo[]> {
+    const ack = await this.request('channel_search', { query });
+    return ack?.channels ?? [];
+  }
+
+  async requestChannelInfo(channelIds: string[]): Promise<ChannelInfo[]> {
+    const ack = await this.request('channel_info', { channelIds });
+    return ack?.channels ?? [];
+  }
+
+  async joinChannel(channelId: string): Promise<ChannelInfo | null> {
+    const ack = await this.request('channel_join', { channelId });
+    return ack?.ok ? ack.channel : null;
+  }
+
+  async leaveChannel(channelId: string): Promise<boolean> {
+    const ack = await this.request('channel_leave', { channelId });
+    return !!ack?.ok;
+  }
+
+  /**
+   * Replace a public channel's authors (creator only)
+   */
+  async setChannelAuthors(channelId: string, authors: string[]): Promise<ChannelInfo | null> {
+    const ack = await this.request('channel_authors', { channelId, authors });
+    return ack?.ok ? ack.channel : null;
+  }
 
-      return messageId;
+  /**
+   * Mirror a group membership or admin change on the relay so fan-out follows it.
+   * The relay only takes these from admins (or a member leaving); members still
+   * check every change against the group's permissions themselves.
+   */
+  async updateGroupMembers(
+    groupId: string,
+    changes: { add?: string[]; remove?: string[]; promote?: string[]; demote?: string[] }
+  ): Promise<boolean> {
+    if (!this.isConnected()) return false;
+
+    try {
+      const ack = await this.socket!.timeout(10000).emitWithAck('group_update', { groupId, ...changes });
+      return !!ack?.ok;
     } catch (error) {
-      console.error('Failed to send message:', error);
-      throw error;
+      console.error('Group membership update failed:', error);
+      return false;
     }
   }
 
+  /**
+   * Resend a failed message's stored envelope. Returns false when the
+   * outbox no longer holds it and the caller has to encrypt it again.
+   */
+  async retryMessage(messageId: string): Promise<boolean> {
+    return this.getOutbox().retry(messageId);
+  }
+
+  /**
+   * Ids of envelopes still waiting for a relay acknowledgement
+   */
+  async getPendingMessageIds(): Promise<Set<string>> {
+    return this.getOutbox().pendingIds();
+  }
+
   /**
    * Send typing indicator
    */
-  sendTypingIndicator(recipientPublicKey: string, isTyping: boolean): void {
+  sendTypingIndicator(
+    recipientPublicKey: string,
+    isTyping: boolean,
+    chatId: string,
+    senderUsername?: string
+  ): void {
     if (!this.isConnected()) return;
 
     const message: RealtimeMessage = {
@@ -180,7 +494,7 @@ export class RealtimeService {
       type: 'typing',
       from: this.currentUser!,
       to: recipientPublicKey,
-      data: { isTyping },
+      data: { isTyping, chatId, senderUsername },
       timestamp: Date.now(),
     };
 
@@ -212,7 +526,7 @@ export class RealtimeService {
   /**
    * Send delivery receipt
    */
-  sendDeliveryReceipt(messageId: string, senderPublicKey: string): void {
+  sendDeliveryReceipt(messageId: string, senderPublicKey: string, chatId?: string): void {
     if (!this.isConnected()) return;
 
     const message: RealtimeMessage = {
@@ -220,7 +534,7 @@ export class RealtimeService {
       type: 'delivery_receipt',
       from: this.currentUser!,
       to: senderPublicKey,
-      data: { messageId, timestamp: Date.now() },
+      data: { messageId, chatId, timestamp: Date.now() },
       timestamp: Date.now(),
     };
 
@@ -230,7 +544,7 @@ export class RealtimeService {
   /**
    * Send read receipt
    */
-  sendReadReceipt(messageId: string, senderPublicKey: string): void {
+  sendReadReceipt(messageId: string, senderPublicKey: string, chatId?: string): void {
     if (!this.isConnected()) return;
 
     const message: RealtimeMessage = {
@@ -238,21 +552,149 @@ export class RealtimeService {
       type: 'read_receipt',
       from: this.currentUser!,
       to: senderPublicKey,
-      data: { messageId, timestamp: Date.now() },
+      data: { messageId, chatId, timestamp: Date.now() },
+      timestamp: Date.now(),
+    };
+
+    this.sendRealtimeMessage(message);
+  }
+
+  /**
+   * Tell `to` that we listened to a voice clip: its sender, or our own other devices
+   */
+  sendPlayedReceipt(messageId: string, to: string, chatId?: string): void {
+    if (!this.isConnected()) return;
+
+    const message: RealtimeMessage = {
+      id: nanoid(),
+      type: 'played_receipt',
+      from: this.currentUser!,
+      to,
+      data: { messageId, chatId, timestamp: Date.now() },
       timestamp: Date.now(),
     };
 
     this.sendRealtimeMessage(message);
   }
 
+  /**
+   * Fetch one page of relayed envelopes exchanged with `peerId` (a wallet or
+   * a group we belong to) since `since` (relay clock)
+   */
+  async requestHistory(peerId: string, since: number, cursor: string | null): Promise<HistoryPage | null> {
+    if (!this.isConnected()) return null;
+
+    try {
+      return await this.socket!.timeout(15000).emitWithAck('sync_history', {
+        with: peerId,
+        since,
+        cursor,
+        limit: HISTORY_PAGE_SIZE,
+      });
+    } catch (error) {
+      console.error('History sync request failed:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Verify and dispatch an envelope, live or fetched from history. Envelopes
+   * are handled per sender in arrival order so handshakes stay ahead of ciphertext.
+   */
+  ingest(payload: RealtimeMessage): Promise<void> {
+    const previous = this.inboundChains.get(payload.from) || Promise.resolve();
+    const next = previous
+      .then(() => this.handleIncoming(payload))
+      .catch((error) => console.error('Failed to handle incoming envelope:', error))
+      .then(() => this.acknowledgeMailbox(payload));
+    this.inboundChains.set(payload.from, next);
+    return next;
+  }
+
+  /**
+   * Publish our attested messaging key so peers can agree on a shared secret
+   */
+  publishMessagingKey(record: MessagingKeyRecord): void {
+    this.keyRecord = record;
+    if (this.isConnected()) {
+      this.socket?.emit('publish_key', record);
+    }
+  }
+
+  /**
+   * Set this device's id and the key every outgoing envelope is signed with
+   */
+  setDeviceKeys(deviceId: string, signingKeyPair: KeyPair): void {
+    this.deviceId = deviceId;
+    this.signingKeyPair = signingKeyPair;
+  }
+
+  /**
+   * Sign the content of a message we send, so it stays attributable to us when forwarded
+   */
+  attestContent(messageId: string, content: string, attachment?: MessageAttachment): ContentAttestation | undefined {
+    if (!this.currentUser || !this.deviceId || !this.signingKeyPair) return undefined;
+    return createAttestation(messageId, this.currentUser, this.deviceId, this.signingKeyPair, content, attachment);
+  }
+
+  /**
+   * Store one chunk of an encrypted file on the relay, which checks it against `hash`
+   */
+  async putBlobChunk(blobId: string, index: number, chunkCount: number, data: Uint8Array, hash: string): Promise<boolean> {
+    const ack = await this.request('blob_put', { blobId, index, chunkCount, data, hash });
+    return !!ack?.ok;
+  }
+
+  async getBlobChunk(blobId: string, index: number): Promise<{ data: Uint8Array; hash: string } | null> {
+    const ack = await this.request('blob_get', { blobId, index });
+    return ack?.ok ? { data: new Uint8Array(ack.data), hash: ack.hash } : null;
+  }
+
+  /**
+   * Look up the devices a wallet has published on the relay
+   */
+  async requestDeviceList(userId: string): Promise<DeviceList | null> {
+    if (!this.isConnected()) return null;
+
+    try {
+      return await this.socket!.timeout(10000).emitWithAck('request_key', { userId });
+    } catch (error) {
+      console.error('Device list lookup failed:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Publish a wallet-signed device revocation. Resolves once the relay accepted it.
+   */
+  async revokeDevice(revocation: DeviceRevocation): Promise<boolean> {
+    if (!this.isConnected()) return false;
+
+    try {
+      const ack = await this.socket!.timeout(10000).emitWithAck('revoke_device', revocation);
+      return !!ack?.ok;
+    } catch (error) {
+      console.error('Device revocation failed:', error);
+      return false;
+    }
+  }
+
   /**
    * Event handlers setup
    */
-  onMessage(handler: (message: Message) => void): void {
+  onMessage(handler: (message: Message, envelope: RealtimeMessage) => void | Promise<void>): void {
     this.onMessageReceived = handler;
   }
 
-  onTyping(handler: (indicator: TypingIndicator) => void): void {
+  onSessionInit(handler: (from: string, fromDevice: string, handshake: SessionHandshake) => void | Promise<void>): void {
+    this.onSessionInitReceived = handler;
+  }
+
+  onSenderKey(handler: (from: string, fromDevice: string, groupId: string, payload: RatchetPayload) => void | Promise<void>): void {
+    this.onSenderKeyReceived = handler;
+  }
+
+  onTyping(handler: (indicator: TypingIndicator, isTyping: boolean) => void): void {
     this.onTypingUpdate = handler;
   }
 
@@ -260,39 +702,232 @@ export class RealtimeService {
     this.onPresenceUpdate = handler;
   }
 
-  onDelivery(handler: (messageId: string, timestamp: number) => void): void {
+  onDelivery(handler: (messageId: string, timestamp: number, from: string, chatId?: string) => void): void {
     this.onDeliveryReceipt = handler;
   }
 
-  onRead(handler: (messageId: string, timestamp: number) => void): void {
+  onRead(handler: (messageId: string, timestamp: number, from: string, chatId?: string) => void): void {
     this.onReadReceipt = handler;
   }
 
-  onConnectionStatus(handler: (status: 'connected' | 'disconnected' | 'reconnecting') => void): void {
+  onPlayed(handler: (messageId: string, timestamp: number, from: string, chatId?: string) => void): void {
+    this.onPlayedReceipt = handler;
+  }
+
+  onChannelInfo(handler: (channel: ChannelInfo) => void): void {
+    this.onChannelInfoUpdate = handler;
+  }
+
+  onConnectionStatus(handler: (status: ConnectionStatus) => void): void {
     this.onConnectionStatusChange = handler;
   }
 
+  onSendStatus(handler: (chatId: string, messageId: string, status: SendStatus) => void): void {
+    this.onSendStatusChange = handler;
+  }
+
+  /**
+   * Answer the relay's login challenge with a session token or a wallet signature
+   */
+  private async authenticate(challenge: { nonce: string; reason?: string }): Promise<void> {
+    if (!this.socket || !this.currentUser) return;
+
+    if (this.authToken && !challenge.reason) {
+      this.socket.emit('register', { userId: this.currentUser, deviceId: this.deviceId, token: this.authToken });
+      return;
+    }
+
+    this.authToken = null;
+    try {
+      const message = encodeUTF8(relayChallengeMessage(this.currentUser, challenge.nonce));
+      const signature = await this.signChallenge!(message);
+      this.socket.emit('register', {
+        userId: this.currentUser,
+        deviceId: this.deviceId,
+        signature: encodeBase58(signature),
+      });
+    } catch (error) {
+      console.error('Wallet declined the relay login challenge:', error);
+      this.rejectAuthentication();
+    }
+  }
+
+  private rejectAuthentication(): void {
+    this.authRejected = true;
+    this.authenticated = false;
+    this.socket?.disconnect();
+    this.onConnectionStatusChange?.('unauthorized');
+  }
+
+  /**
+   * Verify an incoming envelope before dispatching it. Chat messages from a
+   * sender whose key cannot be resolved are flagged; control envelopes
+   * (handshakes, receipts, typing) must verify or are dropped.
+   */
+  private async handleIncoming(payload: RealtimeMessage): Promise<void> {
+    const verification = await verifyEnvelope(payload);
+    if (verification === 'invalid') {
+      console.warn(`Rejected ${payload.type} envelope ${payload.id}: bad signature for ${payload.from}`);
+      return;
+    }
+
+    if (payload.type === 'message') {
+      const msg: Message = {
+        id: payload.data?.messageId || payload.id,
+        sender: payload.from,
+        senderUsername: payload.data?.senderUsername,
+        recipient: payload.to,
+        content: '',
+        encrypted: payload.data?.encrypted,
+        nonce: payload.data?.nonce,
+        timestamp: payload.data?.timestamp || payload.timestamp,
+        status: 'delivered',
+        messageType: payload.data?.messageType || 'text',
+        replyTo: typeof payload.data?.replyTo === 'string' ? payload.data.replyTo : undefined,
+        threadId: typeof payload.data?.threadId === 'string' ? payload.data.threadId : undefined,
+        senderVerified: verification === 'verified',
+      };
+      await this.onMessageReceived?.(msg, payload);
+      return;
+    }
+
+    if (verification !== 'verified') {
+      console.warn(`Dropped unverified ${payload.type} envelope from ${payload.from}`);
+      return;
+    }
+
+    switch (payload.type) {
+      case 'session_init':
+        await this.onSessionInitReceived?.(payload.from, payload.fromDevice!, payload.data);
+        break;
+      case 'sender_key': {
+        const { groupId, ...ratchetPayload } = payload.data || {};
+        await this.onSenderKeyReceived?.(payload.from, payload.fromDevice!, groupId, ratchetPayload);
+        break;
+      }
+      case 'delivery_receipt':
+        this.onDeliveryReceipt?.(payload.data?.messageId, payload.data?.timestamp || payload.timestamp, payload.from, payload.data?.chatId);
+        break;
+      case 'read_receipt':
+        this.onReadReceipt?.(payload.data?.messageId, payload.data?.timestamp || payload.timestamp, payload.from, payload.data?.chatId);
+        break;
+      case 'played_receipt':
+        this.onPlayedReceipt?.(payload.data?.messageId, payload.data?.timestamp || payload.timestamp, payload.from, payload.data?.chatId);
+        break;
+      case 'typing':
+        this.onTypingUpdate?.(
+          {
+            chatId: payload.data?.chatId,
+            userId: payload.from,
+            username: payload.data?.senderUsername || '',
+            timestamp: payload.timestamp,
+          },
+          !!payload.data?.isTyping
+        );
+        break;
+    }
+  }
+
+  /**
+   * Let the relay drop a stored envelope once we have processed it. Envelopes
+   * that failed verification are acknowledged too; redelivery cannot fix them.
+   */
+  private acknowledgeMailbox(payload: RealtimeMessage): void {
+    if (!MAILBOX_TYPES.has(payload.type)) return;
+    this.socket?.emit('mailbox_ack', { ids: [payload.id] });
+  }
+
   /**
    * Utility methods
    */
-  private isConnected(): boolean {
-    return !!this.socket?.connected;
+  isConnected(): boolean {
+    return !!this.socket?.connected && this.authenticated;
+  }
+
+  /**
+   * Emit a relay request and wait for its answer; null when offline or timed out
+   */
+  private async request(event: string, payload: Record<string, unknown>): Promise<any> {
+    if (!this.isConnected()) return null;
+
+    try {
+      return await this.socket!.timeout(10000).emitWithAck(event, payload);
+    } catch (error) {
+      console.error(`Relay request ${event} failed:`, error);
+      return null;
+    }
+  }
+
+  private signed(message: RealtimeMessage): RealtimeMessage {
+    const stamped = { ...message, fromDevice: this.deviceId ?? undefined };
+    return this.signingKeyPair
+      ? { ...stamped, signature: signEnvelope(stamped, this.signingKeyPair) }
+      : stamped;
+  }
+
+  private async enqueueMessage(to: string, payloads: DevicePayload[], data: Record<string, unknown>): Promise<void> {
+    const outbox = this.getOutbox();
+    for (const { deviceId, payload } of payloads) {
+      const envelope: RealtimeMessage = {
+        id: `${data.messageId}.${deviceId}`,
+        type: 'message',
+        from: this.currentUser!,
+        to,
+        toDevice: deviceId,
+        data: {
+          ...data,
+          header: payload.header,
+          encrypted: payload.encrypted,
+          nonce: payload.nonce,
+          timestamp: Date.now(),
+        },
+        timestamp: Date.now(),
+      };
+      await outbox.enqueue(this.signed(envelope));
+    }
   }
 
   private sendRealtimeMessage(message: RealtimeMessage): void {
-    this.socket?.emit('message', message);
+    this.socket?.emit('message', this.signed(message));
+  }
+
+  private getOutbox(): Outbox {
+    if (!this.outbox) {
+      this.outbox = new Outbox(
+        this.currentUser!,
+        (envelope) => this.transmit(envelope),
+        () => this.isConnected(),
+        (entry, status) => {
+          // Self-sync copies don't decide whether the peer got the message
+          if (entry.envelope.type !== 'message' || entry.envelope.to === this.currentUser) return;
+          this.onSendStatusChange?.(entry.envelope.data?.chatId, entry.envelope.data?.messageId, status);
+        }
+      );
+    }
+    return this.outbox;
   }
 
-  private processMessageQueue(): void {
-    while (this.messageQueue.length > 0) {
-      const message = this.messageQueue.shift();
-      if (message) {
-        this.sendRealtimeMessage(message);
+  /**
+   * Emit an already-signed envelope and wait for the relay to acknowledge it
+   */
+  private async transmit(envelope: RealtimeMessage): Promise<boolean> {
+    if (!this.isConnected()) return false;
+
+    try {
+      const ack = await this.socket!.timeout(ACK_TIMEOUT_MS).emitWithAck('message', envelope);
+      if (ack?.ok && Array.isArray(ack.refused)) {
+        console.warn(`Envelope ${envelope.id} was not held for some recipients:`, ack.refused);
       }
+      return !!ack?.ok;
+    } catch {
+      return false;
     }
   }
 
   private startHeartbeat(): void {
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+    }
     this.heartbeatInterval = setInterval(() => {
       if (this.isConnected()) {
         this.updatePresence('online');
@@ -307,7 +942,7 @@ export class RealtimeService {
       
       setTimeout(() => {
         this.onConnectionStatusChange?.('reconnecting');
-        this.connect(this.currentUser!);
+        this.connect(this.currentUser!, this.signChallenge!);
       }, delay);
     }
   }
@@ -315,6 +950,19 @@ export class RealtimeService {
   private simulateIncomingMessages(): void {}
 }
 
+const ACK_TIMEOUT_MS = 8000;
+const HISTORY_PAGE_SIZE = 100;
+
+// Must match the envelope types the relay holds in its mailbox (server/index.js)
+const MAILBOX_TYPES = new Set<RealtimeMessage['type']>(['message', 'session_init', 'sender_key', 'delivery_receipt', 'read_receipt', 'played_receipt']);
+
+/**
+ * Must match the relay's challenge format in server/auth.js
+ */
+function relayChallengeMessage(userId: string, nonce: string): string {
+  return `Chatrix relay login\n\nWallet: ${userId}\nNonce: ${nonce}`;
+}
+
 // Singleton instance
 let realtimeService: RealtimeService | null = null;
 
@@ -0,0 +1,193 @@
+import { encode as encodeBase58, decode as decodeBase58 } from 'bs58';
+import { encode as encodeUTF8, decode as decodeUTF8 } from '@stablelib/utf8';
+import { randomBytes, secretbox } from 'tweetnacl';
+import { nanoid } from 'nanoid';
+import { AdvancedCrypto, type EncryptedData } from './advanced-crypto';
+import { kdfChainKey } from './double-ratchet';
+import { isFiniteNumber, isRecord, isString } from './json-guards';
+
+/**
+ * Group message encrypted once with the sender's chain for that group
+ */
+export interface SenderKeyPayload {
+  keyId: string;
+  iteration: number;
+  encrypted: string;
+  nonce: string;
+}
+
+/**
+ * What a sender hands each member (over the pairwise ratchet) so they can follow its chain
+ */
+export interface SenderKeyDistribution {
+  groupId: string;
+  keyId: string;
+  chainKey: string;
+  iteration: number;
+}
+
+export interface SenderKeyState {
+  groupId: string;
+  keyId: string;
+  chainKey: string;
+  iteration: number; // Next iteration this chain will produce
+  skippedKeys: Record<string, string>; // iteration -> message key, for late arrivals
+  distributedTo: string[]; // Members that already hold our key (own chains only)
+  updatedAt: number;
+}
+
+const MAX_SKIP = 1000;
+const MAX_STORED_SKIPPED_KEYS = 2000;
+
+/**
+ * Start a fresh sending chain for a group
+ */
+export function createSenderKey(groupId: string): SenderKeyState {
+  return {
+    groupId,
+    keyId: nanoid(),
+    chainKey: encodeBase58(randomBytes(32)),
+    iteration: 0,
+    skippedKeys: {},
+    distributedTo: [],
+    updatedAt: Date.now(),
+  };
+}
+
+export function toDistribution(state: SenderKeyState): SenderKeyDistribution {
+  return {
+    groupId: state.groupId,
+    keyId: state.keyId,
+    chainKey: state.chainKey,
+    iteration: state.iteration,
+  };
+}
+
+/**
+ * The sender key carried in a decrypted distribution, or null if it is malformed
+ */
+export function parseSenderKeyDistribution(value: unknown): SenderKeyDistribution | null {
+  if (!isRecord(value)) return null;
+  const { groupId, keyId, chainKey, iteration } = value;
+  const valid = isString(groupId) && isString(keyId) && isString(chainKey) && isChainKey(chainKey) &&
+    isFiniteNumber(iteration) && Number.isInteger(iteration) && iteration >= 0;
+  return valid ? { groupId, keyId, chainKey, iteration } : null;
+}
+
+function isChainKey(value: string): boolean {
+  try {
+    return decodeBase58(value).length === 32;
+  } catch {
+    return false;
+  }
+}
+
+export function fromDistribution(distribution: SenderKeyDistribution): SenderKeyState {
+  return {
+    groupId: distribution.groupId,
+    keyId: distribution.keyId,
+    chainKey: distribution.chainKey,
+    iteration: distribution.iteration,
+    skippedKeys: {},
+    distributedTo: [],
+    updatedAt: Date.now(),
+  };
+}
+
+function seal(messageKey: Uint8Array, keyId: string, iteration: number, plaintext: string): SenderKeyPayload {
+  const nonce = randomBytes(secretbox.nonceLength);
+  // keyId and iteration travel in the clear, so bind them inside the ciphertext
+  const body = encodeUTF8(JSON.stringify({ keyId, iteration, body: plaintext }));
+  return {
+    keyId,
+    iteration,
+    encrypted: encodeBase58(secretbox(body, nonce, messageKey)),
+    nonce: encodeBase58(nonce),
+  };
+}
+
+function open(messageKey: Uint8Array, payload: SenderKeyPayload): string | null {
+  try {
+    const opened = secretbox.open(decodeBase58(payload.encrypted), decodeBase58(payload.nonce), messageKey);
+    if (!opened) return null;
+
+    const { keyId, iteration, body } = JSON.parse(decodeUTF8(opened));
+    const matches = keyId === payload.keyId && iteration === payload.iteration;
+    return matches && typeof body === 'string' ? body : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Encrypt with the next message key of our chain. Mutates `state`.
+ */
+export function senderKeyEncrypt(state: SenderKeyState, plaintext: string): SenderKeyPayload {
+  const [nextChainKey, messageKey] = kdfChainKey(decodeBase58(state.chainKey));
+  const payload = seal(messageKey, state.keyId, state.iteration, plaintext);
+
+  state.chainKey = encodeBase58(nextChainKey);
+  state.iteration += 1;
+  state.updatedAt = Date.now();
+  return payload;
+}
+
+/**
+ * Decrypt a member's group message, caching keys for skipped iterations.
+ * `state` is only updated when decryption succeeds.
+ */
+export function senderKeyDecrypt(state: SenderKeyState, payload: SenderKeyPayload): string | null {
+  if (payload.keyId !== state.keyId) return null;
+
+  const skippedKey = state.skippedKeys[payload.iteration];
+  if (skippedKey) {
+    const plaintext = open(decodeBase58(skippedKey), payload);
+    if (plaintext !== null) {
+      delete state.skippedKeys[payload.iteration];
+      state.updatedAt = Date.now();
+    }
+    return plaintext;
+  }
+
+  if (payload.iteration < state.iteration || payload.iteration - state.iteration > MAX_SKIP) {
+    return null;
+  }
+
+  const skipped: Record<string, string> = {};
+  let chainKey = decodeBase58(state.chainKey);
+  for (let i = state.iteration; i < payload.iteration; i++) {
+    const [nextChainKey, messageKey] = kdfChainKey(chainKey);
+    skipped[i] = encodeBase58(messageKey);
+    chainKey = nextChainKey;
+  }
+
+  const [nextChainKey, messageKey] = kdfChainKey(chainKey);
+  const plaintext = open(messageKey, payload);
+  if (plaintext === null) return null;
+
+  Object.assign(state.skippedKeys, skipped);
+  const keys = Object.keys(state.skippedKeys);
+  for (const key of keys.slice(0, Math.max(0, keys.length - MAX_STORED_SKIPPED_KEYS))) {
+    delete state.skippedKeys[key];
+  }
+
+  state.chainKey = encodeBase58(nextChainKey);
+  state.iteration = payload.iteration + 1;
+  state.updatedAt = Date.now();
+  return plaintext;
+}
+
+export function sealSenderKey(state: SenderKeyState, storageKey: Uint8Array): EncryptedData {
+  return AdvancedCrypto.encryptWithSharedSecret(JSON.stringify(state), storageKey);
+}
+
+export function openSenderKey(sealed: EncryptedData, storageKey: Uint8Array): SenderKeyState | null {
+  const json = AdvancedCrypto.decryptWithSharedSecret(sealed, storageKey);
+  if (!json) return null;
+
+  try {
+    return JSON.parse(json);
+  } catch {
+    return null;
+  }
+}
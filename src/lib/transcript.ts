@@ -0,0 +1,51 @@
+import type { Message } from '../types/message';
+
+/**
+ * One line of a transcript, e.g. "[2024-05-01 14:03] @alice: hello"
+ */
+function transcriptLine(message: Message, nameOf: (userId: string) => string): string {
+  const date = new Date(message.timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const stamp = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+  let text: string;
+  if (message.deleted) {
+    text = '(message deleted)';
+  } else {
+    const parts = [message.content];
+    if (message.fileName) parts.push(`[attachment: ${message.fileName}]`);
+    text = parts.filter(Boolean).join(' ');
+  }
+
+  const forwarded = message.forwardedFrom ? ` (forwarded from ${nameOf(message.forwardedFrom.sender)})` : '';
+  const edited = message.edited && !message.deleted ? ' (edited)' : '';
+
+  // Group changes are already phrased as a sentence
+  return message.messageType === 'system'
+    ? `[${stamp}] ${text}`
+    : `[${stamp}] ${nameOf(message.sender)}${forwarded}: ${text}${edited}`;
+}
+
+/**
+ * Plain-text transcript of `messages`, oldest first
+ */
+export function formatTranscript(messages: Message[], nameOf: (userId: string) => string): string {
+  return [...messages]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map(message => transcriptLine(message, nameOf))
+    .join('\n');
+}
+
+/**
+ * Save a transcript as a text file through the browser's download prompt
+ */
+export function downloadTranscript(transcript: string, title: string): void {
+  const blob = new Blob([transcript + '\n'], { type: 'text/plain;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${title.replace(/[^\w.-]+/g, '_') || 'chat'}.txt`;
+  link.click();
+  // Let the download start before the blob goes away
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
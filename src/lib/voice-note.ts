@@ -0,0 +1,28 @@
+// Bars a voice clip's waveform is reduced to before it is sent
+export const WAVEFORM_BARS = 48;
+
+export const PLAYBACK_RATES = [1, 1.5, 2];
+
+/**
+ * Reduce loudness samples (0 to 1) taken while recording to `bars` peaks,
+ * rounded so the waveform stays small inside the message body
+ */
+export function downsampleWaveform(levels: number[], bars: number = WAVEFORM_BARS): number[] {
+  if (levels.length === 0) return [];
+  const count = Math.min(bars, levels.length);
+  return Array.from({ length: count }, (_, bar) => {
+    const slice = levels.slice(
+      Math.floor((bar * levels.length) / count),
+      Math.floor(((bar + 1) * levels.length) / count)
+    );
+    return Math.round(Math.min(1, Math.max(0, ...slice)) * 100) / 100;
+  });
+}
+
+/**
+ * Seconds as m:ss
+ */
+export function formatDuration(seconds: number): string {
+  const total = Math.max(0, Math.round(seconds));
+  return `${Math.floor(total / 60)}:${(total % 60).toString().padStart(2, '0')}`;
+}
@@ -1,9 +1,128 @@
 import { create } from 'zustand';
 import { subscribeWithSelector, persist, devtools } from 'zustand/middleware';
 import { immer } from 'zustand/middleware/immer';
-import { getRealtimeService } from '../lib/realtime-communication';
-import { AdvancedCrypto } from '../lib/advanced-crypto';
-import type { Message, Chat, Peer, UserProfile, TypingIndicator, FileAttachment } from '../types/message';
+import {
+  getRealtimeService,
+  type ChannelInfo,
+  type ConnectionStatus,
+  type DevicePayload,
+  type ReplyReference,
+} from '../lib/realtime-communication';
+import { decode as decodeBase58 } from 'bs58';
+import { AdvancedCrypto, type EncryptedData, type KeyPair } from '../lib/advanced-crypto';
+import {
+  createRevocation,
+  deriveSharedSecret,
+  getKeyDirectory,
+  getOrCreateKeyRecord,
+  loadDeviceKeys,
+  type MessagingKeyRecord,
+  type WalletMessageSigner,
+} from '../lib/key-agreement';
+import {
+  acceptSession,
+  deriveStorageKey,
+  initiateSession,
+  openSession,
+  ratchetDecrypt,
+  ratchetEncrypt,
+  sealSession,
+  settleHandshake,
+  type RatchetPayload,
+  type RatchetState,
+  type SessionHandshake,
+} from '../lib/double-ratchet';
+import {
+  createSenderKey,
+  fromDistribution,
+  openSenderKey,
+  parseSenderKeyDistribution,
+  sealSenderKey,
+  senderKeyDecrypt,
+  senderKeyEncrypt,
+  toDistribution,
+  type SenderKeyPayload,
+  type SenderKeyState,
+} from '../lib/sender-keys';
+import {
+  applyGroupEvent,
+  authorizeGroupEvent,
+  authorPermissions,
+  canPostIn,
+  defaultGroupPermissions,
+  describeGroupEvent,
+  groupPermissions,
+  isChatPermissions,
+  isGroupAdmin,
+  parseGroupEvent,
+  usesSenderKeys,
+} from '../lib/group-admin';
+import {
+  applyMessageEdit,
+  applyPinChange,
+  applyReactionChange,
+  authorizeMessageDeletion,
+  authorizeMessageEdit,
+  authorizePinChange,
+  authorizeReaction,
+  parseMessageDeletion,
+  parseMessageEdit,
+  parsePinChange,
+  parseReactionChange,
+  tombstone,
+} from '../lib/message-edits';
+import { decodeBody, encodeBody, verifyAttestation } from '../lib/message-body';
+import { isString, parseJsonRecord } from '../lib/json-guards';
+import {
+  assertUploadable,
+  downloadEncryptedFile,
+  isTransferCancelled,
+  newUploadProgress,
+  uploadEncryptedFile,
+  type ChunkedTransfer,
+} from '../lib/file-transfer';
+import {
+  loadPendingUploads,
+  removePendingUpload,
+  savePendingUpload,
+  type PendingFileSend,
+  type PendingUpload,
+} from '../lib/pending-uploads';
+import { formatDisplayName } from '../lib/solana-name-service';
+import { createThumbnail, indexMedia } from '../lib/media-gallery';
+import { canProcessImage, processImage, type ImageQuality } from '../lib/image-processing';
+import type {
+  Message,
+  Chat,
+  Peer,
+  UserProfile,
+  TypingIndicator,
+  FileAttachment,
+  GroupEvent,
+  MessageEdit,
+  MessageDeletion,
+  ReactionChange,
+  PinChange,
+  ForwardedFrom,
+  MessageAttachment,
+} from '../types/message';
+
+export interface SendOptions {
+  replyTo?: string; // Id of the message being replied to
+  forwardedFrom?: ForwardedFrom;
+  attachment?: MessageAttachment;
+}
+
+export interface FileSendOptions extends SendOptions {
+  imageQuality?: ImageQuality; // How photos are prepared; compressed unless asked otherwise
+}
+
+export interface UploadOptions {
+  imageQuality?: ImageQuality;
+  asIs?: boolean; // Sent byte for byte, e.g. a forwarded photo that was prepared already
+  extras?: Partial<MessageAttachment>; // Added to the attachment, e.g. a voice clip's waveform
+  send?: PendingFileSend; // Message to send once the file is up, even if that is after a reload
+}
 
 interface ChatState {
   // Current user
@@ -23,7 +142,7 @@ interface ChatState {
 
   // Files and media
   fileUploads: Record<string, FileAttachment>;
-  mediaGallery: Record<string, string[]>; // chatId -> media URLs
+  mediaGallery: Record<string, string[]>; // chatId -> ids of messages carrying media, oldest first
 
   // UI state
   sidebarOpen: boolean;
@@ -34,9 +153,12 @@ interface ChatState {
   settingsOpen: boolean;
 
   // Advanced features
-  encryptionKeys: Record<string, Uint8Array>; // userId -> shared key
-  messageQueue: Message[]; // Offline message queue
-  connectionStatus: 'connected' | 'disconnected' | 'reconnecting';
+  messagingKeyPair: KeyPair | null; // This device's X25519 keypair, never persisted
+  deviceId: string | null; // This device, known once its keys are unlocked
+  encryptionKeys: Record<string, Uint8Array>; // `${userId}/${deviceId}` -> shared key
+  ratchetSessions: Record<string, EncryptedData>; // `${chatId}/${peerDeviceId}` -> sealed double-ratchet state
+  senderKeys: Record<string, EncryptedData>; // `${groupId}/${userId}/${deviceId}` -> sealed sender key chain
+  connectionStatus: ConnectionStatus;
 
   // Loading states
   loading: {
@@ -48,7 +170,9 @@ interface ChatState {
 
   // Performance
   messageCache: Map<string, Message>;
-  lastSyncTimestamp: number;
+  syncWatermarks: Record<string, number>; // Server time each conversation's history is synced up to, by peer, group or channel id
+  handledChanges: string[]; // Ids of edits, deletions, reactions and pins already processed, oldest first
+  deletedForMe: string[]; // Ids of messages deleted on this device only, oldest first
 
   // Actions
   setCurrentUser: (user: UserProfile | null) => void;
@@ -74,11 +198,13 @@ interface ChatState {
   // Typing indicators
   setTyping: (indicator: TypingIndicator) => void;
   clearTyping: (chatId: string, userId: string) => void;
+  sendTyping: (chatId: string, recipientKey: string, isTyping: boolean) => void;
 
   // UI actions
   setSidebarOpen: (open: boolean) => void;
   setSearchQuery: (query: string) => void;
   toggleMessageSelection: (messageId: string) => void;
+  selectMessages: (messageIds: string[]) => void; // Adds to the selection
   clearSelectedMessages: () => void;
   setReplyingTo: (message: Message | null) => void;
 
@@ -86,18 +212,309 @@ interface ChatState {
   setLoading: (key: keyof ChatState['loading'], loading: boolean) => void;
 
   // Advanced actions
-  initializeRealtime: () => void;
-  sendEncryptedMessage: (chatId: string, content: string, recipientKey: string) => Promise<void>;
-  uploadFile: (file: File, chatId: string) => Promise<string>;
+  initializeRealtime: (signMessage: WalletMessageSigner) => Promise<void>;
+  sendEncryptedMessage: (chatId: string, content: string, recipientKey: string, options?: SendOptions) => Promise<void>;
+  retryMessage: (chatId: string, messageId: string) => Promise<void>;
+  uploadFile: (file: File, options?: UploadOptions) => Promise<MessageAttachment>;
+  continueUpload: (upload: PendingUpload) => Promise<MessageAttachment>; // Sends the chunks still missing, then the waiting message
+  resumeUploads: () => Promise<void>; // Picks up uploads an earlier page load did not finish
+  sendFile: (chatId: string, file: File, recipientKey: string, caption?: string, options?: FileSendOptions) => Promise<void>;
+  sendVoiceMessage: (chatId: string, audio: Blob, duration: number, waveform: number[], recipientKey: string, options?: SendOptions) => Promise<void>;
+  downloadAttachment: (attachment: MessageAttachment) => Promise<string>; // Local URL of the decrypted file
+  generateThumbnail: (fileId: string) => Promise<void>; // Fills in fileUploads[fileId].thumbnail for images and videos
+  pauseTransfer: (fileId: string) => void;
+  resumeTransfer: (fileId: string) => void;
+  cancelTransfer: (fileId: string) => void;
   blockUser: (userId: string) => void;
   unblockUser: (userId: string) => void;
   saveDraft: (chatId: string, content: string) => void;
   loadDraft: (chatId: string) => string;
   syncMessages: () => Promise<void>;
+  markChangeHandled: (messageId: string) => void; // History sync skips it from then on
+  sendControlMessage: (chatId: string, messageType: Message['messageType'], plaintext: string) => Promise<void>;
+
+  // Edits
+  editMessage: (chatId: string, messageId: string, content: string) => Promise<void>;
+  handleMessageEdit: (chatId: string, editor: string, edit: MessageEdit) => boolean;
+
+  // Deletion
+  deleteMessage: (chatId: string, messageId: string, forEveryone: boolean) => Promise<void>;
+  handleMessageDeletion: (chatId: string, actor: string, deletion: MessageDeletion) => boolean;
+  purgeAttachment: (message: Message) => void;
+
+  // Forwarding
+  forwardMessage: (chatId: string, messageId: string, targetChatIds: string[], peerIds?: string[]) => Promise<void>;
+
+  // Reactions
+  toggleReaction: (chatId: string, messageId: string, emoji: string) => Promise<void>;
+  handleReaction: (chatId: string, reactor: string, change: ReactionChange) => boolean;
+
+  // Stars are ours alone; pins are shared with the chat
+  toggleStar: (chatId: string, messageId: string) => void;
+  setStarred: (chatId: string, messageIds: string[], starred: boolean) => void;
+  setMessagePinned: (chatId: string, messageId: string, pinned: boolean) => Promise<void>;
+  handlePinChange: (chatId: string, actor: string, change: PinChange) => boolean;
+
+  // Receipts
+  applyReceipt: (chatId: string, messageId: string, status: 'delivered' | 'read', timestamp: number) => void;
+  markMessageRead: (chatId: string, messageId: string) => void;
+  markVoicePlayed: (chatId: string, messageId: string) => void;
 
   // Encryption actions
-  generateSharedKey: (userId: string, theirPublicKey: Uint8Array) => void;
-  getSharedKey: (userId: string) => Uint8Array | null;
+  generateSharedKey: (userId: string, deviceId: string, theirPublicKey: Uint8Array) => void;
+  getSharedKey: (userId: string, deviceId: string) => Uint8Array | null;
+  resolveSharedKey: (userId: string, deviceId: string) => Promise<Uint8Array>;
+  encryptForChat: (chatId: string, peerId: string, plaintext: string) => Promise<DevicePayload[]>;
+  decryptForChat: (chatId: string, peerDeviceId: string, payload: RatchetPayload) => string | null;
+  acceptSessionInit: (peerId: string, peerDeviceId: string, handshake: SessionHandshake) => Promise<void>;
+
+  // Group actions
+  createGroup: (name: string, members: string[], options?: { channel?: boolean; description?: string }) => Promise<string>;
+  distributeSenderKey: (groupId: string) => Promise<void>;
+  encryptForGroup: (groupId: string, plaintext: string) => Promise<SenderKeyPayload>;
+  acceptSenderKey: (from: string, fromDevice: string, groupId: string, payload: RatchetPayload) => Promise<void>;
+  updateGroup: (groupId: string, event: GroupEvent) => Promise<void>;
+  handleGroupEvent: (groupId: string, actor: string, event: GroupEvent) => boolean;
+
+  // Channel actions
+  createChannel: (name: string, description: string) => Promise<string>;
+  searchChannels: (query: string) => Promise<ChannelInfo[]>;
+  joinChannel: (channelId: string) => Promise<void>;
+  leaveChannel: (channelId: string) => Promise<void>;
+  setChannelAuthors: (channelId: string, authors: string[]) => Promise<void>;
+  applyChannelInfo: (channel: ChannelInfo) => void;
+
+  // Device actions
+  listDevices: () => Promise<MessagingKeyRecord[]>;
+  revokeDevice: (deviceId: string, signMessage: WalletMessageSigner) => Promise<void>;
+}
+
+/**
+ * Direct chat ids are derived from the sorted participant keys so both sides agree
+ */
+function getDirectChatId(a: string, b: string): string {
+  const [first, second] = [a, b].sort();
+  return `direct_${first}_${second}`;
+}
+
+// Envelopes from one sender are processed strictly in arrival order: the
+// ratchet must see a session handshake before the first ciphertext it opens.
+const inboundQueues = new Map<string, Promise<void>>();
+
+function enqueueInbound(senderId: string, task: () => Promise<void>): Promise<void> {
+  const previous = inboundQueues.get(senderId) || Promise.resolve();
+  const next = previous
+    .then(task)
+    .catch((error) => console.error(`Failed to process envelope from ${senderId}:`, error));
+  inboundQueues.set(senderId, next);
+  return next;
+}
+
+// Only one history sync runs at a time; reconnect storms share it
+let syncInFlight: Promise<void> | null = null;
+// Processed changes and messages deleted for me are remembered by id, so
+// history sync doesn't replay or restore them
+const MAX_REMEMBERED_IDS = 2000;
+
+function rememberId(ids: string[], id: string): string[] {
+  return ids.includes(id) ? ids : [...ids, id].slice(-MAX_REMEMBERED_IDS);
+}
+
+// Remote typing indicators expire unless the sender refreshes them
+const TYPING_EXPIRY_MS = 6000;
+const typingExpiryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+// Uploads and downloads still moving, by blob id, for pause, resume and cancel
+const fileTransfers = new Map<string, ChunkedTransfer<MessageAttachment> | ChunkedTransfer<Blob>>();
+
+// Uploads not finished yet, including failed ones waiting for a retry, by blob id
+const pendingUploads = new Map<string, PendingUpload>();
+
+// Files we have drawn, or tried to draw, a thumbnail for; each is only tried once
+const thumbnailsTried = new Set<string>();
+
+// Receipts only ever move a message forward through its lifecycle
+const STATUS_RANK: Record<Message['status'], number> = {
+  failed: 0,
+  sending: 1,
+  sent: 2,
+  delivered: 3,
+  read: 4,
+};
+
+/**
+ * Each chat holds one ratchet session per peer device
+ */
+function sessionKey(chatId: string, deviceId: string): string {
+  return `${chatId}/${deviceId}`;
+}
+
+function loadRatchetSession(state: ChatState, key: string): RatchetState | null {
+  const sealed = state.ratchetSessions[key];
+  if (!sealed || !state.messagingKeyPair) return null;
+  return openSession(sealed, deriveStorageKey(state.messagingKeyPair));
+}
+
+function sealRatchetSession(state: ChatState, session: RatchetState): EncryptedData {
+  if (!state.messagingKeyPair) throw new Error('Messaging keys are locked');
+  return sealSession(session, deriveStorageKey(state.messagingKeyPair));
+}
+
+/**
+ * Each group member device sends on its own sender key chain
+ */
+function senderKeyId(groupId: string, userId: string, deviceId: string): string {
+  return `${groupId}/${userId}/${deviceId}`;
+}
+
+function loadSenderKey(state: ChatState, key: string): SenderKeyState | null {
+  const sealed = state.senderKeys[key];
+  if (!sealed || !state.messagingKeyPair) return null;
+  return openSenderKey(sealed, deriveStorageKey(state.messagingKeyPair));
+}
+
+function sealSenderKeyState(state: ChatState, senderKey: SenderKeyState): EncryptedData {
+  if (!state.messagingKeyPair) throw new Error('Messaging keys are locked');
+  return sealSenderKey(senderKey, deriveStorageKey(state.messagingKeyPair));
+}
+
+/**
+ * Local chat for a public channel as listed by the relay
+ */
+function channelChat(channel: ChannelInfo): Chat {
+  return {
+    id: channel.channelId,
+    type: 'channel',
+    name: channel.name,
+    description: channel.description,
+    participants: [...channel.authors],
+    createdBy: channel.createdBy,
+    createdAt: Date.now(),
+    lastActivity: Date.now(),
+    unreadCount: 0,
+    isPinned: false,
+    isMuted: false,
+    isArchived: false,
+    permissions: authorPermissions(channel.authors, true),
+    subscriberCount: channel.subscriberCount,
+  };
+}
+
+/**
+ * Where a reply sits: its parent, and the root message whose id names the thread
+ */
+function replyReference(message: Message): ReplyReference | undefined {
+  return message.replyTo && message.threadId
+    ? { replyTo: message.replyTo, threadId: message.threadId }
+    : undefined;
+}
+
+function attachmentOf(message: Message): MessageAttachment | undefined {
+  return message.attachment;
+}
+
+/**
+ * What an attachment says about its file beyond name, size and type
+ */
+function mediaDetails({ duration, waveform, width, height, placeholder }: MessageAttachment): Partial<MessageAttachment> {
+  return { duration, waveform, width, height, placeholder };
+}
+
+function attachmentMessageType(attachment: MessageAttachment): Message['messageType'] {
+  if (attachment.duration !== undefined && attachment.waveform) return 'voice';
+  return attachment.type.startsWith('image/') ? 'image' : 'file';
+}
+
+/**
+ * Message fields describing an attached file
+ */
+function attachmentFields(attachment: MessageAttachment | undefined): Partial<Message> {
+  return {
+    attachment,
+    fileName: attachment?.name,
+    fileSize: attachment?.size,
+    fileType: attachment?.type,
+  };
+}
+
+/**
+ * Plaintext of one of our chat messages, as encrypted for every recipient
+ */
+function messageBody(message: Message): string {
+  return encodeBody({
+    content: message.content,
+    attachment: attachmentOf(message),
+    attestation: message.attestation,
+    forwardedFrom: message.forwardedFrom,
+  });
+}
+
+/**
+ * Unpack a decrypted chat message, checking the signature of a forwarded message's author
+ */
+async function openBody(plaintext: string, senderDevice: string): Promise<Partial<Message>> {
+  const body = decodeBody(plaintext);
+  const origin = body.forwardedFrom;
+  const forwardedFrom = origin && {
+    ...origin,
+    verified: !!origin.attestation &&
+      await verifyAttestation(origin.messageId, origin.sender, origin.attestation, body.content, body.attachment),
+  };
+
+  return {
+    content: body.content,
+    attestation: body.attestation?.senderDevice === senderDevice ? body.attestation : undefined,
+    forwardedFrom,
+    ...attachmentFields(body.attachment),
+  };
+}
+
+/**
+ * Edits, tombstones, reactions and pins change an earlier message instead of adding one
+ */
+function isMessageChange(message: Message): boolean {
+  return ['edit', 'delete', 'reaction', 'pin'].includes(message.messageType);
+}
+
+function handleMessageChange(state: ChatState, chatId: string, actor: string, incoming: Message, content: string): boolean {
+  if (incoming.messageType === 'edit') {
+    const edit = parseMessageEdit(content);
+    return !!edit && state.handleMessageEdit(chatId, actor, edit);
+  }
+
+  if (incoming.messageType === 'reaction') {
+    const change = parseReactionChange(content);
+    return !!change && state.handleReaction(chatId, actor, change);
+  }
+
+  if (incoming.messageType === 'pin') {
+    const change = parsePinChange(content);
+    return !!change && state.handlePinChange(chatId, actor, change);
+  }
+
+  const deletion = parseMessageDeletion(content);
+  return !!deletion && state.handleMessageDeletion(chatId, actor, deletion);
+}
+
+/**
+ * Free a locally held attachment (object URLs keep their blob alive until revoked)
+ */
+function releaseAttachment(url: string | undefined): void {
+  if (url?.startsWith('blob:')) URL.revokeObjectURL(url);
+}
+
+function displayName(state: ChatState, userId: string): string {
+  if (userId === state.currentUser?.publicKey) return 'You';
+  const peer = state.peers.find(p => p.publicKey === userId);
+  return peer?.nickname || formatDisplayName(userId, peer?.username);
+}
+
+/**
+ * The sender-key chat (group or private channel) `chatId` if `userId` is one of its members
+ */
+function findGroupChat(state: ChatState, chatId: unknown, userId: string): Chat | null {
+  const chat = state.chats.find(c => c.id === chatId && usesSenderKeys(c));
+  return chat && chat.participants.includes(userId) ? chat : null;
 }
 
 export const useChatStore = create<ChatState>()(
@@ -123,9 +540,12 @@ export const useChatStore = create<ChatState>()(
           replyingTo: null,
           emojiPickerOpen: false,
           settingsOpen: false,
+          messagingKeyPair: null,
+          deviceId: null,
           encryptionKeys: {},
-          messageQueue: [],
-          connectionStatus: 'disconnected' as const,
+          ratchetSessions: {},
+          senderKeys: {},
+          connectionStatus: 'disconnected' as ConnectionStatus,
           loading: {
             messages: false,
             chats: false,
@@ -133,7 +553,9 @@ export const useChatStore = create<ChatState>()(
             fileUpload: false,
           },
           messageCache: new Map(),
-          lastSyncTimestamp: 0,
+          syncWatermarks: {},
+          handledChanges: [],
+          deletedForMe: [],
 
     // User actions
     setCurrentUser: (user) => set({ currentUser: user }),
@@ -143,7 +565,8 @@ export const useChatStore = create<ChatState>()(
 
     addChat: (chat) => set((state) => ({
       chats: [...state.chats, chat],
-      messages: { ...state.messages, [chat.id]: [] }
+      messages: { ...state.messages, [chat.id]: [] },
+      mediaGallery: { ...state.mediaGallery, [chat.id]: [] },
     })),
 
     updateChat: (chatId, updates) => set((state) => ({
@@ -155,9 +578,12 @@ export const useChatStore = create<ChatState>()(
     removeChat: (chatId) => set((state) => {
       const newMessages = { ...state.messages };
       delete newMessages[chatId];
+      const mediaGallery = { ...state.mediaGallery };
+      delete mediaGallery[chatId];
       return {
         chats: state.chats.filter(chat => chat.id !== chatId),
         messages: newMessages,
+        mediaGallery,
         activeChat: state.activeChat === chatId ? null : state.activeChat
       };
     }),
@@ -184,23 +610,31 @@ export const useChatStore = create<ChatState>()(
 
       return {
         messages: newMessages,
-        chats: updatedChats
+        chats: updatedChats,
+        mediaGallery: { ...state.mediaGallery, [chatId]: indexMedia(newMessages[chatId]) },
       };
     }),
 
-    updateMessage: (chatId, messageId, updates) => set((state) => ({
-      messages: {
-        ...state.messages,
-        [chatId]: (state.messages[chatId] || []).map(msg =>
-          msg.id === messageId ? { ...msg, ...updates } : msg
-        )
-      }
-    })),
+    updateMessage: (chatId, messageId, updates) => set((state) => {
+      const chatMessages = (state.messages[chatId] || []).map(msg =>
+        msg.id === messageId ? { ...msg, ...updates } : msg
+      );
+      // Most updates are receipts; only deletions and attachments change the gallery
+      const touchesMedia = 'deleted' in updates || 'attachment' in updates || 'fileUrl' in updates;
+      return {
+        messages: { ...state.messages, [chatId]: chatMessages },
+        ...(touchesMedia && { mediaGallery: { ...state.mediaGallery, [chatId]: indexMedia(chatMessages) } }),
+      };
+    }),
 
     removeMessage: (chatId, messageId) => set((state) => ({
       messages: {
         ...state.messages,
         [chatId]: (state.messages[chatId] || []).filter(msg => msg.id !== messageId)
+      },
+      mediaGallery: {
+        ...state.mediaGallery,
+        [chatId]: (state.mediaGallery[chatId] || []).filter(id => id !== messageId)
       }
     })),
 
@@ -208,7 +642,8 @@ export const useChatStore = create<ChatState>()(
       messages: {
         ...state.messages,
         [chatId]: messages.sort((a, b) => a.timestamp - b.timestamp)
-      }
+      },
+      mediaGallery: { ...state.mediaGallery, [chatId]: indexMedia(messages) },
     })),
 
     // Peer actions
@@ -251,20 +686,41 @@ export const useChatStore = create<ChatState>()(
     }),
 
     // Typing indicators
-    setTyping: (indicator) => set((state) => {
-      const filtered = state.typingIndicators.filter(
-        t => !(t.chatId === indicator.chatId && t.userId === indicator.userId)
-      );
-      return {
-        typingIndicators: [...filtered, indicator]
-      };
-    }),
+    setTyping: (indicator) => {
+      const timerKey = `${indicator.chatId}:${indicator.userId}`;
+      clearTimeout(typingExpiryTimers.get(timerKey));
+      typingExpiryTimers.set(timerKey, setTimeout(() => {
+        get().clearTyping(indicator.chatId, indicator.userId);
+      }, TYPING_EXPIRY_MS));
+
+      set((state) => {
+        const filtered = state.typingIndicators.filter(
+          t => !(t.chatId === indicator.chatId && t.userId === indicator.userId)
+        );
+        return {
+          typingIndicators: [...filtered, indicator]
+        };
+      });
+    },
 
-    clearTyping: (chatId, userId) => set((state) => ({
-      typingIndicators: state.typingIndicators.filter(
-        t => !(t.chatId === chatId && t.userId === userId)
-      )
-    })),
+    clearTyping: (chatId, userId) => {
+      const timerKey = `${chatId}:${userId}`;
+      clearTimeout(typingExpiryTimers.get(timerKey));
+      typingExpiryTimers.delete(timerKey);
+
+      set((state) => ({
+        typingIndicators: state.typingIndicators.filter(
+          t => !(t.chatId === chatId && t.userId === userId)
+        )
+      }));
+    },
+
+    sendTyping: (chatId, recipientKey, isTyping) => {
+      const currentUser = get().currentUser;
+      // Channels are broadcast-only; nobody is shown typing
+      if (!currentUser || get().chats.find(c => c.id === chatId)?.type === 'channel') return;
+      getRealtimeService().sendTypingIndicator(recipientKey, isTyping, chatId, currentUser.username);
+    },
 
     // UI actions
     setSidebarOpen: (open) => set({ sidebarOpen: open }),
@@ -280,6 +736,10 @@ export const useChatStore = create<ChatState>()(
       return { selectedMessages: newSelected };
     }),
 
+    selectMessages: (messageIds) => set((state) => ({
+      selectedMessages: new Set([...state.selectedMessages, ...messageIds]),
+    })),
+
     clearSelectedMessages: () => set({ selectedMessages: new Set() }),
     setReplyingTo: (message) => set({ replyingTo: message }),
 
@@ -289,76 +749,291 @@ export const useChatStore = create<ChatState>()(
     })),
 
     // Advanced actions
-    initializeRealtime: () => {
+    initializeRealtime: async (signMessage) => {
       const realtimeService = getRealtimeService();
       const currentUser = get().currentUser;
 
       if (currentUser) {
-        realtimeService.connect(currentUser.publicKey);
+        // Unlock this device's keys before any traffic flows
+        const deviceKeys = await loadDeviceKeys(currentUser.publicKey, signMessage);
+        const keyRecord = await getOrCreateKeyRecord(currentUser.publicKey, deviceKeys, signMessage);
+        set({ messagingKeyPair: deviceKeys.messaging, deviceId: deviceKeys.deviceId, encryptionKeys: {} });
+
+        realtimeService.setDeviceKeys(deviceKeys.deviceId, deviceKeys.signing);
+        realtimeService.publishMessagingKey(keyRecord);
+        realtimeService.connect(currentUser.publicKey, signMessage);
 
         // Set up event handlers
-        realtimeService.onMessage((incoming) => {
-          const state = get();
-          const senderId = incoming.sender;
-          const selfId = currentUser.publicKey;
-
-          // Find or create a direct chat between self and sender
-          let chat = state.chats.find(c =>
-            c.type === 'direct' &&
-            c.participants.includes(selfId) &&
-            c.participants.includes(senderId)
-          );
+        realtimeService.onSessionInit((from, fromDevice, handshake) =>
+          enqueueInbound(`${from}/${fromDevice}`, () => get().acceptSessionInit(from, fromDevice, handshake))
+        );
+
+        realtimeService.onSenderKey((from, fromDevice, groupId, payload) =>
+          enqueueInbound(`${from}/${fromDevice}`, () => get().acceptSenderKey(from, fromDevice, groupId, payload))
+        );
+
+        realtimeService.onMessage((incoming, envelope) => {
+          const senderDevice = envelope.fromDevice!;
+          return enqueueInbound(`${incoming.sender}/${senderDevice}`, async () => {
+            const senderId = incoming.sender;
+            const selfId = currentUser.publicKey;
+
+            if (envelope.to.startsWith('channel_')) {
+              if (senderId === selfId && senderDevice === get().deviceId) return;
+
+              // Public posts are not encrypted, so the signature and author list are all that vouch for them
+              const channel = get().chats.find(c => c.id === envelope.to && c.type === 'channel');
+              const content: unknown = envelope.data?.content;
+              if (!channel || typeof content !== 'string' || !incoming.senderVerified || !canPostIn(channel, senderId)) {
+                console.warn(`Dropping channel post ${incoming.id} from ${senderId}`);
+                return;
+              }
+
+              if (isMessageChange(incoming)) {
+                if (!handleMessageChange(get(), channel.id, senderId, incoming, content)) {
+                  console.warn(`Rejected ${incoming.messageType} ${incoming.id} from ${senderId}`);
+                }
+                get().markChangeHandled(incoming.id);
+                return;
+              }
+
+              if (get().messages[channel.id]?.some(m => m.id === incoming.id)) return;
+              const body = await openBody(content, senderDevice);
+              get().addMessage(channel.id, { ...incoming, ...body, status: senderId === selfId ? 'sent' : 'delivered' });
+              return;
+            }
+
+            if (envelope.to.startsWith('group_')) {
+              // The relay may hand a wallet-wide copy back to the device that sent it
+              if (senderId === selfId && senderDevice === get().deviceId) return;
+
+              const group = findGroupChat(get(), envelope.to, senderId);
+              const key = senderKeyId(envelope.to, senderId, senderDevice);
+              const senderKey = group && loadSenderKey(get(), key);
+              if (!group || !senderKey) {
+                console.warn(`Dropping group message ${incoming.id} from ${senderId}: no sender key`);
+                return;
+              }
+
+              const content = senderKeyDecrypt(senderKey, {
+                keyId: envelope.data?.keyId,
+                iteration: envelope.data?.iteration,
+                encrypted: incoming.encrypted || '',
+                nonce: incoming.nonce,
+              });
+              if (content === null) {
+                console.warn(`Dropping group message ${incoming.id} from ${senderId}: decryption failed`);
+                return;
+              }
+
+              const sealed = sealSenderKeyState(get(), senderKey);
+              set((state) => ({ senderKeys: { ...state.senderKeys, [key]: sealed } }));
+
+              if (isMessageChange(incoming)) {
+                const allowed = incoming.senderVerified && canPostIn(group, senderId);
+                if (!allowed || !handleMessageChange(get(), group.id, senderId, incoming, content)) {
+                  console.warn(`Rejected ${incoming.messageType} ${incoming.id} from ${senderId}`);
+                }
+                get().markChangeHandled(incoming.id);
+                return;
+              }
+
+              if (get().messages[group.id]?.some(m => m.id === incoming.id)) return;
+
+              // Group changes must carry a verified signature and pass our copy of the permissions
+              let body: Partial<Message>;
+              if (incoming.messageType !== 'system' && !canPostIn(group, senderId)) {
+                console.warn(`Dropping post ${incoming.id} from ${senderId}: not a channel author`);
+                return;
+              }
+              if (incoming.messageType === 'system') {
+                const event = parseGroupEvent(content);
+                if (!event || !incoming.senderVerified || !get().handleGroupEvent(group.id, senderId, event)) {
+                  console.warn(`Rejected group change ${incoming.id} from ${senderId}`);
+                  return;
+                }
+                body = {
+                  content: describeGroupEvent(event, senderId, (userId) => displayName(get(), userId)),
+                  groupEvent: event,
+                };
+              } else {
+                body = await openBody(content, senderDevice);
+              }
+
+              if (senderId === selfId) {
+                get().addMessage(group.id, { ...incoming, ...body, status: 'sent' });
+                return;
+              }
+
+              get().addMessage(group.id, { ...incoming, ...body });
+              get().clearTyping(group.id, senderId);
+              if (group.type === 'group') realtimeService.sendDeliveryReceipt(incoming.id, senderId, group.id);
+              return;
+            }
+            // Our other devices copy us their sends over the session between our devices
+            const isSelfSync = senderId === selfId;
+            const peerId: unknown = isSelfSync ? envelope.data?.recipient : senderId;
+            if (typeof peerId !== 'string') return;
+            const chatId = getDirectChatId(selfId, peerId);
+
+            const content = get().decryptForChat(getDirectChatId(selfId, senderId), senderDevice, {
+              header: envelope.data?.header,
+              encrypted: incoming.encrypted || '',
+              nonce: incoming.nonce,
+            });
+
+            if (content === null) {
+              console.warn(`Dropping message ${incoming.id} from ${senderId}: decryption failed`);
+              return;
+            }
 
-          if (!chat) {
-            // Create consistent chat ID by sorting participant IDs
-            const participants = [selfId, senderId].sort();
-            const chatId = `direct_${participants[0]}_${participants[1]}`;
-            const newChat: Chat = {
-              id: chatId,
-              type: 'direct',
-              participants: [selfId, senderId],
-              createdBy: senderId,
-              createdAt: Date.now(),
-              lastActivity: Date.now(),
-              unreadCount: 0,
-              isPinned: false,
-              isMuted: false,
-              isArchived: false,
-            };
-            state.addChat(newChat);
-
-            // Add peer if not exists
-            const existingPeer = state.peers.find(p => p.publicKey === senderId);
-            if (!existingPeer) {
-              const newPeer: Peer = {
-                publicKey: senderId,
-                username: incoming.senderUsername,
-                lastSeen: Date.now(),
-                messageCount: 0,
-                isOnline: true,
-                status: 'online',
+            // Edits and tombstones must carry a verified signature and name a message the sender wrote in this chat
+            if (isMessageChange(incoming)) {
+              if (!incoming.senderVerified || !handleMessageChange(get(), chatId, senderId, incoming, content)) {
+                console.warn(`Rejected ${incoming.messageType} ${incoming.id} from ${senderId}`);
+              }
+              get().markChangeHandled(incoming.id);
+              return;
+            }
+
+            const state = get();
+
+            // Find or create a direct chat between self and the peer
+            let chat = state.chats.find(c => c.id === chatId);
+
+            if (!chat) {
+              const newChat: Chat = {
+                id: chatId,
+                type: 'direct',
+                participants: [selfId, peerId],
+                createdBy: senderId,
+                createdAt: Date.now(),
+                lastActivity: Date.now(),
+                unreadCount: 0,
+                isPinned: false,
+                isMuted: false,
+                isArchived: false,
               };
-              state.addPeer(newPeer);
+              state.addChat(newChat);
+
+              // Add peer if not exists
+              const existingPeer = state.peers.find(p => p.publicKey === peerId);
+              if (!existingPeer) {
+                const newPeer: Peer = {
+                  publicKey: peerId,
+                  username: isSelfSync ? undefined : incoming.senderUsername,
+                  lastSeen: Date.now(),
+                  messageCount: 0,
+                  isOnline: !isSelfSync,
+                  status: isSelfSync ? 'offline' : 'online',
+                };
+                state.addPeer(newPeer);
+              }
+
+              chat = newChat;
+            }
+
+            // Every device of the sender shares one message id
+            if (get().messages[chat.id]?.some(m => m.id === incoming.id)) return;
+            const body = await openBody(content, senderDevice);
+
+            if (isSelfSync) {
+              state.addMessage(chat.id, { ...incoming, ...body, recipient: peerId, status: 'sent' });
+              return;
             }
 
-            chat = newChat;
+            // Route the message to the resolved chat id
+            state.addMessage(chat.id, { ...incoming, ...body });
+            state.clearTyping(chat.id, senderId);
+            realtimeService.sendDeliveryReceipt(incoming.id, senderId);
+          });
+        });
+
+        realtimeService.onTyping((indicator, isTyping) => {
+          // Typing events name their chat; only accept ones for our chat with the sender or a shared group
+          const isDirect = indicator.chatId === getDirectChatId(currentUser.publicKey, indicator.userId);
+          if (!isDirect && !findGroupChat(get(), indicator.chatId, indicator.userId)) return;
+
+          if (isTyping) {
+            get().setTyping(indicator);
+          } else {
+            get().clearTyping(indicator.chatId, indicator.userId);
           }
+        });
+
+        // Receipts for group messages name the group; anything else belongs to the direct chat
+        const receiptChatId = (from: string, chatId?: string) =>
+          findGroupChat(get(), chatId, from)?.id ?? getDirectChatId(currentUser.publicKey, from);
 
-          // Route the message to the resolved chat id
-          state.addMessage(chat.id, incoming);
+        realtimeService.onDelivery((messageId, timestamp, from, chatId) => {
+          get().applyReceipt(receiptChatId(from, chatId), messageId, 'delivered', timestamp);
+        });
+
+        realtimeService.onRead((messageId, timestamp, from, chatId) => {
+          get().applyReceipt(receiptChatId(from, chatId), messageId, 'read', timestamp);
+        });
+
+        realtimeService.onPlayed((messageId, _timestamp, from, chatId) => {
+          // From our own devices about someone else's clip; from anyone else, about one of ours
+          const ours = from === currentUser.publicKey;
+          const localChatId = ours ? chatId : receiptChatId(from, chatId);
+          const message = localChatId ? get().messages[localChatId]?.find(m => m.id === messageId) : undefined;
+          if (!message || message.played || message.messageType !== 'voice') return;
+          if (ours === (message.sender === currentUser.publicKey)) return;
+          get().updateMessage(localChatId!, messageId, { played: true });
+        });
+
+        realtimeService.onSendStatus((chatId, messageId, status) => {
+          const message = get().messages[chatId]?.find(m => m.id === messageId);
+          // A receipt may already have overtaken the relay's acknowledgement
+          if (!message || STATUS_RANK[message.status] > STATUS_RANK.sending) return;
+          get().updateMessage(chatId, messageId, { status });
         });
 
         realtimeService.onConnectionStatus((status) => {
           set({ connectionStatus: status });
+          if (status !== 'connected') return;
+
+          // A relay without persistent groups forgets them when it restarts. Admins
+          // register theirs again as they stand now; the relay ignores known ids.
+          get().chats
+            .filter(c => usesSenderKeys(c) && isGroupAdmin(c, currentUser.publicKey))
+            .forEach(c => realtimeService.createGroup(c.id, c.participants, {
+              createdBy: c.createdBy,
+              admins: c.participants.filter(p => isGroupAdmin(c, p)),
+            }));
+
+          // Refresh names, authors and subscriber counts of public channels
+          const channelIds = get().chats.filter(c => c.type === 'channel' && !usesSenderKeys(c)).map(c => c.id);
+          if (channelIds.length > 0) {
+            realtimeService.requestChannelInfo(channelIds)
+              .then((channels) => channels.forEach(get().applyChannelInfo));
+          }
+
+          // Catch up on anything the mailbox could not hold for us
+          get().syncMessages().catch((error) => console.error('Message sync failed:', error));
         });
 
+        realtimeService.onChannelInfo((channel) => get().applyChannelInfo(channel));
+
         realtimeService.onPresence((presence) => {
           get().setPeerOnline(presence.userId, presence.status === 'online');
         });
+
+        // Files still going up when the page was closed, and the messages waiting on them
+        get().resumeUploads();
+
+        // Messages left 'sending' that the outbox no longer holds can never be acknowledged
+        const pending = await realtimeService.getPendingMessageIds();
+        Object.entries(get().messages).forEach(([chatId, chatMessages]) => {
+          chatMessages
+            .filter(m => m.sender === currentUser.publicKey && m.status === 'sending' && !pending.has(m.id))
+            .forEach(m => get().updateMessage(chatId, m.id, { status: 'failed' }));
+        });
       }
     },
 
-    sendEncryptedMessage: async (chatId, content, recipientKey) => {
+    sendEncryptedMessage: async (chatId, content, recipientKey, options = {}) => {
       const state = get();
       const currentUser = state.currentUser;
 
@@ -367,46 +1042,102 @@ export const useChatStore = create<ChatState>()(
       try {
         set((state) => ({ loading: { ...state.loading, sendingMessage: true } }));
 
-        // Generate or get shared key
-        let sharedKey = state.encryptionKeys[recipientKey];
-        if (!sharedKey) {
-          // In a real implementation, perform key exchange
-          sharedKey = new Uint8Array(32); // Mock key
-          state.encryptionKeys[recipientKey] = sharedKey;
-        }
+        const chat = state.chats.find(c => c.id === chatId);
+        if (chat && !canPostIn(chat, currentUser.publicKey)) throw new Error('Only channel authors can post here');
+
+        // Groups and private channels encrypt once under our sender key; the relay fans
+        // the envelope out. Public channel posts are signed but not encrypted.
+        const isGroup = !!chat && usesSenderKeys(chat);
+        const isPublicChannel = chat?.type === 'channel' && !isGroup;
 
-        // Encrypt message
-        const encryptedData = AdvancedCrypto.encryptWithSharedSecret(content, sharedKey);
+        // Replies join their parent's thread, or start one rooted at the parent
+        const { replyTo, forwardedFrom, attachment } = options;
+        const parent = replyTo ? get().messages[chatId]?.find(m => m.id === replyTo) : undefined;
+        const realtimeService = getRealtimeService();
+        const messageId = AdvancedCrypto.generateSecureId();
 
         const message: Message = {
-          id: AdvancedCrypto.generateSecureId(),
+          id: messageId,
           sender: currentUser.publicKey,
           senderUsername: currentUser.username,
           recipient: recipientKey,
           content: content, // Store plaintext locally
-          encrypted: encryptedData.encrypted,
-          nonce: encryptedData.nonce,
+          nonce: '', // Ciphertext differs per recipient device, so none is kept
           timestamp: Date.now(),
           status: 'sending',
-          messageType: 'text',
+          messageType: attachment ? attachmentMessageType(attachment) : 'text',
+          replyTo: parent?.id,
+          threadId: parent ? parent.threadId ?? parent.id : undefined,
+          attestation: realtimeService.attestContent(messageId, content, attachment),
+          forwardedFrom,
+          ...attachmentFields(attachment),
         };
+        const reply = replyReference(message);
+        const body = messageBody(message);
+
+        // Encrypt message with the chat's double-ratchet session
+        const groupPayload = isGroup ? await get().encryptForGroup(chatId, body) : null;
+        const encryptedData = isGroup || isPublicChannel ? [] : await get().encryptForChat(chatId, recipientKey, body);
 
         // Add to local state immediately
         get().addMessage(chatId, message);
 
-        // Send via realtime service
-        const realtimeService = getRealtimeService();
-        const messageId = await realtimeService.sendMessage(
-          content,
-          recipientKey,
-          new Uint8Array(32), // placeholder key
-          'text',
-          undefined,
-          currentUser.username
-        );
+        // Hand off to the outbox; status moves to 'sent' once the relay acknowledges it
+        try {
+          if (isPublicChannel) {
+            await realtimeService.sendChannelPost(chatId, message.id, body, message.messageType, currentUser.username, reply);
+            return;
+          }
 
-        // Update status to sent
-        get().updateMessage(chatId, message.id, { status: 'sent' });
+          if (groupPayload) {
+            await realtimeService.sendGroupMessage(
+              chatId,
+              message.id,
+              groupPayload,
+              message.messageType,
+              undefined,
+              currentUser.username,
+              reply
+            );
+            // Our other devices are members too and get the group envelope
+            return;
+          }
+
+          await realtimeService.sendMessage(
+            chatId,
+            message.id,
+            encryptedData,
+            recipientKey,
+            message.messageType,
+            undefined,
+            currentUser.username,
+            reply
+          );
+        } catch (error) {
+          get().updateMessage(chatId, message.id, { status: 'failed' });
+          throw error;
+        }
+
+        // Keep our other devices' history in step
+        try {
+          const selfSync = await get().encryptForChat(
+            getDirectChatId(currentUser.publicKey, currentUser.publicKey),
+            currentUser.publicKey,
+            body
+          );
+          await realtimeService.sendSelfSync(
+            chatId,
+            message.id,
+            selfSync,
+            recipientKey,
+            message.messageType,
+            undefined,
+            currentUser.username,
+            reply
+          );
+        } catch (error) {
+          console.error('Failed to sync sent message to other devices:', error);
+        }
 
       } catch (error) {
         console.error('Failed to send encrypted message:', error);
@@ -416,45 +1147,305 @@ export const useChatStore = create<ChatState>()(
       }
     },
 
-    uploadFile: async (file, chatId) => {
-      const fileId = AdvancedCrypto.generateSecureId();
+    retryMessage: async (chatId, messageId) => {
+      const currentUser = get().currentUser;
+      const message = get().messages[chatId]?.find(m => m.id === messageId);
+      if (!currentUser || !message || message.status !== 'failed') return;
+
+      get().updateMessage(chatId, messageId, { status: 'sending' });
+
+      try {
+        const realtimeService = getRealtimeService();
+        if (await realtimeService.retryMessage(messageId)) return;
+
+        // The stored envelope is gone (e.g. site data was cleared): encrypt again under the same id
+        const chat = get().chats.find(c => c.id === chatId);
+        const reply = replyReference(message);
+        const body = message.groupEvent ? JSON.stringify(message.groupEvent) : messageBody(message);
+        if (chat?.type === 'channel' && !usesSenderKeys(chat)) {
+          await realtimeService.sendChannelPost(
+            chatId,
+            message.id,
+            body,
+            message.messageType,
+            currentUser.username,
+            reply
+          );
+          return;
+        }
+
+        if (chat && usesSenderKeys(chat)) {
+          const payload = await get().encryptForGroup(chatId, body);
+          await realtimeService.sendGroupMessage(
+            chatId,
+            message.id,
+            payload,
+            message.messageType,
+            undefined,
+            currentUser.username,
+            reply
+          );
+          return;
+        }
+
+        const encryptedData = await get().encryptForChat(chatId, message.recipient, body);
+        await realtimeService.sendMessage(
+          chatId,
+          message.id,
+          encryptedData,
+          message.recipient,
+          message.messageType,
+          undefined,
+          currentUser.username,
+          reply
+        );
+      } catch (error) {
+        console.error('Failed to retry message:', error);
+        get().updateMessage(chatId, messageId, { status: 'failed' });
+      }
+    },
+
+    uploadFile: async (file, options = {}) => {
+      const owner = get().currentUser?.publicKey;
+      if (!owner) throw new Error('No current user');
+
+      set((state) => ({ loading: { ...state.loading, fileUpload: true } }));
+      try {
+        // Photos leave their location and camera details behind before going anywhere
+        const image = !options.asIs && canProcessImage(file.type)
+          ? await processImage(file, options.imageQuality ?? 'compressed')
+          : undefined;
+        // Nothing is kept for a file that can never go up
+        assertUploadable(image?.file ?? file);
+        const upload: PendingUpload = {
+          id: AdvancedCrypto.generateSecureId(),
+          owner,
+          file: image?.file ?? file,
+          progress: newUploadProgress(),
+          extras: { ...options.extras, ...(image && { width: image.width, height: image.height, placeholder: image.placeholder }) },
+          send: options.send,
+          createdAt: Date.now(),
+        };
+        // Saved before the first chunk, so a reload can finish the upload and its message
+        await savePendingUpload(upload);
+        return await get().continueUpload(upload);
+      } finally {
+        set((state) => ({ loading: { ...state.loading, fileUpload: false } }));
+      }
+    },
+
+    continueUpload: async (upload) => {
+      const { id: fileId, file } = upload;
+      const setUpload = (updates: Partial<FileAttachment>) => set((state) => ({
+        fileUploads: { ...state.fileUploads, [fileId]: { ...state.fileUploads[fileId], ...updates } },
+      }));
 
+      let transfer: ChunkedTransfer<MessageAttachment>;
       try {
-        set((state) => ({ loading: { ...state.loading, fileUpload: true } }));
+        transfer = uploadEncryptedFile(
+          file,
+          fileId,
+          (transferState, uploadProgress) => setUpload({ transferState, uploadProgress }),
+          upload.progress,
+          () => savePendingUpload(upload)
+        );
+      } catch (error) {
+        // Retrying would fail the same way, so the upload is dropped for good
+        pendingUploads.delete(fileId);
+        await removePendingUpload(fileId);
+        throw error;
+      }
+      pendingUploads.set(fileId, upload);
+      fileTransfers.set(fileId, transfer);
 
-        // Create file attachment
-        const attachment: FileAttachment = {
+      if (!get().fileUploads[fileId]) {
+        // Our own copy stays viewable without a round trip through the relay
+        setUpload({
           id: fileId,
           name: file.name,
           size: file.size,
           type: file.type,
-          url: URL.createObjectURL(file), // Mock URL
+          url: URL.createObjectURL(file),
           uploadProgress: 0,
+          chatId: upload.send?.chatId,
           encrypted: true,
-        };
-
-        set((state) => ({
-          fileUploads: { ...state.fileUploads, [fileId]: attachment }
-        }));
+        });
+        get().generateThumbnail(fileId);
+      }
 
-        // Simulate upload progress
-        for (let progress = 0; progress <= 100; progress += 10) {
-          await new Promise(resolve => setTimeout(resolve, 100));
-          set((state) => ({
-            fileUploads: {
-              ...state.fileUploads,
-              [fileId]: { ...state.fileUploads[fileId], uploadProgress: progress }
-            }
-          }));
+      try {
+        const attachment: MessageAttachment = { ...await transfer.start(), ...upload.extras };
+        if (upload.send) {
+          const { chatId, recipientKey, caption, replyTo, forwardedFrom } = upload.send;
+          try {
+            await get().sendEncryptedMessage(chatId, caption, recipientKey, { replyTo, forwardedFrom, attachment });
+          } catch (error) {
+            // The file is up; retrying only sends the message
+            setUpload({ transferState: 'failed' });
+            throw error;
+          }
         }
+        pendingUploads.delete(fileId);
+        await removePendingUpload(fileId);
+        return attachment;
+      } catch (error) {
+        // A failed upload keeps its progress, for the user to retry or cancel
+        if (!isTransferCancelled(error)) console.error('File upload failed:', error);
+        throw error;
+      } finally {
+        fileTransfers.delete(fileId);
+      }
+    },
+
+    resumeUploads: async () => {
+      const owner = get().currentUser?.publicKey;
+      if (!owner) return;
+
+      const uploads = await loadPendingUploads(owner);
+      uploads
+        .filter(upload => !pendingUploads.has(upload.id))
+        .forEach(upload => get().continueUpload(upload).catch(() => {}));
+    },
 
-        return attachment.url;
+    sendFile: async (chatId, file, recipientKey, caption = '', options = {}) => {
+      const { imageQuality, replyTo, forwardedFrom } = options;
+      await get().uploadFile(file, { imageQuality, send: { chatId, recipientKey, caption, replyTo, forwardedFrom } });
+    },
+
+    sendVoiceMessage: async (chatId, audio, duration, waveform, recipientKey, options = {}) => {
+      const extension = audio.type.includes('ogg') ? 'ogg' : audio.type.includes('mp4') ? 'm4a' : 'webm';
+      const file = new File([audio], `voice-${Date.now()}.${extension}`, { type: audio.type });
+      const { replyTo, forwardedFrom } = options;
+      await get().uploadFile(file, {
+        extras: { duration, waveform },
+        send: { chatId, recipientKey, caption: '', replyTo, forwardedFrom },
+      });
+    },
+
+    downloadAttachment: async (attachment) => {
+      const { blobId } = attachment;
+      const existing = get().fileUploads[blobId];
+      if (existing?.url) return existing.url;
+
+      const setDownload = (updates: Partial<FileAttachment>) => set((state) => ({
+        fileUploads: { ...state.fileUploads, [blobId]: { ...state.fileUploads[blobId], ...updates } },
+      }));
+
+      // A failed or paused download carries on with the chunks it already has
+      let transfer = fileTransfers.get(blobId) as ChunkedTransfer<Blob> | undefined;
+      if (!transfer) {
+        transfer = downloadEncryptedFile(attachment, (transferState, downloadProgress) =>
+          setDownload({ transferState, downloadProgress })
+        );
+        fileTransfers.set(blobId, transfer);
+        setDownload({
+          id: blobId,
+          name: attachment.name,
+          size: attachment.size,
+          type: attachment.type,
+          url: '',
+          downloadProgress: 0,
+          encrypted: true,
+        });
+      }
+      transfer.resume();
 
+      try {
+        const url = URL.createObjectURL(await transfer.start());
+        fileTransfers.delete(blobId);
+        setDownload({ url });
+        get().generateThumbnail(blobId);
+        return url;
       } catch (error) {
-        console.error('File upload failed:', error);
+        if (isTransferCancelled(error)) {
+          // Downloading again starts over
+          fileTransfers.delete(blobId);
+        } else {
+          console.error(`Failed to download ${attachment.name}:`, error);
+        }
         throw error;
-      } finally {
-        set((state) => ({ loading: { ...state.loading, fileUpload: false } }));
+      }
+    },
+
+    generateThumbnail: async (fileId) => {
+      const file = get().fileUploads[fileId];
+      if (!file?.url || file.thumbnail || thumbnailsTried.has(fileId)) return;
+
+      thumbnailsTried.add(fileId);
+      const thumbnail = await createThumbnail(file.url, file.type);
+      // The file may have been deleted or cancelled meanwhile
+      if (!thumbnail || !get().fileUploads[fileId]) return;
+      set((state) => ({
+        fileUploads: { ...state.fileUploads, [fileId]: { ...state.fileUploads[fileId], thumbnail } },
+      }));
+    },
+
+    pauseTransfer: (fileId) => {
+      fileTransfers.get(fileId)?.pause();
+    },
+
+    resumeTransfer: (fileId) => {
+      const transfer = fileTransfers.get(fileId);
+      if (transfer) {
+        transfer.resume();
+        return;
+      }
+      // A failed upload starts over with the chunks it has not sent yet
+      const upload = pendingUploads.get(fileId);
+      if (upload) get().continueUpload(upload).catch(() => {});
+    },
+
+    cancelTransfer: (fileId) => {
+      fileTransfers.get(fileId)?.cancel();
+      // A cancelled upload is never sent, so there is nothing left to show
+      if (pendingUploads.delete(fileId)) {
+        removePendingUpload(fileId);
+        releaseAttachment(get().fileUploads[fileId]?.url);
+        set((state) => ({
+          fileUploads: Object.fromEntries(Object.entries(state.fileUploads).filter(([id]) => id !== fileId)),
+        }));
+      }
+    },
+
+    applyReceipt: (chatId, messageId, status, timestamp) => {
+      const message = get().messages[chatId]?.find(m => m.id === messageId);
+      if (!message || message.sender !== get().currentUser?.publicKey) return;
+      if (STATUS_RANK[status] <= STATUS_RANK[message.status]) return;
+
+      get().updateMessage(chatId, messageId, {
+        status,
+        confirmationTime: message.confirmationTime ?? timestamp,
+      });
+    },
+
+    markMessageRead: (chatId, messageId) => {
+      const { currentUser, messages } = get();
+      const message = messages[chatId]?.find(m => m.id === messageId);
+      if (!currentUser || !message || message.sender === currentUser.publicKey) return;
+      if (message.status === 'read') return;
+
+      get().updateMessage(chatId, messageId, { status: 'read' });
+
+      // Honour the user's privacy preference; receipts default to on. Channel authors get none.
+      const isChannel = get().chats.find(c => c.id === chatId)?.type === 'channel';
+      if (!isChannel && currentUser.preferences?.privacy.showReadReceipts !== false) {
+        getRealtimeService().sendReadReceipt(messageId, message.sender, chatId);
+      }
+    },
+
+    markVoicePlayed: (chatId, messageId) => {
+      const { currentUser, messages } = get();
+      const message = messages[chatId]?.find(m => m.id === messageId);
+      if (!currentUser || !message || message.sender === currentUser.publicKey || message.played) return;
+
+      get().updateMessage(chatId, messageId, { played: true });
+
+      // Our other devices always hear about it; the sender only if we share read receipts
+      const realtimeService = getRealtimeService();
+      realtimeService.sendPlayedReceipt(messageId, currentUser.publicKey, chatId);
+      const isChannel = get().chats.find(c => c.id === chatId)?.type === 'channel';
+      if (!isChannel && currentUser.preferences?.privacy.showReadReceipts !== false) {
+        realtimeService.sendPlayedReceipt(messageId, message.sender, chatId);
       }
     },
 
@@ -475,31 +1466,784 @@ export const useChatStore = create<ChatState>()(
     loadDraft: (chatId) => get().drafts[chatId] || '',
 
     syncMessages: async () => {
-      // Mock sync implementation
-      const state = get();
-      const currentTime = Date.now();
+      if (syncInFlight) return syncInFlight;
+
+      syncInFlight = (async () => {
+        const { currentUser, chats, deviceId } = get();
+        if (!currentUser) return;
+
+        const realtimeService = getRealtimeService();
+        // A conversation we never synced, e.g. a group joined since, starts from the beginning
+        const watermarks = { ...get().syncWatermarks };
+
+        // Index what we already hold so replayed envelopes are skipped
+        const cache = new Map(get().messageCache);
+        Object.values(get().messages).forEach(chatMessages => {
+          chatMessages.forEach(m => cache.set(m.id, m));
+        });
+        // Changes leave no message of their own behind, and messages deleted for
+        // me left theirs behind on purpose, so both are tracked by id
+        const skipped = new Set([...get().handledChanges, ...get().deletedForMe]);
+
+        // Our own conversation carries copies of what our other devices sent;
+        // groups and channels keep one shared history under their id
+        const peerIds = new Set([currentUser.publicKey]);
+        chats.filter(c => c.type === 'direct').forEach(chat => {
+          chat.participants.filter(p => p !== currentUser.publicKey).forEach(p => peerIds.add(p));
+        });
+        chats.filter(c => c.type === 'group' || c.type === 'channel').forEach(chat => peerIds.add(chat.id));
+
+        for (const peerId of peerIds) {
+          let cursor: string | null = null;
+          let syncedAt: number | null = null;
+          do {
+            const page = await realtimeService.requestHistory(peerId, watermarks[peerId] ?? 0, cursor);
+            // Connection lost mid-sync: this conversation keeps its old watermark so the next sync covers the gap
+            if (!page) {
+              set({ messageCache: cache, syncWatermarks: watermarks });
+              return;
+            }
+            syncedAt ??= page.serverTime;
+
+            for (const envelope of page.envelopes) {
+              const messageId = envelope.data?.messageId || envelope.id;
+              // This device's own sends are already local
+              if (envelope.fromDevice === deviceId || cache.has(messageId) || skipped.has(messageId)) continue;
+
+              await realtimeService.ingest(envelope);
+              const chatId = typeof envelope.data?.chatId === 'string' ? envelope.data.chatId : '';
+              const restored = get().messages[chatId]?.find(m => m.id === messageId);
+              if (restored) cache.set(messageId, restored);
+            }
+            cursor = page.cursor;
+          } while (cursor);
+          if (syncedAt !== null) watermarks[peerId] = syncedAt;
+        }
+
+        set({ messageCache: cache, syncWatermarks: watermarks });
+      })().finally(() => {
+        syncInFlight = null;
+      });
+
+      return syncInFlight;
+    },
+
+    markChangeHandled: (messageId) => set((state) => ({
+      handledChanges: rememberId(state.handledChanges, messageId),
+    })),
+
+    sendControlMessage: async (chatId, messageType, plaintext) => {
+      const currentUser = get().currentUser;
+      const chat = get().chats.find(c => c.id === chatId);
+      if (!currentUser || !chat) throw new Error(`Unknown chat ${chatId}`);
+
+      // Same transports as chat messages, but nothing is added to the chat
+      const realtimeService = getRealtimeService();
+      const messageId = AdvancedCrypto.generateSecureId();
+      if (chat.type === 'channel' && !usesSenderKeys(chat)) {
+        await realtimeService.sendChannelPost(chatId, messageId, plaintext, messageType, currentUser.username);
+        return;
+      }
+
+      if (usesSenderKeys(chat)) {
+        const payload = await get().encryptForGroup(chatId, plaintext);
+        await realtimeService.sendGroupMessage(chatId, messageId, payload, messageType, undefined, currentUser.username);
+        return;
+      }
+
+      const peerId = chat.participants.find(p => p !== currentUser.publicKey) ?? currentUser.publicKey;
+      const encryptedData = await get().encryptForChat(chatId, peerId, plaintext);
+      await realtimeService.sendMessage(chatId, messageId, encryptedData, peerId, messageType, undefined, currentUser.username);
+
+      const selfSync = await get().encryptForChat(
+        getDirectChatId(currentUser.publicKey, currentUser.publicKey),
+        currentUser.publicKey,
+        plaintext
+      );
+      await realtimeService.sendSelfSync(chatId, messageId, selfSync, peerId, messageType, undefined, currentUser.username);
+    },
+
+    editMessage: async (chatId, messageId, content) => {
+      const currentUser = get().currentUser;
+      const message = get().messages[chatId]?.find(m => m.id === messageId);
+      if (!currentUser || !message) throw new Error(`Unknown message ${messageId}`);
+
+      const denied = authorizeMessageEdit(message, currentUser.publicKey);
+      if (denied) throw new Error(`Not permitted: ${denied}`);
+      if (!content.trim() || content === message.content) return;
+
+      const edit: MessageEdit = {
+        messageId,
+        content,
+        editedAt: Date.now(),
+        attestation: getRealtimeService().attestContent(messageId, content),
+      };
+      get().handleMessageEdit(chatId, currentUser.publicKey, edit);
+      await get().sendControlMessage(chatId, 'edit', JSON.stringify(edit));
+    },
+
+    handleMessageEdit: (chatId, editor, edit) => {
+      const message = get().messages[chatId]?.find(m => m.id === edit.messageId);
+      if (!message) return false;
+
+      const denied = authorizeMessageEdit(message, editor);
+      if (denied) {
+        console.warn(`Ignoring edit of ${edit.messageId} by ${editor}: ${denied}`);
+        return false;
+      }
+
+      const updates = applyMessageEdit(message, edit.content, edit.editedAt);
+      if (!updates) return true;
+      // The signature covers the newest text only, so it travels with it
+      if (updates.editedAt === edit.editedAt) updates.attestation = edit.attestation;
+
+      get().updateMessage(chatId, edit.messageId, updates);
+      const chat = get().chats.find(c => c.id === chatId);
+      if (chat?.lastMessage?.id === edit.messageId) {
+        get().updateChat(chatId, { lastMessage: { ...chat.lastMessage, ...updates } });
+      }
+      return true;
+    },
+
+    deleteMessage: async (chatId, messageId, forEveryone) => {
+      const currentUser = get().currentUser;
+      const chat = get().chats.find(c => c.id === chatId);
+      const message = get().messages[chatId]?.find(m => m.id === messageId);
+      if (!currentUser || !chat || !message) throw new Error(`Unknown message ${messageId}`);
+
+      if (!forEveryone) {
+        get().purgeAttachment(message);
+        get().removeMessage(chatId, messageId);
+        // Channel posts and synced copies would otherwise come back with the next history sync
+        set((state) => ({ deletedForMe: rememberId(state.deletedForMe, messageId) }));
+        if (chat.lastMessage?.id === messageId) {
+          const remaining = get().messages[chatId] ?? [];
+          get().updateChat(chatId, { lastMessage: remaining[remaining.length - 1] });
+        }
+        return;
+      }
+
+      const denied = authorizeMessageDeletion(chat, message, currentUser.publicKey);
+      if (denied) throw new Error(`Not permitted: ${denied}`);
+
+      const deletion: MessageDeletion = { messageId, deletedAt: Date.now() };
+      get().handleMessageDeletion(chatId, currentUser.publicKey, deletion);
+      await get().sendControlMessage(chatId, 'delete', JSON.stringify(deletion));
+    },
+
+    handleMessageDeletion: (chatId, actor, deletion) => {
+      const chat = get().chats.find(c => c.id === chatId);
+      const message = get().messages[chatId]?.find(m => m.id === deletion.messageId);
+      if (!chat || !message) return false;
+      if (message.deleted) return true;
+
+      const denied = authorizeMessageDeletion(chat, message, actor);
+      if (denied) {
+        console.warn(`Ignoring deletion of ${deletion.messageId} by ${actor}: ${denied}`);
+        return false;
+      }
+
+      const updates = tombstone(deletion.deletedAt);
+      get().purgeAttachment(message);
+      get().updateMessage(chatId, deletion.messageId, updates);
+      if (chat.lastMessage?.id === deletion.messageId) {
+        get().updateChat(chatId, { lastMessage: { ...chat.lastMessage, ...updates } });
+      }
+      // Every participant applies the tombstone, so each drops the pin too
+      const pins = applyPinChange(chat.pinnedMessages, actor, { messageId: deletion.messageId, action: 'unpin', at: deletion.deletedAt });
+      if (pins) get().updateChat(chatId, { pinnedMessages: pins });
+      return true;
+    },
+
+    toggleReaction: async (chatId, messageId, emoji) => {
+      const currentUser = get().currentUser;
+      const message = get().messages[chatId]?.find(m => m.id === messageId);
+      if (!currentUser || !message) throw new Error(`Unknown message ${messageId}`);
+
+      const hasReacted = !!message.reactions?.some(r => r.emoji === emoji && r.users.includes(currentUser.publicKey));
+      const change: ReactionChange = { messageId, emoji, action: hasReacted ? 'remove' : 'add' };
+      if (!get().handleReaction(chatId, currentUser.publicKey, change)) return;
+      await get().sendControlMessage(chatId, 'reaction', JSON.stringify(change));
+    },
+
+    handleReaction: (chatId, reactor, change) => {
+      const message = get().messages[chatId]?.find(m => m.id === change.messageId);
+      if (!message) return false;
+
+      const denied = authorizeReaction(message);
+      if (denied) {
+        console.warn(`Ignoring reaction on ${change.messageId} by ${reactor}: ${denied}`);
+        return false;
+      }
+
+      const reactions = applyReactionChange(message.reactions, reactor, change);
+      if (reactions) get().updateMessage(chatId, change.messageId, { reactions });
+      return true;
+    },
+
+    toggleStar: (chatId, messageId) => {
+      const message = get().messages[chatId]?.find(m => m.id === messageId);
+      if (message) get().updateMessage(chatId, messageId, { starred: !message.starred });
+    },
+
+    setStarred: (chatId, messageIds, starred) => {
+      for (const messageId of messageIds) {
+        get().updateMessage(chatId, messageId, { starred });
+      }
+    },
+
+    setMessagePinned: async (chatId, messageId, pinned) => {
+      const currentUser = get().currentUser;
+      const chat = get().chats.find(c => c.id === chatId);
+      const message = get().messages[chatId]?.find(m => m.id === messageId);
+      if (!currentUser || !chat || !message) throw new Error(`Unknown message ${messageId}`);
 
-      set({ lastSyncTimestamp: currentTime });
+      const denied = authorizePinChange(chat, message, currentUser.publicKey);
+      if (denied) throw new Error(`Not permitted: ${denied}`);
 
-      // In a real implementation, sync with server
-      console.log('Messages synced at:', new Date(currentTime));
+      const change: PinChange = { messageId, action: pinned ? 'pin' : 'unpin', at: Date.now() };
+      if (!get().handlePinChange(chatId, currentUser.publicKey, change)) return;
+      await get().sendControlMessage(chatId, 'pin', JSON.stringify(change));
     },
 
-    generateSharedKey: (userId, theirPublicKey) => {
-      // Mock key generation
-      const sharedKey = new Uint8Array(32);
-      crypto.getRandomValues(sharedKey);
+    handlePinChange: (chatId, actor, change) => {
+      const chat = get().chats.find(c => c.id === chatId);
+      const message = get().messages[chatId]?.find(m => m.id === change.messageId);
+      if (!chat || !message) return false;
+
+      const denied = authorizePinChange(chat, message, actor);
+      if (denied) {
+        console.warn(`Ignoring ${change.action} of ${change.messageId} by ${actor}: ${denied}`);
+        return false;
+      }
+
+      const pins = applyPinChange(chat.pinnedMessages, actor, change);
+      if (pins) get().updateChat(chatId, { pinnedMessages: pins });
+      return true;
+    },
+
+    purgeAttachment: (message) => {
+      const blobId = message.attachment?.blobId;
+      const url = message.fileUrl ?? (blobId ? get().fileUploads[blobId]?.url : undefined);
+      if (!url && !blobId) return;
+
+      if (blobId) fileTransfers.get(blobId)?.cancel();
+      releaseAttachment(url);
+      set((state) => ({
+        fileUploads: Object.fromEntries(
+          Object.entries(state.fileUploads).filter(([id, upload]) => id !== blobId && (!url || upload.url !== url))
+        ),
+      }));
+    },
+
+    forwardMessage: async (chatId, messageId, targetChatIds, peerIds = []) => {
+      const currentUser = get().currentUser;
+      const message = get().messages[chatId]?.find(m => m.id === messageId);
+      if (!currentUser || !message) throw new Error(`Unknown message ${messageId}`);
+      if (message.deleted || message.messageType === 'system' || message.groupEvent) {
+        throw new Error('This message cannot be forwarded');
+      }
+
+      // A forward of a forward still names the original author, with their signature
+      const forwardedFrom: ForwardedFrom = message.forwardedFrom ?? {
+        messageId: message.id,
+        sender: message.sender,
+        senderUsername: message.senderUsername,
+        timestamp: message.timestamp,
+        attestation: message.attestation,
+      };
+
+      // Peers picked without a conversation get a direct chat first
+      const targets = new Set(targetChatIds);
+      for (const peerId of peerIds) {
+        const directId = getDirectChatId(currentUser.publicKey, peerId);
+        if (!get().chats.some(c => c.id === directId)) {
+          get().addChat({
+            id: directId,
+            type: 'direct',
+            participants: [currentUser.publicKey, peerId],
+            createdBy: currentUser.publicKey,
+            createdAt: Date.now(),
+            lastActivity: Date.now(),
+            unreadCount: 0,
+            isPinned: false,
+            isMuted: false,
+            isArchived: false,
+          });
+        }
+        targets.add(directId);
+      }
+
+      // An attachment goes up again under a fresh key for each target, so neither
+      // the relay nor the recipients can tie the forwards to the original
+      const attachment = attachmentOf(message);
+      let file: File | undefined;
+      if (attachment) {
+        const blob = await (await fetch(await get().downloadAttachment(attachment))).blob();
+        file = new File([blob], attachment.name, { type: attachment.type });
+      }
+
+      // Each target encrypts the content afresh under its own sessions
+      let failed = 0;
+      for (const targetId of targets) {
+        const chat = get().chats.find(c => c.id === targetId);
+        const recipient = chat?.type === 'direct'
+          ? chat.participants.find(p => p !== currentUser.publicKey) ?? currentUser.publicKey
+          : targetId;
+        try {
+          if (attachment && file) {
+            await get().uploadFile(file, {
+              asIs: true,
+              extras: mediaDetails(attachment),
+              send: { chatId: targetId, recipientKey: recipient, caption: message.content, forwardedFrom },
+            });
+          } else {
+            await get().sendEncryptedMessage(targetId, message.content, recipient, { forwardedFrom });
+          }
+        } catch (error) {
+          console.error(`Failed to forward ${messageId} to ${targetId}:`, error);
+          failed++;
+        }
+      }
+
+      if (failed) throw new Error(`Could not forward to ${failed} of ${targets.size} chats`);
+    },
+
+    generateSharedKey: (userId, deviceId, theirPublicKey) => {
+      const keyPair = get().messagingKeyPair;
+      if (!keyPair) throw new Error('Messaging keys are locked');
+
+      const sharedKey = AdvancedCrypto.performKeyExchange(keyPair.secretKey, theirPublicKey);
 
       set((state) => ({
-        encryptionKeys: { ...state.encryptionKeys, [userId]: sharedKey }
+        encryptionKeys: { ...state.encryptionKeys, [`${userId}/${deviceId}`]: sharedKey }
       }));
     },
 
-    getSharedKey: (userId) => get().encryptionKeys[userId] || null,
+    getSharedKey: (userId, deviceId) => get().encryptionKeys[`${userId}/${deviceId}`] || null,
+
+    resolveSharedKey: async (userId, deviceId) => {
+      const cached = get().getSharedKey(userId, deviceId);
+      if (cached) return cached;
+
+      const keyPair = get().messagingKeyPair;
+      if (!keyPair) throw new Error('Messaging keys are locked');
+
+      const record = await getKeyDirectory().resolveDevice(userId, deviceId);
+      if (!record) throw new Error(`No messaging key published for ${userId}/${deviceId}`);
+
+      const sharedKey = deriveSharedSecret(keyPair, record);
+      set((state) => ({
+        encryptionKeys: { ...state.encryptionKeys, [`${userId}/${deviceId}`]: sharedKey }
+      }));
+      return sharedKey;
+    },
+
+    encryptForChat: async (chatId, peerId, plaintext) => {
+      const { currentUser, deviceId } = get();
+      const keyPair = get().messagingKeyPair;
+      if (!currentUser || !deviceId || !keyPair) throw new Error('Messaging keys are locked');
+
+      // Encrypt once per device; never to ourselves when syncing our other devices
+      const devices = (await getKeyDirectory().resolve(peerId))
+        .filter(d => !(d.userId === currentUser.publicKey && d.deviceId === deviceId));
+      if (devices.length === 0 && peerId !== currentUser.publicKey) {
+        throw new Error(`No messaging key published for ${peerId}`);
+      }
+
+      const payloads: DevicePayload[] = [];
+      for (const device of devices) {
+        const key = sessionKey(chatId, device.deviceId);
+        let session = loadRatchetSession(get(), key);
+
+        if (!session) {
+          const sharedKey = await get().resolveSharedKey(peerId, device.deviceId);
+
+          // Another send may have opened the session while keys were resolving
+          session = loadRatchetSession(get(), key);
+          if (!session) {
+            const opened = initiateSession(chatId, peerId, sharedKey, keyPair, decodeBase58(device.messagingKey));
+            session = opened.state;
+            void getRealtimeService().sendSessionInit(peerId, device.deviceId, opened.handshake);
+          }
+        }
+
+        payloads.push({ deviceId: device.deviceId, payload: ratchetEncrypt(session, plaintext) });
+        const sealed = sealRatchetSession(get(), session);
+        set((state) => ({
+          ratchetSessions: { ...state.ratchetSessions, [key]: sealed }
+        }));
+      }
+      return payloads;
+    },
+
+    decryptForChat: (chatId, peerDeviceId, payload) => {
+      const key = sessionKey(chatId, peerDeviceId);
+      const session = loadRatchetSession(get(), key);
+      if (!session || !payload.header) return null;
+
+      const plaintext = ratchetDecrypt(session, payload);
+      if (plaintext !== null) {
+        const sealed = sealRatchetSession(get(), session);
+        set((state) => ({
+          ratchetSessions: { ...state.ratchetSessions, [key]: sealed }
+        }));
+      }
+      return plaintext;
+    },
+
+    acceptSessionInit: async (peerId, peerDeviceId, handshake) => {
+      const { currentUser, messagingKeyPair, deviceId } = get();
+      if (!currentUser || !messagingKeyPair || !deviceId) return;
+
+      if (handshake.sessionId !== getDirectChatId(currentUser.publicKey, peerId)) {
+        console.warn(`Ignoring session handshake from ${peerId} for a foreign chat`);
+        return;
+      }
+
+      const record = await getKeyDirectory().resolveDevice(peerId, peerDeviceId);
+      if (!record || record.messagingKey !== handshake.identityKey) {
+        console.warn(`Ignoring session handshake from ${peerId}/${peerDeviceId}: identity key mismatch`);
+        return;
+      }
+
+      const key = sessionKey(handshake.sessionId, peerDeviceId);
+      const existing = loadRatchetSession(get(), key);
+      // The relay mailbox may hand us a handshake we already accepted
+      const seen = [existing?.handshakeKey, existing?.superseded?.handshakeKey];
+      if (seen.includes(handshake.ephemeralKey)) return;
+
+      // Both sides initiated at once: the lower device address keeps its own session
+      const sharedKey = await get().resolveSharedKey(peerId, peerDeviceId);
+      const session = settleHandshake(
+        existing,
+        acceptSession(handshake, peerId, sharedKey, messagingKeyPair),
+        `${currentUser.publicKey}/${deviceId}` < `${peerId}/${peerDeviceId}`
+      );
+      const sealed = sealRatchetSession(get(), session);
+      set((state) => ({
+        ratchetSessions: { ...state.ratchetSessions, [key]: sealed }
+      }));
+    },
+
+    createGroup: async (name, members, options = {}) => {
+      const currentUser = get().currentUser;
+      if (!currentUser) throw new Error('No current user');
+
+      const groupId = `group_${AdvancedCrypto.generateSecureId()}`;
+      const participants = [...new Set([currentUser.publicKey, ...members])];
+      const registered = await getRealtimeService().createGroup(groupId, participants);
+      if (!registered) throw new Error('The relay could not register the group');
+
+      // A private channel is a group in which only its admins (the authors) post
+      get().addChat({
+        id: groupId,
+        type: options.channel ? 'channel' : 'group',
+        name,
+        description: options.description || undefined,
+        participants,
+        createdBy: currentUser.publicKey,
+        createdAt: Date.now(),
+        lastActivity: Date.now(),
+        unreadCount: 0,
+        isPinned: false,
+        isMuted: false,
+        isArchived: false,
+        permissions: defaultGroupPermissions(currentUser.publicKey),
+      });
+
+      // Hand out our sender key now so members see the group before its first message
+      await get().distributeSenderKey(groupId);
+      return groupId;
+    },
+
+    distributeSenderKey: async (groupId) => {
+      const { currentUser, deviceId } = get();
+      const chat = get().chats.find(c => c.id === groupId && usesSenderKeys(c));
+      if (!currentUser || !deviceId || !chat) throw new Error(`Unknown group ${groupId}`);
+
+      const key = senderKeyId(groupId, currentUser.publicKey, deviceId);
+      const senderKey = loadSenderKey(get(), key) ?? createSenderKey(groupId);
+      // Carries a snapshot of the group so invited members can set it up
+      const distribution = JSON.stringify({
+        ...toDistribution(senderKey),
+        type: chat.type,
+        name: chat.name,
+        description: chat.description,
+        avatar: chat.avatar,
+        members: chat.participants,
+        createdBy: chat.createdBy,
+        permissions: groupPermissions(chat),
+      });
+
+      // Members (and our own other devices) that joined or added a device since the last distribution
+      const realtimeService = getRealtimeService();
+      for (const member of chat.participants) {
+        const devices = (await getKeyDirectory().resolve(member))
+          .filter(d => !(member === currentUser.publicKey && d.deviceId === deviceId));
+        const addresses = devices.map(d => `${member}/${d.deviceId}`);
+        if (addresses.every(address => senderKey.distributedTo.includes(address))) continue;
+
+        try {
+          const payloads = await get().encryptForChat(getDirectChatId(currentUser.publicKey, member), member, distribution);
+          for (const { deviceId: memberDevice, payload } of payloads) {
+            await realtimeService.sendSenderKey(member, memberDevice, groupId, payload);
+          }
+          senderKey.distributedTo = [...new Set([...senderKey.distributedTo, ...addresses])];
+        } catch (error) {
+          // Try again before the next message; the rest of the group can still read us
+          console.error(`Failed to share sender key for ${groupId} with ${member}:`, error);
+        }
+      }
+
+      const sealed = sealSenderKeyState(get(), senderKey);
+      set((state) => ({ senderKeys: { ...state.senderKeys, [key]: sealed } }));
+    },
+
+    encryptForGroup: async (groupId, plaintext) => {
+      const { currentUser, deviceId } = get();
+      if (!currentUser || !deviceId) throw new Error('Messaging keys are locked');
+      if (!findGroupChat(get(), groupId, currentUser.publicKey)) {
+        throw new Error('You are no longer a member of this group');
+      }
+
+      // The outbox keeps any new distribution ahead of this message
+      await get().distributeSenderKey(groupId);
+
+      const key = senderKeyId(groupId, currentUser.publicKey, deviceId);
+      const senderKey = loadSenderKey(get(), key);
+      if (!senderKey) throw new Error(`No sender key for ${groupId}`);
+
+      const payload = senderKeyEncrypt(senderKey, plaintext);
+      const sealed = sealSenderKeyState(get(), senderKey);
+      set((state) => ({ senderKeys: { ...state.senderKeys, [key]: sealed } }));
+      return payload;
+    },
+
+    acceptSenderKey: async (from, fromDevice, groupId, payload) => {
+      const currentUser = get().currentUser;
+      if (!currentUser || typeof groupId !== 'string' || !groupId.startsWith('group_')) return;
+
+      const json = get().decryptForChat(getDirectChatId(currentUser.publicKey, from), fromDevice, payload);
+      if (json === null) {
+        console.warn(`Dropping sender key for ${groupId} from ${from}: decryption failed`);
+        return;
+      }
+
+      // The key itself, plus the group's details for members it is new to
+      const details = parseJsonRecord(json);
+      const distribution = parseSenderKeyDistribution(details);
+      if (!details || !distribution || distribution.groupId !== groupId) {
+        console.warn(`Dropping sender key for ${groupId} from ${from}: malformed`);
+        return;
+      }
+
+      const members = details.members;
+      const existing = get().chats.find(c => c.id === groupId);
+      if (existing) {
+        // A newly added member's key can overtake the change that added them, so it
+        // is kept either way; messages are only read while the sender is a member
+        if (!usesSenderKeys(existing)) return;
+      } else {
+        // An unknown group is an invitation: both sides must be listed members
+        if (!Array.isArray(members) || !members.every(isString)) return;
+        if (!members.includes(from) || !members.includes(currentUser.publicKey)) return;
+
+        get().addChat({
+          id: groupId,
+          type: details.type === 'channel' ? 'channel' : 'group',
+          name: isString(details.name) ? details.name : undefined,
+          description: isString(details.description) ? details.description : undefined,
+          avatar: isString(details.avatar) ? details.avatar : undefined,
+          participants: members,
+          createdBy: isString(details.createdBy) ? details.createdBy : from,
+          createdAt: Date.now(),
+          lastActivity: Date.now(),
+          unreadCount: 0,
+          isPinned: false,
+          isMuted: false,
+          isArchived: false,
+          permissions: isChatPermissions(details.permissions) ? details.permissions : undefined,
+        });
+      }
+
+      // A redelivered distribution must not rewind a chain we already follow
+      const key = senderKeyId(groupId, from, fromDevice);
+      if (loadSenderKey(get(), key)?.keyId === distribution.keyId) return;
+
+      const sealed = sealSenderKeyState(get(), fromDistribution(distribution));
+      set((state) => ({ senderKeys: { ...state.senderKeys, [key]: sealed } }));
+    },
+
+    updateGroup: async (groupId, event) => {
+      const currentUser = get().currentUser;
+      const chat = get().chats.find(c => c.id === groupId && usesSenderKeys(c));
+      if (!currentUser || !chat) throw new Error(`Unknown group ${groupId}`);
+
+      const denied = authorizeGroupEvent(chat, currentUser.publicKey, event);
+      if (denied) throw new Error(`Not permitted: ${denied}`);
+
+      const realtimeService = getRealtimeService();
+      if (event.kind === 'member_added') {
+        const added = await realtimeService.updateGroupMembers(groupId, { add: [event.member] });
+        if (!added) throw new Error('The relay could not add the member');
+      }
+      if (event.kind === 'admin_promoted' || event.kind === 'admin_demoted') {
+        const changes = event.kind === 'admin_promoted' ? { promote: [event.member] } : { demote: [event.member] };
+        if (!await realtimeService.updateGroupMembers(groupId, changes)) {
+          throw new Error('The relay could not update the admins');
+        }
+      }
+
+      // A removed member still holds our current key, so the change is sent before it applies
+      const isRemoval = event.kind === 'member_removed';
+      if (!isRemoval) get().handleGroupEvent(groupId, currentUser.publicKey, event);
+
+      const message: Message = {
+        id: AdvancedCrypto.generateSecureId(),
+        sender: currentUser.publicKey,
+        senderUsername: currentUser.username,
+        recipient: groupId,
+        content: describeGroupEvent(event, currentUser.publicKey, (userId) => displayName(get(), userId)),
+        nonce: '',
+        timestamp: Date.now(),
+        status: 'sending',
+        messageType: 'system',
+        groupEvent: event,
+      };
+
+      try {
+        const payload = await get().encryptForGroup(groupId, JSON.stringify(event));
+        get().addMessage(groupId, message);
+        await realtimeService.sendGroupMessage(groupId, message.id, payload, 'system', undefined, currentUser.username);
+      } finally {
+        if (isRemoval) {
+          get().handleGroupEvent(groupId, currentUser.publicKey, event);
+          await realtimeService.updateGroupMembers(groupId, { remove: [event.member] });
+        }
+      }
+    },
+
+    handleGroupEvent: (groupId, actor, event) => {
+      const { currentUser, deviceId } = get();
+      const chat = get().chats.find(c => c.id === groupId);
+      if (!currentUser || !chat) return false;
+
+      const denied = authorizeGroupEvent(chat, actor, event);
+      if (denied) {
+        console.warn(`Ignoring ${event.kind} in ${groupId} by ${actor}: ${denied}`);
+        return false;
+      }
+
+      get().updateChat(groupId, applyGroupEvent(chat, event));
+
+      if (event.kind === 'member_removed') {
+        // Rotate: drop our chain (the next send distributes a fresh one to the
+        // remaining members) and the removed member's chains. A removed device
+        // drops every key of the group.
+        const removedSelf = event.member === currentUser.publicKey;
+        set((state) => {
+          const senderKeys = { ...state.senderKeys };
+          Object.keys(senderKeys)
+            .filter(key => key.startsWith(`${groupId}/`) && (
+              removedSelf ||
+              key.startsWith(`${groupId}/${event.member}/`) ||
+              key === senderKeyId(groupId, currentUser.publicKey, deviceId ?? '')
+            ))
+            .forEach(key => delete senderKeys[key]);
+          return { senderKeys };
+        });
+      }
+      return true;
+    },
+
+    createChannel: async (name, description) => {
+      const channelId = `channel_${AdvancedCrypto.generateSecureId()}`;
+      const channel = await getRealtimeService().createChannel(channelId, name, description);
+      if (!channel) throw new Error('The relay could not create the channel');
+
+      get().addChat(channelChat(channel));
+      return channelId;
+    },
+
+    searchChannels: (query) => getRealtimeService().searchChannels(query),
+
+    joinChannel: async (channelId) => {
+      if (get().chats.some(c => c.id === channelId)) return;
+
+      const channel = await getRealtimeService().joinChannel(channelId);
+      if (!channel) throw new Error('Channel not found');
+
+      get().addChat(channelChat(channel));
+      // Posts made before we subscribed come from the channel's history
+      get().syncMessages().catch((error) => console.error('Message sync failed:', error));
+    },
+
+    leaveChannel: async (channelId) => {
+      const left = await getRealtimeService().leaveChannel(channelId);
+      if (!left) throw new Error('Could not leave the channel');
+      get().removeChat(channelId);
+    },
+
+    setChannelAuthors: async (channelId, authors) => {
+      const channel = await getRealtimeService().setChannelAuthors(channelId, authors);
+      if (!channel) throw new Error('Only the channel creator can change its authors');
+      get().applyChannelInfo(channel);
+    },
+
+    applyChannelInfo: (channel) => {
+      const existing = get().chats.find(c => c.id === channel.channelId && c.type === 'channel');
+      if (!existing) return;
+
+      get().updateChat(channel.channelId, {
+        name: channel.name,
+        description: channel.description,
+        participants: [...channel.authors],
+        permissions: authorPermissions(channel.authors, true),
+        subscriberCount: channel.subscriberCount,
+      });
+    },
+
+    listDevices: async () => {
+      const currentUser = get().currentUser;
+      if (!currentUser) return [];
+
+      const directory = getKeyDirectory();
+      directory.forget(currentUser.publicKey);
+      return directory.resolve(currentUser.publicKey);
+    },
+
+    revokeDevice: async (deviceId, signMessage) => {
+      const currentUser = get().currentUser;
+      if (!currentUser) throw new Error('No current user');
+      if (deviceId === get().deviceId) throw new Error('Cannot revoke the device in use');
+
+      const revocation = await createRevocation(currentUser.publicKey, deviceId, signMessage);
+      const accepted = await getRealtimeService().revokeDevice(revocation);
+      if (!accepted) throw new Error('The relay rejected the revocation');
+
+      // Stop encrypting to the revoked device right away
+      getKeyDirectory().forget(currentUser.publicKey);
+      const selfChatId = getDirectChatId(currentUser.publicKey, currentUser.publicKey);
+      set((state) => {
+        const ratchetSessions = { ...state.ratchetSessions };
+        delete ratchetSessions[sessionKey(selfChatId, deviceId)];
+        return { ratchetSessions };
+      });
+    },
         }))
       ),
       {
         name: 'sol-chat-store',
+        // The gallery index isn't stored; rebuild it from the messages that are
+        onRehydrateStorage: () => (state) => {
+          if (!state) return;
+          useChatStore.setState({
+            mediaGallery: Object.fromEntries(
+              Object.entries(state.messages).map(([chatId, list]) => [chatId, indexMedia(list)])
+            ),
+          });
+        },
         partialize: (state) => ({
           currentUser: state.currentUser,
           chats: state.chats,
@@ -507,7 +2251,11 @@ export const useChatStore = create<ChatState>()(
           peers: state.peers,
           drafts: state.drafts,
           encryptionKeys: {}, // Don't persist encryption keys for security
-          lastSyncTimestamp: state.lastSyncTimestamp,
+          ratchetSessions: state.ratchetSessions, // Sealed with the messaging key
+          senderKeys: state.senderKeys, // Sealed with the messaging key
+          syncWatermarks: state.syncWatermarks,
+          handledChanges: state.handledChanges,
+          deletedForMe: state.deletedForMe,
         }),
       }
     ),
@@ -11,16 +11,127 @@ export interface Message {
   fileName?: string;
   fileSize?: number;
   fileType?: string;
+  attachment?: MessageAttachment; // Where to fetch the file; fileName, fileSize and fileType describe it
   status: 'sending' | 'sent' | 'delivered' | 'read' | 'failed';
   confirmationTime?: number;
   replyTo?: string; // Message ID this is replying to
   reactions?: MessageReaction[];
   edited?: boolean;
   editedAt?: number;
+  revisions?: MessageRevision[]; // Earlier versions of an edited message, oldest first
+  deleted?: boolean; // Tombstoned for everyone; content and attachment are gone
+  deletedAt?: number;
   threadId?: string;
-  messageType: 'text' | 'file' | 'image' | 'voice' | 'system';
+  messageType: 'text' | 'file' | 'image' | 'voice' | 'system' | 'edit' | 'delete' | 'reaction' | 'pin'; // 'edit', 'delete', 'reaction' and 'pin' envelopes change an earlier message and are never stored
+  senderVerified?: boolean; // Envelope signature checked against the sender's attested key
+  attestation?: ContentAttestation; // Sender's signature over the current content
+  forwardedFrom?: ForwardedFrom;
+  starred?: boolean; // Our own bookmark; never sent
+  played?: boolean; // Voice clips: we listened to it, or for our own, a recipient did
+  groupEvent?: GroupEvent; // Set on 'system' messages that change a group
 }
 
+/**
+ * A sending device's signature over a message's content. Unlike the envelope
+ * signature it survives decryption, so the content stays attributable when forwarded.
+ */
+export interface ContentAttestation {
+  senderDevice: string;
+  signedAt: number;
+  signature: string;
+}
+
+/**
+ * Original author of a forwarded message; chains of forwards keep the first author
+ */
+export interface ForwardedFrom {
+  messageId: string;
+  sender: string;
+  senderUsername?: string;
+  timestamp: number;
+  attestation?: ContentAttestation;
+  verified?: boolean; // Attestation checked against the author's device key on receipt
+}
+
+/**
+ * An encrypted file held by the relay and the key that opens it. Only ever
+ * sent inside an encrypted message body.
+ */
+export interface MessageAttachment {
+  blobId: string;
+  key: string; // Secretbox key, unique to this file
+  nonce: string; // Base nonce; each chunk mixes in its index
+  chunkCount: number;
+  digest: string; // Hash of the chunk hashes in order, checked once every chunk is in
+  contentHash?: string; // Hash of the file before encryption; stays the same when a forward re-encrypts it
+  name: string;
+  size: number; // Bytes before encryption
+  type: string;
+  duration?: number; // Seconds, for voice clips
+  waveform?: number[]; // Voice clip loudness, 0 to 1, downsampled to a few dozen bars
+  width?: number; // Pixels, for images
+  height?: number;
+  placeholder?: string; // Tiny JPEG data URL of an image, shown blurred until the real one is in
+}
+
+export interface MessageRevision {
+  content: string;
+  at: number; // When this version was written
+}
+
+/**
+ * Body of an 'edit' envelope: new text for one of the sender's earlier messages
+ */
+export interface MessageEdit {
+  messageId: string;
+  content: string;
+  editedAt: number;
+  attestation?: ContentAttestation; // Covers the new content
+}
+
+/**
+ * Body of a 'delete' envelope: a tombstone for a message, applied by every participant
+ */
+export interface MessageDeletion {
+  messageId: string;
+  deletedAt: number;
+}
+
+/**
+ * Body of a 'reaction' envelope: the sender adds or withdraws one emoji on a message
+ */
+export interface ReactionChange {
+  messageId: string;
+  emoji: string;
+  action: 'add' | 'remove';
+}
+
+/**
+ * Body of a 'pin' envelope: pins a message to the top of the chat for everyone, or unpins it
+ */
+export interface PinChange {
+  messageId: string;
+  action: 'pin' | 'unpin';
+  at: number;
+}
+
+export interface PinnedMessage {
+  messageId: string;
+  pinnedBy: string;
+  pinnedAt: number;
+}
+
+/**
+ * Membership, info and permission changes, sent to the group as system messages
+ */
+export type GroupEvent =
+  | { kind: 'member_added'; member: string }
+  | { kind: 'member_removed'; member: string }
+  | { kind: 'renamed'; name: string }
+  | { kind: 'info_updated'; description?: string; avatar?: string }
+  | { kind: 'admin_promoted'; member: string }
+  | { kind: 'admin_demoted'; member: string };
+
 export interface MessageReaction {
   emoji: string;
   users: string[]; // Public keys of users who reacted
@@ -91,6 +202,8 @@ export interface Chat {
   isMuted: boolean;
   isArchived: boolean;
   permissions?: ChatPermissions;
+  subscriberCount?: number; // Channels
+  pinnedMessages?: PinnedMessage[]; // Oldest pin first
 }
 
 export interface ChatPermissions {
@@ -108,6 +221,8 @@ export interface TypingIndicator {
   timestamp: number;
 }
 
+export type TransferState = 'active' | 'paused' | 'waiting' | 'failed' | 'cancelled' | 'done'; // 'waiting' for the relay to come back
+
 export interface FileAttachment {
   id: string;
   name: string;
@@ -115,7 +230,10 @@ export interface FileAttachment {
   type: string;
   url: string;
   thumbnail?: string;
-  uploadProgress?: number;
+  uploadProgress?: number; // Percent
+  downloadProgress?: number; // Percent, while fetching someone else's file
+  transferState?: TransferState;
+  chatId?: string; // Chat an upload will be sent to
   encrypted: boolean;
 }
 